@@ -7,18 +7,42 @@ import Dashboard from "./pages/Dashboard";
 import AddExpense from "./pages/AddExpense";
 import Analytics from "./pages/Analytics";
 import History from "./pages/History";
+import Recurring from "./pages/Recurring";
+import ExchangeRates from "./pages/ExchangeRates";
+import Income from "./pages/Income";
+import Accounts from "./pages/Accounts";
+import AccountDetail from "./pages/AccountDetail";
+import ImportCsv from "./pages/ImportCsv";
+import Backup from "./pages/Backup";
+import Categories from "./pages/Categories";
+import Tags from "./pages/Tags";
+import Rules from "./pages/Rules";
+import Merchants from "./pages/Merchants";
+import AnnualSummary from "./pages/AnnualSummary";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 import { BottomNav } from "./components/BottomNav";
 import { AuthProvider } from "./contexts/AuthContext";
 import { ProtectedRoute } from "./components/ProtectedRoute";
+import { useOfflineSync } from "./hooks/use-offline-sync";
+import { useRecurringMaterializer } from "./hooks/use-recurring";
+import { CloudOff } from "lucide-react";
+import { storageBackend } from "./lib/repository";
 
 const AppContent = () => {
   const location = useLocation();
   const showBottomNav = location.pathname !== "/auth";
+  const { isOnline } = useOfflineSync();
+  useRecurringMaterializer();
 
   return (
     <>
+      {!isOnline && storageBackend === "supabase" && (
+        <div className="sticky top-0 z-50 flex items-center justify-center gap-2 bg-warning px-4 py-2 text-sm font-medium text-foreground">
+          <CloudOff className="w-4 h-4" />
+          You're offline. Changes will sync when you reconnect.
+        </div>
+      )}
       <Routes>
         <Route path="/auth" element={<Auth />} />
         <Route
@@ -53,6 +77,102 @@ const AppContent = () => {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/recurring"
+          element={
+            <ProtectedRoute>
+              <Recurring />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/income"
+          element={
+            <ProtectedRoute>
+              <Income />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/accounts"
+          element={
+            <ProtectedRoute>
+              <Accounts />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/accounts/:id"
+          element={
+            <ProtectedRoute>
+              <AccountDetail />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/import"
+          element={
+            <ProtectedRoute>
+              <ImportCsv />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/currencies"
+          element={
+            <ProtectedRoute>
+              <ExchangeRates />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/backup"
+          element={
+            <ProtectedRoute>
+              <Backup />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/categories"
+          element={
+            <ProtectedRoute>
+              <Categories />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/tags"
+          element={
+            <ProtectedRoute>
+              <Tags />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/rules"
+          element={
+            <ProtectedRoute>
+              <Rules />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/merchants"
+          element={
+            <ProtectedRoute>
+              <Merchants />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/years"
+          element={
+            <ProtectedRoute>
+              <AnnualSummary />
+            </ProtectedRoute>
+          }
+        />
         <Route path="*" element={<NotFound />} />
       </Routes>
       {showBottomNav && <BottomNav />}
@@ -0,0 +1,55 @@
+import { toast } from "sonner";
+import { Check, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { useAnswerAnomaly } from "@/hooks/use-anomalies";
+import { Anomaly } from "@/lib/anomalies";
+import { AnomalyVerdict } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface AnomalyActionsProps {
+  anomaly: Anomaly;
+  className?: string;
+}
+
+// "Expected" and "Dismiss" for a flag; either hides it, "Expected" teaches the detector more.
+export const AnomalyActions = ({ anomaly, className }: AnomalyActionsProps) => {
+  const answerMutation = useAnswerAnomaly();
+
+  const answer = (verdict: AnomalyVerdict) =>
+    answerMutation.mutate(
+      { anomaly, verdict },
+      {
+        onSuccess: () => {
+          toast.success(verdict === "expected" ? "Marked as expected" : "Flag dismissed");
+        },
+        onError: () => {
+          toast.error("Could not save your answer");
+        },
+      }
+    );
+
+  return (
+    <div className={cn("flex gap-2", className)}>
+      <Button
+        size="sm"
+        variant="outline"
+        className="rounded-xl h-8"
+        onClick={() => answer("expected")}
+        disabled={answerMutation.isPending}
+      >
+        <Check className="w-3 h-3 mr-1" />
+        Expected
+      </Button>
+      <Button
+        size="sm"
+        variant="ghost"
+        className="rounded-xl h-8 text-muted-foreground"
+        onClick={() => answer("dismissed")}
+        disabled={answerMutation.isPending}
+      >
+        <X className="w-3 h-3 mr-1" />
+        Dismiss
+      </Button>
+    </div>
+  );
+};
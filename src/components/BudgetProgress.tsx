@@ -0,0 +1,38 @@
+import { getBudgetLevel } from "@/lib/calculations";
+import { cn } from "@/lib/utils";
+
+interface BudgetProgressProps {
+  spent: number;
+  limit: number;
+  size?: "default" | "sm";
+}
+
+export const BudgetProgress = ({ spent, limit, size = "default" }: BudgetProgressProps) => {
+  // A non-positive limit means rollover already used the whole budget up.
+  const exhausted = limit <= 0;
+  const percentage = exhausted ? Infinity : (spent / limit) * 100;
+  const level = getBudgetLevel(percentage);
+
+  return (
+    <div>
+      <div className={cn("w-full bg-secondary rounded-full overflow-hidden", size === "sm" ? "h-2" : "h-3")}>
+        <div
+          className={cn(
+            "h-full rounded-full transition-all",
+            level === "over" ? "bg-destructive" : level === "warning" ? "bg-warning" : "bg-success"
+          )}
+          style={{ width: `${Math.min(percentage, 100)}%` }}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        {exhausted
+          ? "No budget left after last month's overspending"
+          : level === "over"
+          ? `You've exceeded your budget by ${(percentage - 100).toFixed(1)}%`
+          : level === "warning"
+          ? `Warning: You've used ${percentage.toFixed(1)}% of your budget`
+          : `${(100 - percentage).toFixed(1)}% remaining`}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Layers } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository } from "@/lib/repository";
+import { defaultCategories, getParentCategory } from "@/lib/categories";
+import { Category } from "@/lib/types";
+import { cn } from "@/lib/utils";
+import { useCategories } from "@/hooks/use-categories";
+import { CategoryIcon } from "./CategoryIcon";
+
+interface CategoryBudgetEditorProps {
+  month: string; // Format: YYYY-MM
+}
+
+export const CategoryBudgetEditor = ({ month }: CategoryBudgetEditorProps) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Partial<Record<Category, string>>>({});
+
+  const { data } = useQuery({
+    queryKey: ["categoryBudgets", user?.id, month],
+    queryFn: () => repository.getCategoryBudgets(user!.id, month),
+    enabled: !!user?.id,
+  });
+
+  const categoryBudgets = data ?? [];
+  const { data: allCategories = defaultCategories } = useCategories();
+  // Archived categories only show up while they still have a limit to clear.
+  const categories = allCategories.filter(
+    (cat) => !cat.archived || categoryBudgets.some((budget) => budget.category === cat.id)
+  );
+
+  useEffect(() => {
+    setDrafts(Object.fromEntries((data ?? []).map((budget) => [budget.category, budget.amount.toString()])));
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (changes: { category: Category; amount: number | null }[]) => {
+      for (const change of changes) {
+        if (change.amount === null) {
+          await repository.deleteCategoryBudget(user!.id, month, change.category);
+        } else {
+          await repository.saveCategoryBudget(user!.id, { month, category: change.category, amount: change.amount });
+        }
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["categoryBudgets"] });
+      toast.success("Category budgets saved!");
+    },
+    onError: () => {
+      toast.error("Could not save category budgets");
+    },
+  });
+
+  const handleSave = () => {
+    const changes: { category: Category; amount: number | null }[] = [];
+
+    for (const cat of categories) {
+      const draft = drafts[cat.id]?.trim() ?? "";
+      const saved = categoryBudgets.find((budget) => budget.category === cat.id);
+
+      if (!draft) {
+        if (saved) changes.push({ category: cat.id, amount: null });
+        continue;
+      }
+
+      const amount = parseFloat(draft);
+      if (isNaN(amount) || amount <= 0) {
+        toast.error(`Please enter a valid budget for ${cat.name}`);
+        return;
+      }
+      if (saved?.amount !== amount) changes.push({ category: cat.id, amount });
+    }
+
+    if (changes.length === 0) {
+      toast.info("No changes to save");
+      return;
+    }
+
+    saveMutation.mutate(changes);
+  };
+
+  return (
+    <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
+      <div className="flex items-center gap-2 mb-2">
+        <Layers className="w-5 h-5 text-primary" />
+        <h2 className="text-xl font-bold text-foreground">Category Budgets</h2>
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">Leave a category empty for no limit.</p>
+
+      <div className="space-y-3">
+        {categories.map((cat) => (
+          <div key={cat.id} className={cn("flex items-center gap-3", getParentCategory(cat.id, allCategories) && "pl-6")}>
+            <CategoryIcon category={cat} size="sm" />
+            <span className="flex-1 text-sm font-medium text-foreground">{cat.name}</span>
+            <Input
+              type="number"
+              placeholder="No limit"
+              value={drafts[cat.id] ?? ""}
+              onChange={(e) => setDrafts({ ...drafts, [cat.id]: e.target.value })}
+              className="rounded-xl w-32"
+            />
+          </div>
+        ))}
+      </div>
+
+      <Button onClick={handleSave} className="w-full rounded-xl mt-4" disabled={saveMutation.isPending}>
+        {saveMutation.isPending ? "Saving..." : "Save Category Budgets"}
+      </Button>
+    </div>
+  );
+};
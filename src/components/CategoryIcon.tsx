@@ -0,0 +1,27 @@
+import { getCategoryIcon } from "@/lib/categories";
+import { CategoryDefinition } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface CategoryIconProps {
+  category: CategoryDefinition;
+  size?: "sm" | "md";
+  className?: string;
+}
+
+// The category's icon on a tile tinted with its colour.
+export const CategoryIcon = ({ category, size = "md", className }: CategoryIconProps) => {
+  const Icon = getCategoryIcon(category.icon);
+
+  return (
+    <div
+      className={cn(
+        "flex items-center justify-center shrink-0",
+        size === "md" ? "w-12 h-12 rounded-xl" : "w-9 h-9 rounded-lg",
+        className
+      )}
+      style={{ backgroundColor: `${category.color}33` }}
+    >
+      <Icon className={size === "md" ? "w-6 h-6" : "w-4 h-4"} style={{ color: category.color }} />
+    </div>
+  );
+};
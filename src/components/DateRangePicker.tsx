@@ -0,0 +1,56 @@
+import { DateRange, RangePreset, RangeSelection, formatRange, rangePresets } from "@/lib/dateRanges";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "./ui/select";
+import { Input } from "./ui/input";
+import { cn } from "@/lib/utils";
+
+interface DateRangePickerProps {
+  value: RangeSelection;
+  onChange: (value: RangeSelection) => void;
+  // The resolved range and what it is compared with, shown under the picker.
+  range: DateRange;
+  previous: DateRange;
+  className?: string;
+}
+
+export const DateRangePicker = ({ value, onChange, range, previous, className }: DateRangePickerProps) => (
+  <div className={cn("space-y-2", className)}>
+    <div className="flex flex-wrap gap-2">
+      <Select
+        value={value.preset}
+        onValueChange={(preset) => onChange({ ...value, preset: preset as RangePreset })}
+      >
+        <SelectTrigger className="rounded-xl w-44" aria-label="Date range">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {rangePresets.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {value.preset === "custom" && (
+        <>
+          <Input
+            type="date"
+            aria-label="From"
+            value={value.custom.from}
+            onChange={(e) => e.target.value && onChange({ ...value, custom: { ...value.custom, from: e.target.value } })}
+            className="rounded-xl w-40"
+          />
+          <Input
+            type="date"
+            aria-label="To"
+            value={value.custom.to}
+            onChange={(e) => e.target.value && onChange({ ...value, custom: { ...value.custom, to: e.target.value } })}
+            className="rounded-xl w-40"
+          />
+        </>
+      )}
+    </div>
+    <p className="text-xs text-muted-foreground">
+      {formatRange(range)}, compared with {formatRange(previous)}
+    </p>
+  </div>
+);
@@ -1,53 +1,154 @@
+import { useState } from "react";
 import { Expense } from "@/lib/types";
-import { getCategoryInfo } from "@/lib/categories";
+import { defaultCategories, getCategoryInfo, getCategoryLabel } from "@/lib/categories";
 import { format, parseISO } from "date-fns";
-import { Trash2, Edit } from "lucide-react";
+import { Trash2, Edit, CloudOff, AlertCircle, AlertTriangle, ChevronDown, Split } from "lucide-react";
 import { Button } from "./ui/button";
+import { formatMoney } from "@/lib/currency";
+import { useHomeCurrency } from "@/hooks/use-currency";
+import { useCategories } from "@/hooks/use-categories";
+import { useReceipts } from "@/hooks/use-receipts";
+import { useMerchants } from "@/hooks/use-merchants";
+import { getExpenseMerchant } from "@/lib/merchants";
+import { isSplit } from "@/lib/splits";
+import { Anomaly, anomalyLabels, describeAnomaly } from "@/lib/anomalies";
 import { cn } from "@/lib/utils";
+import { CategoryIcon } from "./CategoryIcon";
+import { ReceiptThumbnail } from "./ReceiptThumbnail";
+import { AnomalyActions } from "./AnomalyActions";
 
 interface ExpenseCardProps {
   expense: Expense;
   onDelete?: (id: string) => void;
   onEdit?: (expense: Expense) => void;
+  // Current flag on the expense, from useAnomalies.
+  anomaly?: Anomaly;
 }
 
-export const ExpenseCard = ({ expense, onDelete, onEdit }: ExpenseCardProps) => {
-  const categoryInfo = getCategoryInfo(expense.category);
-  const Icon = categoryInfo.icon;
+export const ExpenseCard = ({ expense, onDelete, onEdit, anomaly }: ExpenseCardProps) => {
+  const { data: categories = defaultCategories } = useCategories();
+  const categoryInfo = getCategoryInfo(expense.category, categories);
+  const homeCurrency = useHomeCurrency();
+  const isForeign = expense.currency !== homeCurrency;
+  const { data: merchants = [] } = useMerchants();
+  const merchant = getExpenseMerchant(expense, merchants);
+  const { data: allReceipts = [] } = useReceipts();
+  const receipts = allReceipts.filter((receipt) => receipt.expenseId === expense.id);
+  const [showSplits, setShowSplits] = useState(false);
+  const [showAnomaly, setShowAnomaly] = useState(false);
 
   return (
     <div className="bg-card rounded-2xl p-4 shadow-md hover:shadow-lg transition-shadow border border-border">
       <div className="flex items-start justify-between">
         <div className="flex items-start gap-3 flex-1">
-          <div className={cn(
-            "w-12 h-12 rounded-xl flex items-center justify-center shrink-0",
-            `bg-category-${expense.category}/20`
-          )}>
-            <Icon className={cn("w-6 h-6", `text-category-${expense.category}`)} />
-          </div>
+          <CategoryIcon category={categoryInfo} />
           
           <div className="flex-1 min-w-0">
             <div className="flex items-start justify-between gap-2 mb-1">
               <h3 className="font-semibold text-foreground truncate">
                 {expense.description}
               </h3>
-              <span className="font-bold text-lg text-foreground whitespace-nowrap">
-                ₹{expense.amount.toLocaleString()}
-              </span>
+              <div className="text-right">
+                <span className="font-bold text-lg text-foreground whitespace-nowrap">
+                  {formatMoney(expense.amount, expense.currency)}
+                </span>
+                {isForeign && (
+                  <p className="text-xs text-muted-foreground whitespace-nowrap">
+                    {expense.convertedAmount !== undefined
+                      ? `≈ ${formatMoney(expense.convertedAmount, homeCurrency)}`
+                      : `No ${expense.currency}→${homeCurrency} rate`}
+                  </p>
+                )}
+              </div>
             </div>
             
             <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
-              <span className="capitalize">{categoryInfo.label}</span>
+              <span>{getCategoryLabel(expense.category, categories)}</span>
               <span>•</span>
+              {merchant && (
+                <>
+                  <span className="truncate">{merchant.name}</span>
+                  <span>•</span>
+                </>
+              )}
               <span>{format(parseISO(expense.date), "MMM dd, yyyy")}</span>
               <span>•</span>
               <span className="capitalize">{expense.paymentMethod}</span>
             </div>
             
-            {expense.tag && (
-              <span className="inline-block px-2 py-1 rounded-lg bg-secondary text-secondary-foreground text-xs">
-                {expense.tag}
-              </span>
+            <div className="flex flex-wrap items-center gap-2">
+              {anomaly && (
+                <button
+                  type="button"
+                  onClick={() => setShowAnomaly(!showAnomaly)}
+                  aria-expanded={showAnomaly}
+                  className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-warning/20 text-foreground text-xs"
+                >
+                  <AlertTriangle className="w-3 h-3" />
+                  {anomalyLabels[anomaly.kind]}
+                  <ChevronDown className={cn("w-3 h-3 transition-transform", showAnomaly && "rotate-180")} />
+                </button>
+              )}
+              {isSplit(expense) && (
+                <button
+                  type="button"
+                  onClick={() => setShowSplits(!showSplits)}
+                  aria-expanded={showSplits}
+                  className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-primary/10 text-primary text-xs"
+                >
+                  <Split className="w-3 h-3" />
+                  Split {expense.splits!.length} ways
+                  <ChevronDown className={cn("w-3 h-3 transition-transform", showSplits && "rotate-180")} />
+                </button>
+              )}
+              {expense.tags?.map((tag) => (
+                <span key={tag} className="inline-block px-2 py-1 rounded-lg bg-secondary text-secondary-foreground text-xs">
+                  {tag}
+                </span>
+              ))}
+              {expense.syncStatus === "pending" && (
+                <span className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-warning/20 text-foreground text-xs">
+                  <CloudOff className="w-3 h-3" />
+                  Waiting to sync
+                </span>
+              )}
+              {expense.syncStatus === "failed" && (
+                <span className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-destructive/10 text-destructive text-xs">
+                  <AlertCircle className="w-3 h-3" />
+                  Sync failed
+                </span>
+              )}
+            </div>
+
+            {showAnomaly && anomaly && (
+              <div className="mt-3 space-y-2">
+                <p className="text-sm text-muted-foreground">{describeAnomaly(anomaly, homeCurrency)}</p>
+                <AnomalyActions anomaly={anomaly} />
+              </div>
+            )}
+
+            {showSplits && isSplit(expense) && (
+              <ul className="mt-3 space-y-1 text-sm">
+                {expense.splits!.map((split, index) => (
+                  <li key={index} className="flex items-center justify-between gap-2">
+                    <span className="truncate text-muted-foreground">
+                      {getCategoryLabel(split.category, categories)}
+                      {split.note && ` · ${split.note}`}
+                    </span>
+                    <span className="font-medium text-foreground whitespace-nowrap">
+                      {formatMoney(split.amount, expense.currency)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {receipts.length > 0 && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                {receipts.map((receipt) => (
+                  <ReceiptThumbnail key={receipt.id} receipt={receipt} className="w-12 h-12" />
+                ))}
+              </div>
             )}
           </div>
         </div>
@@ -0,0 +1,128 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "./ui/button";
+import { Checkbox } from "./ui/checkbox";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "./ui/dialog";
+import { useHomeCurrency } from "@/hooks/use-currency";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useCategories } from "@/hooks/use-categories";
+import { defaultCategories } from "@/lib/categories";
+import { buildExport, defaultExportColumns, downloadBlob, exportColumns, ExportFormat } from "@/lib/export";
+import { Expense } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+const formats: { value: ExportFormat; label: string }[] = [
+  { value: "csv", label: "CSV" },
+  { value: "xlsx", label: "Excel" },
+  { value: "json", label: "JSON" },
+];
+
+interface ExportDialogProps {
+  expenses: Expense[]; // Already filtered and sorted by the caller
+}
+
+export const ExportDialog = ({ expenses }: ExportDialogProps) => {
+  const homeCurrency = useHomeCurrency();
+  const { data: accounts = [] } = useAccounts();
+  const { data: categories = defaultCategories } = useCategories();
+  const [open, setOpen] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>("csv");
+  const [columns, setColumns] = useState<string[]>(defaultExportColumns);
+  const [includeSummary, setIncludeSummary] = useState(false);
+
+  const toggleColumn = (key: string, checked: boolean) => {
+    // Keep the order of exportColumns regardless of click order.
+    setColumns(
+      exportColumns
+        .map((column) => column.key)
+        .filter((columnKey) => (columnKey === key ? checked : columns.includes(columnKey)))
+    );
+  };
+
+  const handleExport = () => {
+    const { blob, filename } = buildExport(
+      expenses,
+      { format: exportFormat, columns, includeSummary },
+      { homeCurrency, accounts, categories }
+    );
+    downloadBlob(blob, filename);
+    toast.success(`Exported ${expenses.length} ${expenses.length === 1 ? "expense" : "expenses"}`);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="rounded-xl" disabled={expenses.length === 0}>
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Export expenses</DialogTitle>
+          <DialogDescription>
+            Downloads the {expenses.length} {expenses.length === 1 ? "expense" : "expenses"} matching the current
+            filters, in the current order.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-5">
+          <div className="space-y-2">
+            <Label>Format</Label>
+            <div className="grid grid-cols-3 gap-2">
+              {formats.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setExportFormat(option.value)}
+                  className={cn(
+                    "rounded-xl border-2 py-2 text-sm font-medium transition-all",
+                    exportFormat === option.value
+                      ? "border-primary bg-primary/10"
+                      : "border-border bg-card hover:border-primary/50"
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Columns</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {exportColumns.map((column) => (
+                <label key={column.key} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={columns.includes(column.key)}
+                    onCheckedChange={(checked) => toggleColumn(column.key, checked === true)}
+                  />
+                  {column.key === "homeAmount" ? `Amount (${homeCurrency})` : column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <Label htmlFor="export-summary">Category totals</Label>
+              <p className="text-xs text-muted-foreground">
+                {exportFormat === "xlsx" ? "Adds a summary sheet" : "Adds a summary section"} in {homeCurrency}
+              </p>
+            </div>
+            <Switch id="export-summary" checked={includeSummary} onCheckedChange={setIncludeSummary} />
+          </div>
+
+          <Button className="w-full rounded-xl" onClick={handleExport} disabled={columns.length === 0}>
+            <Download className="w-4 h-4 mr-2" />
+            Download
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,89 @@
+import { useEffect, useState } from "react";
+import { FileText, Loader2, X } from "lucide-react";
+import { useReceiptFile } from "@/hooks/use-receipts";
+import { Receipt } from "@/lib/types";
+import { formatFileSize, isImageReceipt } from "@/lib/receipts";
+import { cn } from "@/lib/utils";
+
+interface FileThumbnailProps {
+  file?: Blob; // Undefined while it is still loading
+  fileName: string;
+  mimeType: string;
+  size: number;
+  onRemove?: () => void;
+  className?: string;
+}
+
+// An object URL for `file`, released again when the file changes or the component unmounts.
+const useObjectUrl = (file?: Blob) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [file]);
+
+  return url;
+};
+
+/** A small square preview of an image or PDF; clicking it opens the file in a new tab. */
+export const FileThumbnail = ({ file, fileName, mimeType, size, onRemove, className }: FileThumbnailProps) => {
+  const url = useObjectUrl(file);
+  const title = `${fileName} (${formatFileSize(size)})`;
+
+  return (
+    <div className={cn("relative w-14 h-14 shrink-0", className)}>
+      <a
+        href={url ?? undefined}
+        target="_blank"
+        rel="noreferrer"
+        title={title}
+        className="flex items-center justify-center w-full h-full rounded-lg border border-border bg-muted overflow-hidden"
+      >
+        {!url ? (
+          <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+        ) : isImageReceipt({ mimeType }) ? (
+          <img src={url} alt={fileName} className="w-full h-full object-cover" />
+        ) : (
+          <FileText className="w-6 h-6 text-muted-foreground" />
+        )}
+      </a>
+      {onRemove && (
+        <button
+          type="button"
+          title={`Remove ${fileName}`}
+          onClick={onRemove}
+          className="absolute -top-1.5 -right-1.5 rounded-full bg-background border border-border p-0.5 text-muted-foreground hover:text-destructive"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  );
+};
+
+interface ReceiptThumbnailProps {
+  receipt: Receipt;
+  onRemove?: () => void;
+  className?: string;
+}
+
+export const ReceiptThumbnail = ({ receipt, onRemove, className }: ReceiptThumbnailProps) => {
+  const { data: file } = useReceiptFile(receipt);
+
+  return (
+    <FileThumbnail
+      file={file}
+      fileName={receipt.fileName}
+      mimeType={receipt.mimeType}
+      size={receipt.size}
+      onRemove={onRemove}
+      className={className}
+    />
+  );
+};
@@ -0,0 +1,108 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Input } from "./ui/input";
+import { hasTag, normalizeTag, parseTagList, uniqueTags } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+
+const MAX_SUGGESTIONS = 6;
+
+interface TagInputProps {
+  id?: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+  suggestions: string[]; // Existing tags, most used first
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * Chips plus a text box: Enter or a comma adds what was typed, Backspace on
+ * an empty box removes the last chip. A typed tag that matches an existing
+ * one (ignoring case and spacing) takes the existing spelling.
+ */
+export const TagInput = ({ id, value, onChange, suggestions, placeholder, className }: TagInputProps) => {
+  const [draft, setDraft] = useState("");
+  const [focused, setFocused] = useState(false);
+
+  const matches = suggestions
+    .filter((tag) => !hasTag(value, tag) && normalizeTag(tag).includes(normalizeTag(draft)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const add = (names: string[]) => {
+    const spelled = names.map((name) => suggestions.find((tag) => normalizeTag(tag) === normalizeTag(name)) ?? name);
+    onChange(uniqueTags([...value, ...spelled]));
+    setDraft("");
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      add(parseTagList(draft));
+    } else if (e.key === "Backspace" && draft === "" && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div className="relative">
+      <div
+        className={cn(
+          "flex flex-wrap items-center gap-2 rounded-xl border border-input bg-background px-3 py-2 min-h-12",
+          focused && "ring-2 ring-ring ring-offset-2 ring-offset-background",
+          className
+        )}
+      >
+        {value.map((tag) => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 px-2 py-1 rounded-lg bg-secondary text-secondary-foreground text-xs"
+          >
+            {tag}
+            <button
+              type="button"
+              title={`Remove ${tag}`}
+              onClick={() => onChange(value.filter((other) => other !== tag))}
+              className="text-muted-foreground hover:text-foreground"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <Input
+          id={id}
+          type="text"
+          placeholder={value.length === 0 ? placeholder : undefined}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            // Keep what was typed when the user moves on without pressing Enter.
+            add(parseTagList(draft));
+          }}
+          className="flex-1 min-w-24 h-8 border-0 p-0 text-base shadow-none focus-visible:ring-0 focus-visible:ring-offset-0"
+        />
+      </div>
+
+      {focused && draft.trim() !== "" && matches.length > 0 && (
+        <div className="absolute z-10 mt-1 w-full rounded-xl border border-border bg-popover p-1 shadow-md">
+          {matches.map((tag) => (
+            <button
+              key={tag}
+              type="button"
+              // Fires before the input's blur, so the click isn't lost.
+              onMouseDown={(e) => {
+                e.preventDefault();
+                add([tag]);
+              }}
+              className="w-full rounded-lg px-3 py-2 text-left text-sm hover:bg-muted"
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
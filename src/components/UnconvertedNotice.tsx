@@ -0,0 +1,26 @@
+import { AlertCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface UnconvertedNoticeProps {
+  // Rows the totals nearby leave out because no rate into `currency` is known.
+  count: number;
+  currency: string;
+  noun?: [singular: string, plural: string];
+  className?: string;
+}
+
+export const UnconvertedNotice = ({
+  count,
+  currency,
+  noun = ["expense", "expenses"],
+  className,
+}: UnconvertedNoticeProps) =>
+  count > 0 ? (
+    <p className={cn("flex items-start gap-1.5 text-xs text-muted-foreground", className)}>
+      <AlertCircle className="w-3.5 h-3.5 mt-px shrink-0" />
+      <span>
+        {count} {count === 1 ? noun[0] : noun[1]} not converted to {currency} and left out of these totals. Add the
+        missing rates under Currencies.
+      </span>
+    </p>
+  ) : null;
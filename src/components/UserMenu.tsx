@@ -8,30 +8,17 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { LogOut, User } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
+import { LogOut, User, Repeat, Coins, Banknote, Wallet, Upload, ArchiveRestore, Shapes, Tags, Wand2, Store, CalendarDays } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useProfile } from "@/hooks/use-profile";
 
 export function UserMenu() {
-  const { user, signOut } = useAuth();
+  const { user, signOut, authEnabled } = useAuth();
+  const navigate = useNavigate();
 
-  const { data: profile } = useQuery({
-    queryKey: ["profile", user?.id],
-    queryFn: async () => {
-      if (!user?.id) return null;
-      const { data, error } = await supabase
-        .from("profiles")
-        .select("*")
-        .eq("id", user.id)
-        .single();
-      
-      if (error) throw error;
-      return data;
-    },
-    enabled: !!user?.id,
-  });
+  const { data: profile } = useProfile();
 
-  const displayName = profile?.display_name || user?.email?.split("@")[0] || "User";
+  const displayName = profile?.displayName || user?.email?.split("@")[0] || (authEnabled ? "User" : "Local user");
   const initials = displayName
     .split(" ")
     .map((n) => n[0])
@@ -44,7 +31,7 @@ export function UserMenu() {
       <DropdownMenuTrigger asChild>
         <button className="flex items-center gap-2 focus:outline-none">
           <Avatar className="h-10 w-10 border-2 border-primary/20">
-            <AvatarImage src={profile?.avatar_url} alt={displayName} />
+            <AvatarImage src={profile?.avatarUrl ?? undefined} alt={displayName} />
             <AvatarFallback className="bg-primary/10 text-primary font-semibold">
               {initials}
             </AvatarFallback>
@@ -56,7 +43,7 @@ export function UserMenu() {
           <div className="flex flex-col space-y-1">
             <p className="text-sm font-medium leading-none">{displayName}</p>
             <p className="text-xs leading-none text-muted-foreground">
-              {user?.email}
+              {authEnabled ? user?.email : "Data stays on this device"}
             </p>
           </div>
         </DropdownMenuLabel>
@@ -65,10 +52,56 @@ export function UserMenu() {
           <User className="mr-2 h-4 w-4" />
           <span>Profile</span>
         </DropdownMenuItem>
-        <DropdownMenuItem onClick={signOut} className="text-destructive">
-          <LogOut className="mr-2 h-4 w-4" />
-          <span>Sign out</span>
+        <DropdownMenuItem onClick={() => navigate("/accounts")}>
+          <Wallet className="mr-2 h-4 w-4" />
+          <span>Accounts</span>
         </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate("/income")}>
+          <Banknote className="mr-2 h-4 w-4" />
+          <span>Income</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate("/years")}>
+          <CalendarDays className="mr-2 h-4 w-4" />
+          <span>Annual summary</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate("/categories")}>
+          <Shapes className="mr-2 h-4 w-4" />
+          <span>Categories</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate("/tags")}>
+          <Tags className="mr-2 h-4 w-4" />
+          <span>Tags</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate("/rules")}>
+          <Wand2 className="mr-2 h-4 w-4" />
+          <span>Rules</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate("/merchants")}>
+          <Store className="mr-2 h-4 w-4" />
+          <span>Merchants</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate("/recurring")}>
+          <Repeat className="mr-2 h-4 w-4" />
+          <span>Recurring expenses</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate("/import")}>
+          <Upload className="mr-2 h-4 w-4" />
+          <span>Import CSV</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate("/currencies")}>
+          <Coins className="mr-2 h-4 w-4" />
+          <span>Currencies</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => navigate("/backup")}>
+          <ArchiveRestore className="mr-2 h-4 w-4" />
+          <span>Backup &amp; restore</span>
+        </DropdownMenuItem>
+        {authEnabled && (
+          <DropdownMenuItem onClick={signOut} className="text-destructive">
+            <LogOut className="mr-2 h-4 w-4" />
+            <span>Sign out</span>
+          </DropdownMenuItem>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   );
@@ -1,13 +1,19 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from "react";
 import { User, Session } from "@supabase/supabase-js";
-import { supabase } from "@/integrations/supabase/client";
+import { getSupabaseClient } from "@/lib/repository/supabase";
+import { LOCAL_USER_ID, storageBackend } from "@/lib/repository";
 import { useNavigate } from "react-router-dom";
 import { toast } from "sonner";
 
+// Only the fields the app reads, so local-only sessions need no Supabase user.
+export type AuthUser = Pick<User, "id" | "email">;
+
 interface AuthContextType {
-  user: User | null;
+  user: AuthUser | null;
   session: Session | null;
   loading: boolean;
+  // True when accounts exist at all; false for the local-only and in-memory backends.
+  authEnabled: boolean;
   signUp: (email: string, password: string, displayName?: string) => Promise<{ error: any }>;
   signIn: (email: string, password: string) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
@@ -15,35 +21,57 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const authEnabled = storageBackend === "supabase";
+
+const localUser: AuthUser = { id: LOCAL_USER_ID, email: undefined };
+
+const authUnavailable = { error: new Error("Accounts are not available in local-only mode") };
+
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(authEnabled ? null : localUser);
   const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(authEnabled);
   const navigate = useNavigate();
 
   useEffect(() => {
-    // Set up auth state listener FIRST
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
+    if (!authEnabled) return;
+
+    let unsubscribe = () => {};
+    let cancelled = false;
+
+    getSupabaseClient().then((supabase) => {
+      if (cancelled) return;
+
+      // Set up auth state listener FIRST
+      const { data: { subscription } } = supabase.auth.onAuthStateChange(
+        (event, session) => {
+          setSession(session);
+          setUser(session?.user ?? null);
+          setLoading(false);
+        }
+      );
+      unsubscribe = () => subscription.unsubscribe();
+
+      // THEN check for existing session
+      supabase.auth.getSession().then(({ data: { session } }) => {
         setSession(session);
         setUser(session?.user ?? null);
         setLoading(false);
-      }
-    );
-
-    // THEN check for existing session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setUser(session?.user ?? null);
-      setLoading(false);
+      });
     });
 
-    return () => subscription.unsubscribe();
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
   }, []);
 
   const signUp = async (email: string, password: string, displayName?: string) => {
+    if (!authEnabled) return authUnavailable;
+
+    const supabase = await getSupabaseClient();
     const redirectUrl = `${window.location.origin}/`;
-    
+
     const { error } = await supabase.auth.signUp({
       email,
       password,
@@ -61,6 +89,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signIn = async (email: string, password: string) => {
+    if (!authEnabled) return authUnavailable;
+
+    const supabase = await getSupabaseClient();
     const { error } = await supabase.auth.signInWithPassword({
       email,
       password,
@@ -75,13 +106,16 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signOut = async () => {
+    if (!authEnabled) return;
+
+    const supabase = await getSupabaseClient();
     await supabase.auth.signOut();
     toast.success("Signed out successfully");
     navigate("/auth");
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, loading, signUp, signIn, signOut }}>
+    <AuthContext.Provider value={{ user, session, loading, authEnabled, signUp, signIn, signOut }}>
       {children}
     </AuthContext.Provider>
   );
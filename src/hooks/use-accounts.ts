@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository } from "@/lib/repository";
+
+export function useAccounts() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["accounts", user?.id],
+    queryFn: () => repository.getAccounts(user!.id),
+    enabled: !!user?.id,
+  });
+}
+
+export function useTransfers() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["transfers", user?.id],
+    queryFn: () => repository.getTransfers(user!.id),
+    enabled: !!user?.id,
+  });
+}
@@ -0,0 +1,54 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository } from "@/lib/repository";
+import { Anomaly, detectAnomalies } from "@/lib/anomalies";
+import { defaultCategories } from "@/lib/categories";
+import { AnomalyVerdict } from "@/lib/types";
+import { useExpenses } from "./use-expenses";
+import { useMerchants } from "./use-merchants";
+import { useCategories } from "./use-categories";
+
+export function useAnomalyFeedback() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["anomalyFeedback", user?.id],
+    queryFn: () => repository.getAnomalyFeedback(user!.id),
+    enabled: !!user?.id,
+  });
+}
+
+// The user's current flags, newest first.
+export function useAnomalies(): Anomaly[] {
+  const { data: expenses = [] } = useExpenses();
+  const { data: merchants = [] } = useMerchants();
+  const { data: categories = defaultCategories } = useCategories();
+  const { data: feedback = [] } = useAnomalyFeedback();
+
+  return useMemo(
+    () => detectAnomalies(expenses, merchants, feedback, { categories }),
+    [expenses, merchants, feedback, categories]
+  );
+}
+
+// Records a dismissal or "expected" for a flag, which hides it and teaches the detector.
+export function useAnswerAnomaly() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ anomaly, verdict }: { anomaly: Anomaly; verdict: AnomalyVerdict }) =>
+      repository.saveAnomalyFeedback(user!.id, {
+        id: crypto.randomUUID(),
+        expenseId: anomaly.expenseId,
+        kind: anomaly.kind,
+        key: anomaly.key,
+        verdict,
+        createdAt: new Date().toISOString(),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["anomalyFeedback"] });
+    },
+  });
+}
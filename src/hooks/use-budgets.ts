@@ -0,0 +1,63 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository, RolloverMode } from "@/lib/repository";
+import { BudgetBreakdown, getCategoryRolloverBudgets, getRolloverBreakdown } from "@/lib/calculations";
+import { defaultCategories } from "@/lib/categories";
+import { CategoryBudget } from "@/lib/types";
+import { useCategories } from "./use-categories";
+import { useExpenses } from "./use-expenses";
+import { useProfile } from "./use-profile";
+
+export interface BudgetSummary {
+  // Null when no overall budget is set for the month.
+  overall: BudgetBreakdown | null;
+  // Category limits with rollover already applied to `amount`.
+  categories: (CategoryBudget & { breakdown: BudgetBreakdown })[];
+  rolloverMode: RolloverMode;
+}
+
+/**
+ * Budgets for `month` (YYYY-MM, keyed like getPeriodKey) as they apply to
+ * spending, honouring the user's rollover mode and period start day.
+ */
+export function useBudgetSummary(month: string): BudgetSummary {
+  const { user } = useAuth();
+  const { data: expenses = [] } = useExpenses();
+  const { data: profile } = useProfile();
+  const { data: allCategories = defaultCategories } = useCategories();
+  const rolloverMode = profile?.budgetRollover ?? "off";
+  const periodStartDay = profile?.periodStartDay ?? 1;
+
+  const { data: budgets = [] } = useQuery({
+    queryKey: ["budget", user?.id],
+    queryFn: () => repository.getBudgets(user!.id),
+    enabled: !!user?.id,
+  });
+
+  const { data: categoryBudgets = [] } = useQuery({
+    queryKey: ["categoryBudgets", user?.id],
+    queryFn: () => repository.getCategoryBudgets(user!.id),
+    enabled: !!user?.id,
+  });
+
+  const baseByMonth = Object.fromEntries(budgets.map((budget) => [budget.month, budget.amount]));
+  const hasOverall = baseByMonth[month] !== undefined;
+
+  const overall = !hasOverall
+    ? null
+    : rolloverMode === "overall"
+    ? getRolloverBreakdown(expenses, baseByMonth, month, periodStartDay)
+    : { base: baseByMonth[month], carryOver: 0, effective: baseByMonth[month] };
+
+  const categories =
+    rolloverMode === "category"
+      ? getCategoryRolloverBudgets(expenses, categoryBudgets, month, allCategories, periodStartDay)
+      : categoryBudgets
+          .filter((budget) => budget.month === month)
+          .map((budget) => ({
+            ...budget,
+            breakdown: { base: budget.amount, carryOver: 0, effective: budget.amount },
+          }));
+
+  return { overall, categories, rolloverMode };
+}
@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository } from "@/lib/repository";
+import { defaultCategories, mergeCategories } from "@/lib/categories";
+import { CategoryDefinition } from "@/lib/types";
+
+export const categoriesQueryKey = (userId?: string) => ["categories", userId ?? "anon"];
+
+// The user's full category list (built-ins included, archived ones too), in display order.
+export function useCategories() {
+  const { user } = useAuth();
+
+  return useQuery<CategoryDefinition[], Error, CategoryDefinition[]>({
+    queryKey: categoriesQueryKey(user?.id),
+    queryFn: () => repository.getCategories(user!.id),
+    enabled: !!user?.id,
+    select: mergeCategories,
+    placeholderData: defaultCategories,
+  });
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository } from "@/lib/repository";
+
+// The user's auto-categorisation rules, in priority order.
+export function useCategoryRules() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["categoryRules", user?.id],
+    queryFn: () => repository.getCategoryRules(user!.id),
+    enabled: !!user?.id,
+  });
+}
@@ -0,0 +1,23 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository } from "@/lib/repository";
+import { DEFAULT_CURRENCY } from "@/lib/currency";
+import { useProfile } from "./use-profile";
+
+export const exchangeRatesQueryKey = (userId?: string) => ["exchangeRates", userId ?? "anon"];
+
+export function useExchangeRates() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: exchangeRatesQueryKey(user?.id),
+    queryFn: () => repository.getExchangeRates(user!.id),
+    enabled: !!user?.id,
+  });
+}
+
+// The profile currency every total is reported in.
+export function useHomeCurrency(): string {
+  const { data: profile } = useProfile();
+  return profile?.currencyPreference ?? DEFAULT_CURRENCY;
+}
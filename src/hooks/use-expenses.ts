@@ -0,0 +1,32 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository } from "@/lib/repository";
+import { convertAmounts } from "@/lib/currency";
+import { Expense } from "@/lib/types";
+import { useExchangeRates, useHomeCurrency } from "./use-currency";
+
+export const expensesQueryKey = (userId?: string) => ["expenses", userId ?? "anon"];
+
+/**
+ * Expenses from the active backend; with Supabase this is the local cache,
+ * refreshed by background sync. Each row carries `convertedAmount` in the
+ * profile's home currency when a rate is known.
+ */
+export function useExpenses() {
+  const { user } = useAuth();
+  const { data: rates } = useExchangeRates();
+  const homeCurrency = useHomeCurrency();
+
+  const convert = useCallback(
+    (expenses: Expense[]) => convertAmounts(expenses, rates ?? [], homeCurrency),
+    [rates, homeCurrency]
+  );
+
+  return useQuery<Expense[]>({
+    queryKey: expensesQueryKey(user?.id),
+    queryFn: () => repository.getExpenses(user!.id),
+    enabled: !!user?.id,
+    select: convert,
+  });
+}
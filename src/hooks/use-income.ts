@@ -0,0 +1,28 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository } from "@/lib/repository";
+import { convertAmounts } from "@/lib/currency";
+import { Income } from "@/lib/types";
+import { useExchangeRates, useHomeCurrency } from "./use-currency";
+
+export const incomeQueryKey = (userId?: string) => ["income", userId ?? "anon"];
+
+// Income entries, converted into the home currency the same way as expenses.
+export function useIncome() {
+  const { user } = useAuth();
+  const { data: rates } = useExchangeRates();
+  const homeCurrency = useHomeCurrency();
+
+  const convert = useCallback(
+    (income: Income[]) => convertAmounts(income, rates ?? [], homeCurrency),
+    [rates, homeCurrency]
+  );
+
+  return useQuery<Income[]>({
+    queryKey: incomeQueryKey(user?.id),
+    queryFn: () => repository.getIncome(user!.id),
+    enabled: !!user?.id,
+    select: convert,
+  });
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository } from "@/lib/repository";
+
+export function useMerchants() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["merchants", user?.id],
+    queryFn: () => repository.getMerchants(user!.id),
+    enabled: !!user?.id,
+  });
+}
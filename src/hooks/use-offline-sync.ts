@@ -0,0 +1,49 @@
+import { useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository } from "@/lib/repository";
+import { subscribeToSync } from "@/lib/syncQueue";
+
+/**
+ * Keeps the IndexedDB cache in step with the remote backend: syncs on sign-in
+ * and whenever the browser comes back online, and refreshes cached queries
+ * after every outbox replay. A no-op for backends without `sync`.
+ */
+export function useOfflineSync() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+  useEffect(() => {
+    return subscribeToSync(() => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["budget"] });
+    });
+  }, [queryClient]);
+
+  useEffect(() => {
+    if (!user?.id || !repository.sync) return;
+    const userId = user.id;
+
+    const runSync = () => {
+      repository.sync?.(userId).catch((error) => console.error("Sync error:", error));
+    };
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      runSync();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    runSync();
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [user?.id]);
+
+  return { isOnline };
+}
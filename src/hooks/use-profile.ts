@@ -0,0 +1,31 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository, ProfileChanges } from "@/lib/repository";
+
+export function useProfile() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["profile", user?.id],
+    queryFn: () => repository.getProfile(user!.id),
+    enabled: !!user?.id,
+  });
+}
+
+// Day of the month the user's budget periods start on.
+export function usePeriodStartDay(): number {
+  const { data: profile } = useProfile();
+  return profile?.periodStartDay ?? 1;
+}
+
+export function useUpdateProfile() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (changes: ProfileChanges) => repository.updateProfile(user!.id, changes),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["profile"] });
+    },
+  });
+}
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository } from "@/lib/repository";
+import { Receipt } from "@/lib/types";
+
+export function useReceipts() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["receipts", user?.id],
+    queryFn: () => repository.getReceipts(user!.id),
+    enabled: !!user?.id,
+  });
+}
+
+// Receipt files never change once uploaded, so a fetched one is kept for the session.
+export function useReceiptFile(receipt: Receipt) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["receiptFile", receipt.id],
+    queryFn: () => repository.getReceiptFile(user!.id, receipt),
+    enabled: !!user?.id,
+    staleTime: Infinity,
+  });
+}
@@ -0,0 +1,50 @@
+import { useEffect } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository } from "@/lib/repository";
+import { materializeRecurringExpenses } from "@/lib/recurring";
+
+export function useRecurringExpenses() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: ["recurring", user?.id],
+    queryFn: () => repository.getRecurringExpenses(user!.id),
+    enabled: !!user?.id,
+  });
+}
+
+/**
+ * Generates due recurring expenses once per session. With a syncing backend
+ * it waits for the first sync so rows the server already has are not created
+ * twice from a cold cache.
+ */
+export function useRecurringMaterializer() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user?.id) return;
+    const userId = user.id;
+    let cancelled = false;
+
+    const run = async () => {
+      if (repository.sync) {
+        const { offline } = await repository.sync(userId);
+        if (offline || cancelled) return;
+      }
+
+      const created = await materializeRecurringExpenses(repository, userId);
+      if (created.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ["expenses"] });
+        queryClient.invalidateQueries({ queryKey: ["recurring"] });
+      }
+    };
+
+    run().catch((error) => console.error("Recurring expenses error:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, queryClient]);
+}
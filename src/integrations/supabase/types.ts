@@ -14,38 +14,402 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounts: {
+        Row: {
+          archived: boolean
+          created_at: string
+          currency: string
+          id: string
+          name: string
+          opening_balance: number
+          type: string
+          user_id: string
+        }
+        Insert: {
+          archived?: boolean
+          created_at?: string
+          currency?: string
+          id?: string
+          name: string
+          opening_balance?: number
+          type: string
+          user_id: string
+        }
+        Update: {
+          archived?: boolean
+          created_at?: string
+          currency?: string
+          id?: string
+          name?: string
+          opening_balance?: number
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      anomaly_feedback: {
+        Row: {
+          created_at: string
+          expense_id: string
+          id: string
+          key: string
+          kind: string
+          user_id: string
+          verdict: string
+        }
+        Insert: {
+          created_at?: string
+          expense_id: string
+          id?: string
+          key: string
+          kind: string
+          user_id: string
+          verdict: string
+        }
+        Update: {
+          created_at?: string
+          expense_id?: string
+          id?: string
+          key?: string
+          kind?: string
+          user_id?: string
+          verdict?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "anomaly_feedback_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      categories: {
+        Row: {
+          archived: boolean
+          color: string
+          created_at: string
+          icon: string
+          id: string
+          name: string
+          parent_id: string | null
+          sort_order: number
+          user_id: string
+        }
+        Insert: {
+          archived?: boolean
+          color: string
+          created_at?: string
+          icon: string
+          id: string
+          name: string
+          parent_id?: string | null
+          sort_order?: number
+          user_id: string
+        }
+        Update: {
+          archived?: boolean
+          color?: string
+          created_at?: string
+          icon?: string
+          id?: string
+          name?: string
+          parent_id?: string | null
+          sort_order?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      category_budgets: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string
+          id: string
+          month: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          category: string
+          created_at?: string
+          id?: string
+          month: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string
+          id?: string
+          month?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      category_rules: {
+        Row: {
+          category: string | null
+          conditions: Json
+          created_at: string
+          enabled: boolean
+          id: string
+          name: string
+          sort_order: number
+          tags: string[]
+          user_id: string
+        }
+        Insert: {
+          category?: string | null
+          conditions?: Json
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          name: string
+          sort_order?: number
+          tags?: string[]
+          user_id: string
+        }
+        Update: {
+          category?: string | null
+          conditions?: Json
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          name?: string
+          sort_order?: number
+          tags?: string[]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      exchange_rates: {
+        Row: {
+          base_currency: string
+          created_at: string
+          date: string
+          id: string
+          quote_currency: string
+          rate: number
+          user_id: string
+        }
+        Insert: {
+          base_currency: string
+          created_at?: string
+          date: string
+          id?: string
+          quote_currency: string
+          rate: number
+          user_id: string
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
+          date?: string
+          id?: string
+          quote_currency?: string
+          rate?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      expense_splits: {
+        Row: {
+          amount: number
+          category: string
+          expense_id: string
+          id: string
+          note: string | null
+          position: number
+        }
+        Insert: {
+          amount: number
+          category: string
+          expense_id: string
+          id?: string
+          note?: string | null
+          position?: number
+        }
+        Update: {
+          amount?: number
+          category?: string
+          expense_id?: string
+          id?: string
+          note?: string | null
+          position?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_splits_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expense_tags: {
+        Row: {
+          expense_id: string
+          tag_id: string
+        }
+        Insert: {
+          expense_id: string
+          tag_id: string
+        }
+        Update: {
+          expense_id?: string
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_tags_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expense_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       expenses: {
         Row: {
+          account_id: string | null
           amount: number
           category: string
           created_at: string
+          currency: string
           date: string
           description: string
           id: string
+          merchant_id: string | null
           payment_method: string
-          tag: string | null
+          recurring_id: string | null
           user_id: string
         }
         Insert: {
+          account_id?: string | null
           amount: number
           category: string
           created_at?: string
+          currency?: string
           date: string
           description: string
           id?: string
+          merchant_id?: string | null
           payment_method: string
-          tag?: string | null
+          recurring_id?: string | null
           user_id: string
         }
         Update: {
+          account_id?: string | null
           amount?: number
           category?: string
           created_at?: string
+          currency?: string
           date?: string
           description?: string
           id?: string
+          merchant_id?: string | null
           payment_method?: string
-          tag?: string | null
+          recurring_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expenses_recurring_id_fkey"
+            columns: ["recurring_id"]
+            isOneToOne: false
+            referencedRelation: "recurring_expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_merchant_id_fkey"
+            columns: ["merchant_id"]
+            isOneToOne: false
+            referencedRelation: "merchants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      income: {
+        Row: {
+          account_id: string | null
+          amount: number
+          created_at: string
+          currency: string
+          date: string
+          description: string
+          id: string
+          source: string
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          created_at?: string
+          currency?: string
+          date: string
+          description: string
+          id?: string
+          source: string
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          created_at?: string
+          currency?: string
+          date?: string
+          description?: string
+          id?: string
+          source?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "income_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      merchants: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          id?: string
+          name?: string
           user_id?: string
         }
         Relationships: []
@@ -77,33 +441,236 @@ export type Database = {
       profiles: {
         Row: {
           avatar_url: string | null
+          budget_rollover: string
           created_at: string
           currency_preference: string | null
           display_name: string | null
           id: string
+          period_start_day: number
         }
         Insert: {
           avatar_url?: string | null
+          budget_rollover?: string
           created_at?: string
           currency_preference?: string | null
           display_name?: string | null
           id: string
+          period_start_day?: number
         }
         Update: {
           avatar_url?: string | null
+          budget_rollover?: string
           created_at?: string
           currency_preference?: string | null
           display_name?: string | null
           id?: string
+          period_start_day?: number
         }
         Relationships: []
       }
+      receipts: {
+        Row: {
+          created_at: string
+          expense_id: string
+          file_name: string
+          id: string
+          mime_type: string
+          size: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expense_id: string
+          file_name: string
+          id?: string
+          mime_type: string
+          size: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expense_id?: string
+          file_name?: string
+          id?: string
+          mime_type?: string
+          size?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "receipts_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      recurring_expenses: {
+        Row: {
+          account_id: string | null
+          amount: number
+          category: string
+          created_at: string
+          currency: string
+          day_of_month: number | null
+          description: string
+          end_date: string | null
+          frequency: string
+          id: string
+          interval_days: number | null
+          last_generated_date: string | null
+          payment_method: string
+          start_date: string
+          tags: string[]
+          user_id: string
+        }
+        Insert: {
+          account_id?: string | null
+          amount: number
+          category: string
+          created_at?: string
+          currency?: string
+          day_of_month?: number | null
+          description: string
+          end_date?: string | null
+          frequency: string
+          id?: string
+          interval_days?: number | null
+          last_generated_date?: string | null
+          payment_method: string
+          start_date: string
+          tags?: string[]
+          user_id: string
+        }
+        Update: {
+          account_id?: string | null
+          amount?: number
+          category?: string
+          created_at?: string
+          currency?: string
+          day_of_month?: number | null
+          description?: string
+          end_date?: string | null
+          frequency?: string
+          id?: string
+          interval_days?: number | null
+          last_generated_date?: string | null
+          payment_method?: string
+          start_date?: string
+          tags?: string[]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "recurring_expenses_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          normalized_name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          normalized_name?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          normalized_name?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      transfers: {
+        Row: {
+          amount: number
+          created_at: string
+          date: string
+          from_account_id: string
+          id: string
+          note: string | null
+          to_account_id: string
+          to_amount: number | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          date: string
+          from_account_id: string
+          id?: string
+          note?: string | null
+          to_account_id: string
+          to_amount?: number | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          date?: string
+          from_account_id?: string
+          id?: string
+          note?: string | null
+          to_account_id?: string
+          to_amount?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transfers_from_account_id_fkey"
+            columns: ["from_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transfers_to_account_id_fkey"
+            columns: ["to_account_id"]
+            isOneToOne: false
+            referencedRelation: "accounts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      delete_tag: {
+        Args: { tag_name: string }
+        Returns: undefined
+      }
+      normalize_tag: {
+        Args: { name: string }
+        Returns: string
+      }
+      rename_tag: {
+        Args: { from_name: string; to_name: string }
+        Returns: undefined
+      }
+      set_expense_tags: {
+        Args: { p_expense_id: string; tag_names: string[] }
+        Returns: undefined
+      }
+      set_expense_splits: {
+        Args: { p_expense_id: string; splits: Json }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
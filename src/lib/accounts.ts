@@ -0,0 +1,121 @@
+import { Account, AccountType, ExchangeRate, Expense, Income, PaymentMethod, Transfer } from "./types";
+import { findRate } from "./currency";
+import { Banknote, Building2, CreditCard, Smartphone, LucideIcon } from "lucide-react";
+
+export const accountTypes: { value: AccountType; label: string; icon: LucideIcon }[] = [
+  { value: "cash", label: "Cash", icon: Banknote },
+  { value: "bank", label: "Bank account", icon: Building2 },
+  { value: "card", label: "Card", icon: CreditCard },
+  { value: "wallet", label: "Wallet", icon: Smartphone },
+];
+
+export const getAccountTypeInfo = (type: AccountType) => {
+  return accountTypes.find(t => t.value === type) || accountTypes[0];
+};
+
+const paymentMethodAccountType: Record<PaymentMethod, AccountType> = {
+  cash: "cash",
+  card: "card",
+  upi: "wallet",
+  bank: "bank",
+};
+
+// Account to preselect for a new expense: the first one matching the payment method, else the first open one.
+export const getDefaultAccount = (accounts: Account[], paymentMethod: PaymentMethod): Account | undefined => {
+  const open = accounts.filter(account => !account.archived);
+  return open.find(account => account.type === paymentMethodAccountType[paymentMethod]) ?? open[0];
+};
+
+export interface LedgerEntry {
+  id: string;
+  date: string;
+  kind: "expense" | "income" | "transfer-in" | "transfer-out";
+  description: string;
+  // Signed change in the account's currency: negative for money out.
+  amount: number;
+  // Balance after this entry, starting from the opening balance.
+  balance: number;
+  // The row as paid, when it is in another currency with no rate into the account's; `amount` is then 0.
+  unconverted?: { amount: number; currency: string };
+}
+
+export interface LedgerSources {
+  expenses: Expense[];
+  income: Income[];
+  transfers: Transfer[];
+  rates: ExchangeRate[];
+}
+
+// A row paid in another currency counts at the stored rate. With no rate it
+// moves the balance by nothing and is marked, rather than counted at face value.
+const inAccountCurrency = (
+  account: Account,
+  row: { amount: number; currency: string; date: string },
+  rates: ExchangeRate[]
+): { amount: number; unconverted?: LedgerEntry["unconverted"] } => {
+  const rate = findRate(rates, row.currency, account.currency, row.date);
+  return rate === null
+    ? { amount: 0, unconverted: { amount: row.amount, currency: row.currency } }
+    : { amount: row.amount * rate };
+};
+
+/**
+ * Every movement on an account, oldest first, with the running balance after
+ * each one. Transfers move money between accounts and never count as
+ * spending or income.
+ */
+export const getAccountLedger = (account: Account, sources: LedgerSources): LedgerEntry[] => {
+  const negate = ({ amount, unconverted }: ReturnType<typeof inAccountCurrency>) => ({
+    amount: unconverted ? 0 : -amount,
+    unconverted: unconverted && { ...unconverted, amount: -unconverted.amount },
+  });
+  const entries: Omit<LedgerEntry, "balance">[] = [
+    ...sources.expenses
+      .filter(expense => expense.accountId === account.id)
+      .map(expense => ({
+        id: expense.id,
+        date: expense.date,
+        kind: "expense" as const,
+        description: expense.description,
+        ...negate(inAccountCurrency(account, expense, sources.rates)),
+      })),
+    ...sources.income
+      .filter(entry => entry.accountId === account.id)
+      .map(entry => ({
+        id: entry.id,
+        date: entry.date,
+        kind: "income" as const,
+        description: entry.description,
+        ...inAccountCurrency(account, entry, sources.rates),
+      })),
+    ...sources.transfers
+      .filter(transfer => transfer.fromAccountId === account.id)
+      .map(transfer => ({
+        id: transfer.id,
+        date: transfer.date,
+        kind: "transfer-out" as const,
+        description: transfer.note || "Transfer out",
+        amount: -transfer.amount,
+      })),
+    ...sources.transfers
+      .filter(transfer => transfer.toAccountId === account.id)
+      .map(transfer => ({
+        id: transfer.id,
+        date: transfer.date,
+        kind: "transfer-in" as const,
+        description: transfer.note || "Transfer in",
+        amount: transfer.toAmount ?? transfer.amount,
+      })),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  let balance = account.openingBalance;
+  return entries.map(entry => {
+    balance += entry.amount;
+    return { ...entry, balance: Math.round(balance * 100) / 100 };
+  });
+};
+
+export const getAccountBalance = (account: Account, sources: LedgerSources): number => {
+  const ledger = getAccountLedger(account, sources);
+  return ledger.length > 0 ? ledger[ledger.length - 1].balance : account.openingBalance;
+};
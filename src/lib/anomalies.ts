@@ -0,0 +1,245 @@
+import { differenceInCalendarDays, format, parseISO, subDays } from "date-fns";
+import { AnomalyFeedback, AnomalyKind, CategoryDefinition, Expense, Merchant } from "./types";
+import { formatMoney, getHomeAmount } from "./currency";
+import { getCategoryLabel } from "./categories";
+import { getExpenseMerchant, normalizeMerchantText } from "./merchants";
+import { getExpenseParts } from "./splits";
+
+/*
+ * Flags expenses that look out of the ordinary for this user. Amounts are
+ * compared in the home currency against the user's own history, using the
+ * median and the median absolute deviation so one earlier splurge doesn't
+ * hide the next. Expenses generated from recurring templates are expected
+ * by definition, and ones with no rate into the home currency can't be
+ * compared; neither kind is flagged or used as a baseline.
+ *
+ * Feedback teaches the detector: each flag is judged against a key (a
+ * merchant, a description or a category), and every "expected" on that key
+ * raises the bar for the same kind of flag there by half, a dismissal by a
+ * quarter.
+ */
+
+export interface Anomaly {
+  expenseId: string;
+  kind: AnomalyKind;
+  key: string; // What the expense was judged against, e.g. "merchant:<id>" or "category:food"
+  label: string; // Display name of the key
+  amount: number; // Home currency
+  typical?: number; // Median of the comparison, home currency
+  related?: { expenseId: string; date: string }; // The earlier charge a duplicate repeats
+}
+
+export interface AnomalyOptions {
+  today?: Date;
+  categories?: CategoryDefinition[];
+}
+
+// Only this recent an expense is flagged; older ones are still the baseline.
+const LOOKBACK_DAYS = 60;
+// Comparisons need this much history to mean anything.
+const MIN_MERCHANT_SAMPLES = 3;
+const MIN_CATEGORY_SAMPLES = 5;
+const MIN_HISTORY_FOR_NEW_MERCHANT = 10;
+// An unusual amount is this many robust deviations above the median, and at least this multiple of it.
+const UNUSUAL_Z = 3.5;
+const UNUSUAL_RATIO = 2;
+// A first visit is large at this multiple of the median expense.
+const NEW_MERCHANT_RATIO = 3;
+// Same amount at the same place within this many days.
+const DUPLICATE_WINDOW_DAYS = 1;
+// How far each piece of feedback raises a threshold, as a share of it.
+const TOLERANCE_STEP = 0.5;
+const verdictWeight = { expected: 1, dismissed: 0.5 } as const;
+
+// Priority when an expense trips more than one check; only the first is shown.
+const kindOrder: AnomalyKind[] = ["duplicate", "unusualAmount", "newMerchant"];
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/** Robust z-score of `value` against `values`; Infinity above a sample with no spread. */
+const robustScore = (value: number, values: number[]) => {
+  const center = median(values);
+  const deviation = median(values.map((other) => Math.abs(other - center)));
+  if (deviation === 0) return value > center ? Infinity : 0;
+  return (0.6745 * (value - center)) / deviation;
+};
+
+const toleranceKey = (kind: AnomalyKind, key: string) => `${kind}|${key}`;
+
+/** How much feedback has accumulated for each kind of flag at each key. */
+const getTolerances = (feedback: AnomalyFeedback[]) =>
+  feedback.reduce(
+    (tolerances, entry) =>
+      tolerances.set(
+        toleranceKey(entry.kind, entry.key),
+        (tolerances.get(toleranceKey(entry.kind, entry.key)) ?? 0) + verdictWeight[entry.verdict]
+      ),
+    new Map<string, number>()
+  );
+
+// Oldest first, so "earlier" and "first" follow the order things happened.
+const byTime = (a: Expense, b: Expense) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt);
+
+/**
+ * Current flags, at most one per expense and newest first. Flags the user
+ * has already dismissed or marked as expected are left out.
+ */
+export const detectAnomalies = (
+  expenses: Expense[],
+  merchants: Merchant[],
+  feedback: AnomalyFeedback[],
+  { today = new Date(), categories }: AnomalyOptions = {}
+): Anomaly[] => {
+  const history = expenses.filter((expense) => !expense.recurringId && !expense.rateMissing).sort(byTime);
+  const since = format(subDays(today, LOOKBACK_DAYS), "yyyy-MM-dd");
+  const until = format(today, "yyyy-MM-dd");
+  const recent = history.filter((expense) => expense.date >= since && expense.date <= until);
+
+  const tolerances = getTolerances(feedback);
+  const tolerance = (kind: AnomalyKind, key: string) => tolerances.get(toleranceKey(kind, key)) ?? 0;
+  const raise = (threshold: number, kind: AnomalyKind, key: string) =>
+    threshold * (1 + TOLERANCE_STEP * tolerance(kind, key));
+  const answered = new Set(feedback.map((entry) => `${entry.expenseId}|${entry.kind}`));
+
+  // Where each expense was spent: its merchant, or failing that its description.
+  const places = new Map(
+    history.map((expense) => {
+      const merchant = getExpenseMerchant(expense, merchants);
+      return [
+        expense.id,
+        merchant
+          ? { key: `merchant:${merchant.id}`, label: merchant.name }
+          : { key: `description:${normalizeMerchantText(expense.description)}`, label: expense.description.trim() },
+      ];
+    })
+  );
+  // Amounts spent at each place and in each category, for the baselines.
+  const amountsAt = new Map<string, { id: string; amount: number }[]>();
+  const amountsIn = new Map<string, { id: string; amount: number }[]>();
+  const record = (groups: typeof amountsAt, key: string, id: string, amount: number) => {
+    const rows = groups.get(key) ?? [];
+    rows.push({ id, amount });
+    groups.set(key, rows);
+  };
+  history.forEach((expense) => {
+    record(amountsAt, places.get(expense.id)!.key, expense.id, getHomeAmount(expense));
+    getExpenseParts(expense).forEach((part) => record(amountsIn, part.category, expense.id, part.amount));
+  });
+  const others = (rows: { id: string; amount: number }[] | undefined, id: string) =>
+    (rows ?? []).filter((row) => row.id !== id).map((row) => row.amount);
+
+  const isUnusual = (amount: number, baseline: number[], key: string) =>
+    amount > raise(UNUSUAL_RATIO, "unusualAmount", key) * median(baseline) &&
+    robustScore(amount, baseline) > raise(UNUSUAL_Z, "unusualAmount", key);
+
+  const checkAmount = (expense: Expense): Anomaly | null => {
+    const amount = getHomeAmount(expense);
+    const place = places.get(expense.id)!;
+
+    // Against the same merchant when there's enough of it, otherwise against the category.
+    const atPlace = others(amountsAt.get(place.key), expense.id);
+    if (atPlace.length >= MIN_MERCHANT_SAMPLES) {
+      return isUnusual(amount, atPlace, place.key)
+        ? { expenseId: expense.id, kind: "unusualAmount", ...place, amount, typical: median(atPlace) }
+        : null;
+    }
+
+    for (const part of getExpenseParts(expense)) {
+      const inCategory = others(amountsIn.get(part.category), expense.id);
+      const key = `category:${part.category}`;
+      if (inCategory.length >= MIN_CATEGORY_SAMPLES && isUnusual(part.amount, inCategory, key)) {
+        return {
+          expenseId: expense.id,
+          kind: "unusualAmount",
+          key,
+          label: getCategoryLabel(part.category, categories),
+          amount: part.amount,
+          typical: median(inCategory),
+        };
+      }
+    }
+    return null;
+  };
+
+  const checkDuplicate = (expense: Expense): Anomaly | null => {
+    const place = places.get(expense.id)!;
+    if (tolerance("duplicate", place.key) >= 1) return null;
+
+    const cents = Math.round(getHomeAmount(expense) * 100);
+    const earlier = history.find(
+      (other) =>
+        other.id !== expense.id &&
+        byTime(other, expense) < 0 &&
+        places.get(other.id)!.key === place.key &&
+        Math.round(getHomeAmount(other) * 100) === cents &&
+        differenceInCalendarDays(parseISO(expense.date), parseISO(other.date)) <= DUPLICATE_WINDOW_DAYS
+    );
+    return earlier
+      ? {
+          expenseId: expense.id,
+          kind: "duplicate",
+          ...place,
+          amount: getHomeAmount(expense),
+          related: { expenseId: earlier.id, date: earlier.date },
+        }
+      : null;
+  };
+
+  const checkNewMerchant = (expense: Expense): Anomaly | null => {
+    const place = places.get(expense.id)!;
+    const before = history.filter((other) => byTime(other, expense) < 0);
+    if (before.length < MIN_HISTORY_FOR_NEW_MERCHANT) return null;
+    if (before.some((other) => places.get(other.id)!.key === place.key)) return null;
+
+    // The bar is learned per category, since every merchant is new only once.
+    const amount = getHomeAmount(expense);
+    const typical = median(before.map(getHomeAmount));
+    const key = `category:${expense.category}`;
+    return amount > raise(NEW_MERCHANT_RATIO, "newMerchant", key) * typical
+      ? { expenseId: expense.id, kind: "newMerchant", key, label: place.label, amount, typical }
+      : null;
+  };
+
+  const checks: Record<AnomalyKind, (expense: Expense) => Anomaly | null> = {
+    duplicate: checkDuplicate,
+    unusualAmount: checkAmount,
+    newMerchant: checkNewMerchant,
+  };
+
+  return recent
+    .flatMap((expense) => {
+      for (const kind of kindOrder) {
+        if (answered.has(`${expense.id}|${kind}`)) continue;
+        const anomaly = checks[kind](expense);
+        if (anomaly) return [anomaly];
+      }
+      return [];
+    })
+    .reverse();
+};
+
+/** A sentence explaining the flag, e.g. "4.2× your usual ₹350 at Swiggy". */
+export const describeAnomaly = (anomaly: Anomaly, currency: string) => {
+  const ratio = anomaly.typical ? `${(anomaly.amount / anomaly.typical).toFixed(1)}×` : "";
+  switch (anomaly.kind) {
+    case "duplicate":
+      return `Same amount at ${anomaly.label} as an expense on ${format(parseISO(anomaly.related!.date), "MMM d")}`;
+    case "newMerchant":
+      return `First time at ${anomaly.label}, and ${ratio} your typical ${formatMoney(anomaly.typical!, currency)} expense`;
+    default:
+      return anomaly.key.startsWith("category:")
+        ? `${ratio} your usual ${formatMoney(anomaly.typical!, currency)} for ${anomaly.label}`
+        : `${ratio} your usual ${formatMoney(anomaly.typical!, currency)} at ${anomaly.label}`;
+  }
+};
+
+export const anomalyLabels: Record<AnomalyKind, string> = {
+  unusualAmount: "Unusual amount",
+  duplicate: "Possible duplicate",
+  newMerchant: "Large first visit",
+};
@@ -0,0 +1,359 @@
+import {
+  Account,
+  AnomalyFeedback,
+  CategoryBudget,
+  CategoryDefinition,
+  CategoryRule,
+  ExchangeRate,
+  Expense,
+  Income,
+  Merchant,
+  MonthlyBudget,
+  RecurringExpense,
+  Transfer,
+} from "./types";
+import { ExpenseRepository, ProfileChanges } from "./repository/types";
+import { withTags } from "./tags";
+
+export const BACKUP_FORMAT = "pocket-insight-backup";
+
+// Bump when the shape of BackupData changes, and teach parseBackup to upgrade older files.
+// 2: adds `categories`.
+// 3: expenses and recurring expenses have a `tags` list instead of one `tag`.
+// 4: adds `categoryRules`.
+// 5: adds `merchants`; expenses may have a `merchantId`.
+// 6: adds `anomalyFeedback`.
+export const BACKUP_SCHEMA_VERSION = 6;
+
+export type BackupSettings = Pick<
+  ProfileChanges,
+  "displayName" | "currencyPreference" | "budgetRollover" | "periodStartDay"
+>;
+
+export interface BackupData {
+  expenses: Expense[];
+  budgets: MonthlyBudget[];
+  categoryBudgets: CategoryBudget[];
+  categories: CategoryDefinition[];
+  categoryRules: CategoryRule[];
+  merchants: Merchant[];
+  anomalyFeedback: AnomalyFeedback[];
+  recurringExpenses: RecurringExpense[];
+  income: Income[];
+  accounts: Account[];
+  transfers: Transfer[];
+  exchangeRates: ExchangeRate[];
+  settings: BackupSettings | null;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  schemaVersion: number;
+  createdAt: string;
+  checksum: string; // SHA-256 of JSON.stringify(data), hex
+  data: BackupData;
+}
+
+// "merge" keeps what is already there and only adds records it does not have;
+// "replace" makes the user's data match the backup exactly.
+export type RestoreMode = "merge" | "replace";
+
+export type BackupEntity = Exclude<keyof BackupData, "settings">;
+
+export const backupEntities: { key: BackupEntity; label: string }[] = [
+  { key: "expenses", label: "Expenses" },
+  { key: "budgets", label: "Monthly budgets" },
+  { key: "categoryBudgets", label: "Category budgets" },
+  { key: "categories", label: "Categories" },
+  { key: "categoryRules", label: "Category rules" },
+  { key: "merchants", label: "Merchants" },
+  { key: "anomalyFeedback", label: "Answered flags" },
+  { key: "recurringExpenses", label: "Recurring expenses" },
+  { key: "income", label: "Income" },
+  { key: "accounts", label: "Accounts" },
+  { key: "transfers", label: "Transfers" },
+  { key: "exchangeRates", label: "Exchange rates" },
+];
+
+export interface RestoreCounts {
+  added: number;
+  skipped: number; // Already present; merge mode leaves them alone
+  overwritten: number;
+  removed: number; // Present now but not in the backup; replace mode only
+}
+
+export type RestorePlan = Record<BackupEntity, RestoreCounts> & { settings: boolean };
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+// Records that share a key are the same record, in the backup and in the app.
+const keyOf: { [K in BackupEntity]: (record: BackupData[K][number]) => string } = {
+  expenses: (record) => record.id,
+  budgets: (record) => record.month,
+  categoryBudgets: (record) => `${record.month}:${record.category}`,
+  categories: (record) => record.id,
+  categoryRules: (record) => record.id,
+  merchants: (record) => record.id,
+  anomalyFeedback: (record) => record.id,
+  recurringExpenses: (record) => record.id,
+  income: (record) => record.id,
+  accounts: (record) => record.id,
+  transfers: (record) => record.id,
+  exchangeRates: (record) => `${record.date}:${record.baseCurrency}:${record.quoteCurrency}`,
+};
+
+const keysOf = <K extends BackupEntity>(entity: K, records: BackupData[K]) =>
+  new Set((records as BackupData[K][number][]).map((record) => keyOf[entity](record)));
+
+export const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// Derived and device-local fields never go into a backup.
+const stripExpense = ({ convertedAmount, rateMissing, syncStatus, ...expense }: Expense): Expense => expense;
+const stripIncome = ({ convertedAmount, rateMissing, ...income }: Income): Income => income;
+const stripBudget = ({ syncStatus, ...budget }: MonthlyBudget): MonthlyBudget => budget;
+
+/** Everything the user owns, as stored (amounts are never converted). */
+export const readBackupData = async (repo: ExpenseRepository, userId: string): Promise<BackupData> => {
+  const [
+    expenses,
+    budgets,
+    categoryBudgets,
+    categories,
+    categoryRules,
+    merchants,
+    anomalyFeedback,
+    recurringExpenses,
+    income,
+    accounts,
+    transfers,
+    exchangeRates,
+    profile,
+  ] = await Promise.all([
+    repo.getExpenses(userId),
+    repo.getBudgets(userId),
+    repo.getCategoryBudgets(userId),
+    repo.getCategories(userId),
+    repo.getCategoryRules(userId),
+    repo.getMerchants(userId),
+    repo.getAnomalyFeedback(userId),
+    repo.getRecurringExpenses(userId),
+    repo.getIncome(userId),
+    repo.getAccounts(userId),
+    repo.getTransfers(userId),
+    repo.getExchangeRates(userId),
+    repo.getProfile(userId),
+  ]);
+
+  return {
+    expenses: expenses.map(stripExpense),
+    budgets: budgets.map(stripBudget),
+    categoryBudgets,
+    categories,
+    categoryRules,
+    merchants,
+    anomalyFeedback,
+    recurringExpenses,
+    income: income.map(stripIncome),
+    accounts,
+    transfers,
+    exchangeRates,
+    settings: profile
+      ? {
+          displayName: profile.displayName,
+          currencyPreference: profile.currencyPreference,
+          budgetRollover: profile.budgetRollover,
+          periodStartDay: profile.periodStartDay,
+        }
+      : null,
+  };
+};
+
+export const createBackup = async (repo: ExpenseRepository, userId: string): Promise<BackupFile> => {
+  const data = await readBackupData(repo, userId);
+  return {
+    format: BACKUP_FORMAT,
+    schemaVersion: BACKUP_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    checksum: await sha256(JSON.stringify(data)),
+    data,
+  };
+};
+
+/**
+ * Reads a backup file and checks that it is one of ours, from a schema
+ * version this build understands, and unchanged since it was written.
+ */
+export const parseBackup = async (text: string): Promise<BackupFile> => {
+  let file: Partial<BackupFile>;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new BackupError("This file is not valid JSON");
+  }
+
+  if (!file || file.format !== BACKUP_FORMAT || !file.data) {
+    throw new BackupError("This file is not a Pocket Insight backup");
+  }
+  if (typeof file.schemaVersion !== "number" || file.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new BackupError(
+      `This backup was made by a newer version of the app (schema ${file.schemaVersion}); please update first`
+    );
+  }
+  if (file.checksum !== (await sha256(JSON.stringify(file.data)))) {
+    throw new BackupError("The backup's checksum does not match; the file is damaged or was edited");
+  }
+
+  // Version 1 files predate custom categories.
+  let data = file.schemaVersion < 2 ? { ...file.data, categories: [] } : file.data;
+  // Nor did they have rules, up to version 4.
+  if (file.schemaVersion < 4) data = { ...data, categoryRules: [] };
+  if (file.schemaVersion < 5) data = { ...data, merchants: [] };
+  if (file.schemaVersion < 6) data = { ...data, anomalyFeedback: [] };
+  for (const { key } of backupEntities) {
+    if (!Array.isArray(data[key])) throw new BackupError(`The backup has no valid "${key}" list`);
+  }
+  // Versions before 3 have a single free-text tag.
+  if (file.schemaVersion < 3) {
+    data = {
+      ...data,
+      expenses: data.expenses.map(withTags),
+      recurringExpenses: data.recurringExpenses.map(withTags),
+    };
+  }
+
+  return { ...(file as BackupFile), data };
+};
+
+/** Dry run: what restoring `backup` over `current` would do, without writing anything. */
+export const planRestore = (current: BackupData, backup: BackupData, mode: RestoreMode): RestorePlan => {
+  const counts = <K extends BackupEntity>(entity: K): RestoreCounts => {
+    const existing = keysOf(entity, current[entity]);
+    const incoming = keysOf(entity, backup[entity]);
+    const present = [...incoming].filter((key) => existing.has(key)).length;
+
+    return {
+      added: incoming.size - present,
+      skipped: mode === "merge" ? present : 0,
+      overwritten: mode === "replace" ? present : 0,
+      // Monthly budgets and categories cannot be deleted, so ones missing from the backup are kept.
+      removed:
+        mode === "replace" && entity !== "budgets" && entity !== "categories"
+          ? [...existing].filter((key) => !incoming.has(key)).length
+          : 0,
+    };
+  };
+
+  return {
+    expenses: counts("expenses"),
+    budgets: counts("budgets"),
+    categoryBudgets: counts("categoryBudgets"),
+    categories: counts("categories"),
+    categoryRules: counts("categoryRules"),
+    merchants: counts("merchants"),
+    anomalyFeedback: counts("anomalyFeedback"),
+    recurringExpenses: counts("recurringExpenses"),
+    income: counts("income"),
+    accounts: counts("accounts"),
+    transfers: counts("transfers"),
+    exchangeRates: counts("exchangeRates"),
+    settings: mode === "replace" && !!backup.settings,
+  };
+};
+
+/**
+ * Writes a backup through the repository and returns what was done (the
+ * same shape as planRestore). Categories, accounts, merchants and recurring
+ * templates go first so expenses that point at them are never written before
+ * their targets, answered flags after the expenses they belong to, and
+ * removals run in the reverse order.
+ */
+export const restoreBackup = async (
+  repo: ExpenseRepository,
+  userId: string,
+  backup: BackupData,
+  mode: RestoreMode
+): Promise<RestorePlan> => {
+  const current = await readBackupData(repo, userId);
+  const plan = planRestore(current, backup, mode);
+
+  const pick = <K extends BackupEntity>(entity: K) => {
+    const existing = keysOf(entity, current[entity]);
+    const incoming = keysOf(entity, backup[entity]);
+    const records = backup[entity] as BackupData[K][number][];
+    return {
+      toWrite: mode === "merge" ? records.filter((record) => !existing.has(keyOf[entity](record))) : records,
+      isNew: (record: BackupData[K][number]) => !existing.has(keyOf[entity](record)),
+      toRemove:
+        mode === "replace" && entity !== "budgets" && entity !== "categories"
+          ? (current[entity] as BackupData[K][number][]).filter((record) => !incoming.has(keyOf[entity](record)))
+          : [],
+    };
+  };
+
+  const accounts = pick("accounts");
+  const recurring = pick("recurringExpenses");
+  const expenses = pick("expenses");
+  const income = pick("income");
+  const transfers = pick("transfers");
+  const budgets = pick("budgets");
+  const categoryBudgets = pick("categoryBudgets");
+  const categories = pick("categories");
+  const rules = pick("categoryRules");
+  const merchants = pick("merchants");
+  const feedback = pick("anomalyFeedback");
+  const rates = pick("exchangeRates");
+
+  for (const record of feedback.toRemove) await repo.deleteAnomalyFeedback(userId, record.id);
+  for (const record of transfers.toRemove) await repo.deleteTransfer(userId, record.id);
+  for (const record of income.toRemove) await repo.deleteIncome(userId, record.id);
+  for (const record of expenses.toRemove) await repo.deleteExpense(userId, record.id);
+  for (const record of recurring.toRemove) await repo.deleteRecurringExpense(userId, record.id);
+  for (const record of accounts.toRemove) await repo.deleteAccount(userId, record.id);
+  for (const record of categoryBudgets.toRemove) {
+    await repo.deleteCategoryBudget(userId, record.month, record.category);
+  }
+  for (const record of rates.toRemove) await repo.deleteExchangeRate(userId, record);
+  for (const record of rules.toRemove) await repo.deleteCategoryRule(userId, record.id);
+  for (const record of merchants.toRemove) await repo.deleteMerchant(userId, record.id);
+
+  if (categories.toWrite.length > 0) await repo.saveCategories(userId, categories.toWrite);
+  if (rules.toWrite.length > 0) await repo.saveCategoryRules(userId, rules.toWrite);
+  for (const record of accounts.toWrite) await repo.saveAccount(userId, record);
+  for (const record of merchants.toWrite) await repo.saveMerchant(userId, record);
+  for (const record of recurring.toWrite) await repo.saveRecurringExpense(userId, record);
+  for (const record of expenses.toWrite) {
+    if (expenses.isNew(record)) {
+      await repo.addExpense(userId, record);
+    } else {
+      const { id, createdAt, ...changes } = record;
+      // Optional fields are absent from the JSON when unset, so they are named
+      // explicitly; otherwise tags, lines or links the current copy has would survive.
+      await repo.updateExpense(userId, id, {
+        ...changes,
+        tags: record.tags ?? [],
+        accountId: record.accountId,
+        merchantId: record.merchantId,
+        recurringId: record.recurringId,
+        splits: record.splits,
+      });
+    }
+  }
+  for (const record of feedback.toWrite) await repo.saveAnomalyFeedback(userId, record);
+  for (const record of income.toWrite) await repo.saveIncome(userId, record);
+  for (const record of transfers.toWrite) await repo.saveTransfer(userId, record);
+  for (const record of budgets.toWrite) await repo.saveBudget(userId, record);
+  for (const record of categoryBudgets.toWrite) await repo.saveCategoryBudget(userId, record);
+  if (rates.toWrite.length > 0) await repo.saveExchangeRates(userId, rates.toWrite);
+
+  if (plan.settings && backup.settings) await repo.updateProfile(userId, backup.settings);
+
+  return plan;
+};
@@ -1,30 +1,33 @@
-import { Expense, Category } from "./types";
-import { format, startOfMonth, endOfMonth, subMonths, parseISO } from "date-fns";
+import { Expense, Category, CategoryBudget, CategoryDefinition, Income } from "./types";
+import { getHomeAmount } from "./currency";
+import { defaultCategories, getParentCategory, getSubcategories } from "./categories";
+import { getExpenseParts, narrowToCategory } from "./splits";
+import {
+  DateRange,
+  filterByRange,
+  getCurrentPeriodKey,
+  getPeriodRange,
+  getRangeBuckets,
+  getRangeDays,
+  getSameRangeLastYear,
+  getYearRange,
+  shiftPeriodKey,
+} from "./dateRanges";
+import { addDays, differenceInCalendarDays, format, subDays, parseISO } from "date-fns";
 
-export const getCurrentMonthExpenses = (expenses: Expense[]): Expense[] => {
-  const now = new Date();
-  const start = startOfMonth(now);
-  const end = endOfMonth(now);
-  
-  return expenses.filter(expense => {
-    const expenseDate = parseISO(expense.date);
-    return expenseDate >= start && expenseDate <= end;
-  });
-};
+/*
+ * "Month" below means the budget period: it starts on the profile's period
+ * start day (1 for calendar months) and is keyed by the month it starts in.
+ */
 
-export const getLastMonthExpenses = (expenses: Expense[]): Expense[] => {
-  const lastMonth = subMonths(new Date(), 1);
-  const start = startOfMonth(lastMonth);
-  const end = endOfMonth(lastMonth);
-  
-  return expenses.filter(expense => {
-    const expenseDate = parseISO(expense.date);
-    return expenseDate >= start && expenseDate <= end;
-  });
-};
+export const getCurrentMonthExpenses = (expenses: Expense[], periodStartDay: number = 1): Expense[] =>
+  getExpensesForMonth(expenses, getCurrentPeriodKey(periodStartDay), periodStartDay);
 
-export const getTotalAmount = (expenses: Expense[]): number => {
-  return expenses.reduce((sum, expense) => sum + expense.amount, 0);
+export const getLastMonthExpenses = (expenses: Expense[], periodStartDay: number = 1): Expense[] =>
+  getExpensesForMonth(expenses, shiftPeriodKey(getCurrentPeriodKey(periodStartDay), -1), periodStartDay);
+
+export const getTotalAmount = (expenses: Pick<Expense, "amount" | "convertedAmount" | "rateMissing">[]): number => {
+  return expenses.reduce((sum, expense) => sum + getHomeAmount(expense), 0);
 };
 
 export const getPercentageChange = (current: number, previous: number): number => {
@@ -32,67 +35,95 @@ export const getPercentageChange = (current: number, previous: number): number =
   return ((current - previous) / previous) * 100;
 };
 
-export const getCategoryTotals = (expenses: Expense[]): Record<Category, number> => {
-  const totals: Record<Category, number> = {
-    food: 0,
-    travel: 0,
-    shopping: 0,
-    rent: 0,
-    entertainment: 0,
-    utilities: 0,
-    health: 0,
-    other: 0,
-  };
+/**
+ * Spend per category id, for every category that has at least one expense.
+ * Parent totals are rolled up: they include their subcategories' spending,
+ * so a subcategory's amount shows up under both ids. Use
+ * getCategoryBreakdown for slices that add up to the whole. Split expenses
+ * count each line under its own category.
+ */
+export const getCategoryTotals = (
+  expenses: Expense[],
+  categories: CategoryDefinition[] = defaultCategories
+): Record<Category, number> => {
+  const totals: Record<Category, number> = {};
 
-  expenses.forEach(expense => {
-    totals[expense.category] += expense.amount;
+  expenses.flatMap(getExpenseParts).forEach(({ category, amount }) => {
+    totals[category] = (totals[category] ?? 0) + amount;
+
+    const parent = getParentCategory(category, categories);
+    if (parent) totals[parent.id] = (totals[parent.id] ?? 0) + amount;
   });
 
   return totals;
 };
 
-export const getTopCategory = (expenses: Expense[]): { category: Category; amount: number } | null => {
-  const totals = getCategoryTotals(expenses);
-  let topCategory: Category | null = null;
-  let maxAmount = 0;
+export interface CategoryBreakdownItem {
+  category: Category;
+  amount: number;
+  // The parent's own spending, outside any subcategory (drill-down only).
+  direct?: boolean;
+}
 
-  (Object.keys(totals) as Category[]).forEach(category => {
-    if (totals[category] > maxAmount) {
-      maxAmount = totals[category];
-      topCategory = category;
-    }
-  });
+/**
+ * Non-overlapping slices of `totals`, largest first: the top-level
+ * categories, or with `parentId` that category's subcategories plus
+ * whatever was spent on the parent directly.
+ */
+export const getCategoryBreakdown = (
+  totals: Record<Category, number>,
+  categories: CategoryDefinition[] = defaultCategories,
+  parentId?: Category
+): CategoryBreakdownItem[] => {
+  let items: CategoryBreakdownItem[];
 
-  return topCategory ? { category: topCategory, amount: maxAmount } : null;
+  if (parentId === undefined) {
+    items = Object.keys(totals)
+      .filter(category => !getParentCategory(category, categories))
+      .map(category => ({ category, amount: totals[category] }));
+  } else {
+    items = getSubcategories(parentId, categories)
+      .filter(child => totals[child.id] > 0)
+      .map(child => ({ category: child.id, amount: totals[child.id] }));
+    const direct = (totals[parentId] ?? 0) - items.reduce((sum, item) => sum + item.amount, 0);
+    // Ignore floating-point dust left by the subtraction.
+    if (direct > 0.005) items.push({ category: parentId, amount: direct, direct: true });
+  }
+
+  return items.sort((a, b) => b.amount - a.amount);
+};
+
+// Largest top-level category, with its subcategories rolled in.
+export const getTopCategory = (
+  expenses: Expense[],
+  categories: CategoryDefinition[] = defaultCategories
+): { category: Category; amount: number } | null => {
+  const [top] = getCategoryBreakdown(getCategoryTotals(expenses, categories), categories);
+  return top && top.amount > 0 ? { category: top.category, amount: top.amount } : null;
 };
 
-export const getMonthlyTotals = (expenses: Expense[], monthsBack: number = 12): { month: string; total: number }[] => {
+export const getMonthlyTotals = (
+  expenses: Expense[],
+  monthsBack: number = 12,
+  periodStartDay: number = 1
+): { month: string; total: number }[] => {
   const result: { month: string; total: number }[] = [];
+  const current = getCurrentPeriodKey(periodStartDay);
   
   for (let i = monthsBack - 1; i >= 0; i--) {
-    const date = subMonths(new Date(), i);
-    const monthStr = format(date, "MMM yyyy");
-    const monthKey = format(date, "yyyy-MM");
-    
-    const start = startOfMonth(date);
-    const end = endOfMonth(date);
-    
-    const monthExpenses = expenses.filter(expense => {
-      const expenseDate = parseISO(expense.date);
-      return expenseDate >= start && expenseDate <= end;
-    });
+    const monthKey = shiftPeriodKey(current, -i);
     
     result.push({
-      month: monthStr,
-      total: getTotalAmount(monthExpenses),
+      month: format(parseISO(`${monthKey}-01`), "MMM yyyy"),
+      total: getTotalAmount(getExpensesForMonth(expenses, monthKey, periodStartDay)),
     });
   }
   
   return result;
 };
 
-export const getAverageMonthlySpend = (expenses: Expense[]): number => {
-  const monthlyTotals = getMonthlyTotals(expenses, 12);
+export const getAverageMonthlySpend = (expenses: Expense[], periodStartDay: number = 1): number => {
+  const monthlyTotals = getMonthlyTotals(expenses, 12, periodStartDay);
   const nonZeroMonths = monthlyTotals.filter(m => m.total > 0);
   
   if (nonZeroMonths.length === 0) return 0;
@@ -100,3 +131,398 @@ export const getAverageMonthlySpend = (expenses: Expense[]): number => {
   const total = nonZeroMonths.reduce((sum, m) => sum + m.total, 0);
   return total / nonZeroMonths.length;
 };
+
+export interface MonthProjection {
+  period: DateRange;
+  spent: number; // So far, up to and including today
+  upcomingRecurring: number; // Recurring occurrences still to come this month
+  dailyRate: number; // Expected other spending per remaining day
+  daysLeft: number;
+  projected: number; // Month-end total
+  // An 80% band around `projected`; `low` never drops below what is already certain.
+  low: number;
+  high: number;
+  // Expected running total after each remaining day, ending at `projected`.
+  path: { date: string; total: number }[];
+}
+
+export interface ProjectionOptions {
+  today?: Date;
+  periodStartDay?: number;
+  // How many past months to learn the rest-of-month pattern from.
+  historyMonths?: number;
+}
+
+// z-score for a two-sided 80% band.
+const PROJECTION_Z = 1.28;
+
+const standardDeviation = (values: number[]) => {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+};
+
+/**
+ * Where the current month is heading. Recurring items still to come
+ * (`upcoming`, in the home currency) are added as they are; everything else
+ * is projected per remaining day from two rates: this month's run-rate so far
+ * and what past months spent over the same remaining stretch. The run-rate
+ * weighs more the further into the month it is. Expenses generated by
+ * recurring templates are left out of both rates, since `upcoming` already
+ * covers them.
+ *
+ * The band comes from how much that rest-of-month rate varied between past
+ * months or, without enough history, from this month's day-to-day spread.
+ */
+export const getMonthProjection = (
+  expenses: Expense[],
+  upcoming: Pick<Expense, "date" | "amount" | "convertedAmount" | "rateMissing">[],
+  { today = new Date(), periodStartDay = 1, historyMonths = 6 }: ProjectionOptions = {}
+): MonthProjection => {
+  const todayKey = format(today, "yyyy-MM-dd");
+  const key = getCurrentPeriodKey(periodStartDay, today);
+  const period = getPeriodRange(key, periodStartDay);
+  const start = parseISO(period.from);
+  const daysElapsed = differenceInCalendarDays(today, start) + 1;
+  const daysTotal = differenceInCalendarDays(parseISO(period.to), start) + 1;
+  const daysLeft = daysTotal - daysElapsed;
+
+  const sofar = filterByRange(expenses, { from: period.from, to: todayKey });
+  const spent = getTotalAmount(sofar);
+  const other = expenses.filter(expense => !expense.recurringId);
+  const runRate = getTotalAmount(sofar.filter(expense => !expense.recurringId)) / daysElapsed;
+
+  // Per-day spending over the rest of each past month, from the same day offset on.
+  const historicalRates: number[] = [];
+  for (let i = 1; i <= historyMonths; i++) {
+    const past = getPeriodRange(shiftPeriodKey(key, -i), periodStartDay);
+    const pastExpenses = filterByRange(other, past);
+    if (pastExpenses.length === 0) continue;
+
+    const restFrom = format(addDays(parseISO(past.from), daysElapsed), "yyyy-MM-dd");
+    const restDays = differenceInCalendarDays(parseISO(past.to), parseISO(restFrom)) + 1;
+    if (restDays <= 0) continue;
+    historicalRates.push(getTotalAmount(filterByRange(pastExpenses, { from: restFrom, to: past.to })) / restDays);
+  }
+
+  const historicalRate = historicalRates.length
+    ? historicalRates.reduce((sum, rate) => sum + rate, 0) / historicalRates.length
+    : runRate;
+  const weight = daysElapsed / daysTotal;
+  const dailyRate = weight * runRate + (1 - weight) * historicalRate;
+
+  const upcomingInPeriod = upcoming.filter(row => row.date > todayKey && row.date <= period.to);
+  const upcomingRecurring = getTotalAmount(upcomingInPeriod);
+  const projected = spent + upcomingRecurring + dailyRate * daysLeft;
+
+  const spread =
+    historicalRates.length >= 2
+      ? standardDeviation(historicalRates) * daysLeft
+      : standardDeviation(
+          Array.from({ length: daysElapsed }, (_, day) => {
+            const date = format(addDays(start, day), "yyyy-MM-dd");
+            return getTotalAmount(sofar.filter(expense => !expense.recurringId && expense.date === date));
+          })
+        ) * Math.sqrt(daysLeft);
+  const certain = spent + upcomingRecurring;
+
+  const path: { date: string; total: number }[] = [];
+  let running = spent;
+  for (let day = 1; day <= daysLeft; day++) {
+    const date = format(addDays(today, day), "yyyy-MM-dd");
+    running += dailyRate + getTotalAmount(upcomingInPeriod.filter(row => row.date === date));
+    path.push({ date, total: running });
+  }
+
+  return {
+    period,
+    spent,
+    upcomingRecurring,
+    dailyRate,
+    daysLeft,
+    projected,
+    low: Math.max(certain, projected - PROJECTION_Z * spread),
+    high: projected + PROJECTION_Z * spread,
+    path,
+  };
+};
+
+/**
+ * How far over `limit` the projection ends and the first day the expected
+ * running total passes it, or null when it stays within the limit or is
+ * already over it today.
+ */
+export const getBudgetOverrun = (
+  projection: MonthProjection,
+  limit: number
+): { amount: number; date: string } | null => {
+  if (projection.spent > limit || projection.projected <= limit) return null;
+  const crossing = projection.path.find(point => point.total > limit);
+  return crossing ? { amount: projection.projected - limit, date: crossing.date } : null;
+};
+
+export interface TrendPoint {
+  label: string; // Display label for the bucket, e.g. "Oct 3" or "May 2024"
+  total: number;
+  // The matching bucket of the previous period of the same length.
+  previous: number;
+}
+
+// Spending over `range` in day, week or month buckets (see getRangeBuckets), oldest first.
+export const getSpendingTrend = (expenses: Expense[], range: DateRange): TrendPoint[] => {
+  const shift = getRangeDays(range);
+  const back = (date: string) => format(subDays(parseISO(date), shift), "yyyy-MM-dd");
+
+  return getRangeBuckets(range).map(bucket => ({
+    label: bucket.label,
+    total: getTotalAmount(filterByRange(expenses, bucket)),
+    previous: getTotalAmount(filterByRange(expenses, { from: back(bucket.from), to: back(bucket.to) })),
+  }));
+};
+
+export interface CashFlowPeriod {
+  label: string; // Display label for the bucket, e.g. "May 2024"
+  income: number;
+  expenses: number;
+  net: number;
+  // Running total of `net` from the start of the range.
+  balance: number;
+}
+
+// Income against spending over `range`, bucketed like getSpendingTrend, oldest first.
+export const getCashFlow = (expenses: Expense[], income: Income[], range: DateRange): CashFlowPeriod[] => {
+  let balance = 0;
+
+  return getRangeBuckets(range).map(bucket => {
+    const bucketIncome = filterByRange(income, bucket).reduce((sum, entry) => sum + getHomeAmount(entry), 0);
+    const bucketExpenses = getTotalAmount(filterByRange(expenses, bucket));
+    const net = bucketIncome - bucketExpenses;
+    balance += net;
+
+    return { label: bucket.label, income: bucketIncome, expenses: bucketExpenses, net, balance };
+  });
+};
+
+/*
+ * Year-over-year figures use calendar months and years, whatever the period
+ * start day. The current year only runs to today, and is compared with the
+ * same dates a year earlier so a part year isn't set against a whole one.
+ */
+
+// Years with spending, newest first; the current year is always included.
+export const getExpenseYears = (expenses: Expense[], today: Date = new Date()): number[] =>
+  [...new Set([today.getFullYear(), ...expenses.map(expense => Number(expense.date.slice(0, 4)))])]
+    .filter(year => year <= today.getFullYear())
+    .sort((a, b) => b - a);
+
+export interface YearOverYearMonth {
+  month: string; // "Jan" to "Dec"
+  // Spending in this month of each year; absent for months of the current year still to come.
+  totals: Record<number, number>;
+}
+
+// Each calendar month, January first, with what was spent in it in each of `years`.
+export const getYearOverYear = (
+  expenses: Expense[],
+  years: number[],
+  today: Date = new Date()
+): YearOverYearMonth[] => {
+  const byMonth = new Map<string, number>();
+  expenses.forEach(expense => {
+    const key = expense.date.slice(0, 7);
+    byMonth.set(key, (byMonth.get(key) ?? 0) + getHomeAmount(expense));
+  });
+  const currentMonth = format(today, "yyyy-MM");
+
+  return Array.from({ length: 12 }, (_, index) => {
+    const month = String(index + 1).padStart(2, "0");
+    const totals: Record<number, number> = {};
+    years.forEach(year => {
+      const key = `${year}-${month}`;
+      if (key <= currentMonth) totals[year] = byMonth.get(key) ?? 0;
+    });
+    return { month: format(parseISO(`2000-${month}-01`), "MMM"), totals };
+  });
+};
+
+export interface CategoryYearOverYear {
+  category: Category;
+  current: number;
+  previous: number; // Same dates a year earlier
+  change: number | null; // Percent; null when nothing was spent a year earlier
+}
+
+// Top-level categories in `year` against the year before, largest first.
+export const getCategoryYearOverYear = (
+  expenses: Expense[],
+  year: number,
+  categories: CategoryDefinition[] = defaultCategories,
+  today: Date = new Date()
+): CategoryYearOverYear[] => {
+  const range = getYearRange(year, today);
+  const slices = (rows: Expense[]) =>
+    new Map(
+      getCategoryBreakdown(getCategoryTotals(rows, categories), categories).map(item => [item.category, item.amount])
+    );
+  const current = slices(filterByRange(expenses, range));
+  const previous = slices(filterByRange(expenses, getSameRangeLastYear(range)));
+
+  return [...new Set([...current.keys(), ...previous.keys()])]
+    .map(category => {
+      const now = current.get(category) ?? 0;
+      const before = previous.get(category) ?? 0;
+      return {
+        category,
+        current: now,
+        previous: before,
+        change: before > 0 ? getPercentageChange(now, before) : null,
+      };
+    })
+    .sort((a, b) => b.current - a.current || b.previous - a.previous);
+};
+
+export interface AnnualSummary {
+  year: number;
+  range: DateRange; // The whole year, or up to today for the current one
+  total: number;
+  previousTotal: number; // Same dates a year earlier
+  expenseCount: number;
+  monthlyAverage: number; // Over the months `range` reaches into
+  topCategories: CategoryBreakdownItem[];
+  biggestExpenses: Expense[];
+}
+
+export const getAnnualSummary = (
+  expenses: Expense[],
+  year: number,
+  categories: CategoryDefinition[] = defaultCategories,
+  { today = new Date(), topCount = 5 }: { today?: Date; topCount?: number } = {}
+): AnnualSummary => {
+  const range = getYearRange(year, today);
+  const inYear = filterByRange(expenses, range);
+  const total = getTotalAmount(inYear);
+
+  return {
+    year,
+    range,
+    total,
+    previousTotal: getTotalAmount(filterByRange(expenses, getSameRangeLastYear(range))),
+    expenseCount: inYear.length,
+    monthlyAverage: total / Number(range.to.slice(5, 7)),
+    topCategories: getCategoryBreakdown(getCategoryTotals(inYear, categories), categories).slice(0, topCount),
+    biggestExpenses: [...inYear].sort((a, b) => getHomeAmount(b) - getHomeAmount(a)).slice(0, topCount),
+  };
+};
+
+// Share of income left after spending, as a percentage; null when there was no income.
+export const getSavingsRate = (totalIncome: number, totalExpenses: number): number | null => {
+  if (totalIncome <= 0) return null;
+  return ((totalIncome - totalExpenses) / totalIncome) * 100;
+};
+
+export type BudgetLevel = "over" | "warning" | "ok";
+
+// Shared red/amber/green thresholds for every budget progress bar.
+export const getBudgetLevel = (percentage: number): BudgetLevel => {
+  if (percentage > 100) return "over";
+  if (percentage > 80) return "warning";
+  return "ok";
+};
+
+export interface CategoryBudgetProgress {
+  category: Category;
+  spent: number;
+  limit: number;
+  percentage: number;
+}
+
+// Spending against each category limit, most over-budget first. A limit
+// already used up (zero or negative after rollover) counts as over budget.
+// A limit on a parent category covers its subcategories too.
+export const getCategoryBudgetProgress = (
+  expenses: Expense[],
+  budgets: CategoryBudget[],
+  categories: CategoryDefinition[] = defaultCategories
+): CategoryBudgetProgress[] => {
+  const totals = getCategoryTotals(expenses, categories);
+
+  return budgets
+    .map(budget => {
+      const spent = totals[budget.category] ?? 0;
+      return {
+        category: budget.category,
+        spent,
+        limit: budget.amount,
+        percentage: budget.amount > 0 ? (spent / budget.amount) * 100 : Infinity,
+      };
+    })
+    .sort((a, b) => b.percentage - a.percentage);
+};
+
+export const getExpensesForMonth = (expenses: Expense[], month: string, periodStartDay: number = 1): Expense[] =>
+  filterByRange(expenses, getPeriodRange(month, periodStartDay));
+
+export interface BudgetBreakdown {
+  base: number;
+  carryOver: number;
+  effective: number;
+}
+
+/**
+ * Limit for `month` once rollover is applied: the base amount plus the
+ * surplus (or minus the deficit) left at the end of the previous month. The
+ * carry compounds through consecutive budgeted months and resets at the
+ * first month without a budget, looking back at most `maxMonths`.
+ */
+export const getRolloverBreakdown = (
+  expenses: Expense[],
+  baseByMonth: Record<string, number>,
+  month: string,
+  periodStartDay: number = 1,
+  maxMonths: number = 24
+): BudgetBreakdown => {
+  const base = baseByMonth[month] ?? 0;
+  const chain: string[] = [];
+  let cursor = shiftPeriodKey(month, -1);
+
+  while (chain.length < maxMonths && baseByMonth[cursor] !== undefined) {
+    chain.unshift(cursor);
+    cursor = shiftPeriodKey(cursor, -1);
+  }
+
+  let carryOver = 0;
+  chain.forEach(previous => {
+    const limit = baseByMonth[previous] + carryOver;
+    carryOver = limit - getTotalAmount(getExpensesForMonth(expenses, previous, periodStartDay));
+  });
+
+  return { base, carryOver, effective: base + carryOver };
+};
+
+// Category budgets for `month` with each limit raised or lowered by its own carry-over.
+export const getCategoryRolloverBudgets = (
+  expenses: Expense[],
+  categoryBudgets: CategoryBudget[],
+  month: string,
+  categories: CategoryDefinition[] = defaultCategories,
+  periodStartDay: number = 1
+): (CategoryBudget & { breakdown: BudgetBreakdown })[] => {
+  return categoryBudgets
+    .filter(budget => budget.month === month)
+    .map(budget => {
+      const baseByMonth = Object.fromEntries(
+        categoryBudgets
+          .filter(other => other.category === budget.category)
+          .map(other => [other.month, other.amount])
+      );
+      const breakdown = getRolloverBreakdown(
+        expenses
+          .map(expense => narrowToCategory(expense, budget.category, categories))
+          .filter((expense): expense is Expense => !!expense),
+        baseByMonth,
+        month,
+        periodStartDay
+      );
+
+      return { ...budget, amount: breakdown.effective, breakdown };
+    });
+};
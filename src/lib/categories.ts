@@ -1,22 +1,187 @@
-import { Category } from "./types";
-import { Utensils, Car, ShoppingBag, Home, Tv, Lightbulb, Heart, MoreHorizontal } from "lucide-react";
-
-export const categories: { 
-  value: Category; 
-  label: string; 
-  icon: any; 
-  emoji: string;
-}[] = [
-  { value: "food", label: "Food", icon: Utensils, emoji: "🍔" },
-  { value: "travel", label: "Travel", icon: Car, emoji: "🚗" },
-  { value: "shopping", label: "Shopping", icon: ShoppingBag, emoji: "🛍️" },
-  { value: "rent", label: "Rent", icon: Home, emoji: "🏠" },
-  { value: "entertainment", label: "Entertainment", icon: Tv, emoji: "🎬" },
-  { value: "utilities", label: "Utilities", icon: Lightbulb, emoji: "💡" },
-  { value: "health", label: "Health", icon: Heart, emoji: "❤️" },
-  { value: "other", label: "Other", icon: MoreHorizontal, emoji: "📌" },
+import { BuiltInCategory, Category, CategoryDefinition } from "./types";
+import {
+  Baby,
+  Beer,
+  Book,
+  Briefcase,
+  Bus,
+  Car,
+  Coffee,
+  CreditCard,
+  Dog,
+  Dumbbell,
+  Fuel,
+  Gamepad2,
+  Gift,
+  GraduationCap,
+  Heart,
+  Home,
+  Landmark,
+  Laptop,
+  Lightbulb,
+  LucideIcon,
+  MoreHorizontal,
+  Music,
+  Pill,
+  Plane,
+  Receipt,
+  Scissors,
+  Shirt,
+  ShoppingBag,
+  ShoppingCart,
+  Smartphone,
+  Sparkles,
+  Train,
+  Tv,
+  Utensils,
+  Wifi,
+  Wrench,
+} from "lucide-react";
+
+// The icons a category can use, by the name stored with it.
+export const categoryIcons: Record<string, LucideIcon> = {
+  utensils: Utensils,
+  coffee: Coffee,
+  beer: Beer,
+  "shopping-cart": ShoppingCart,
+  "shopping-bag": ShoppingBag,
+  shirt: Shirt,
+  car: Car,
+  fuel: Fuel,
+  bus: Bus,
+  train: Train,
+  plane: Plane,
+  home: Home,
+  lightbulb: Lightbulb,
+  wifi: Wifi,
+  smartphone: Smartphone,
+  laptop: Laptop,
+  tv: Tv,
+  "gamepad-2": Gamepad2,
+  music: Music,
+  book: Book,
+  "graduation-cap": GraduationCap,
+  heart: Heart,
+  pill: Pill,
+  dumbbell: Dumbbell,
+  scissors: Scissors,
+  sparkles: Sparkles,
+  baby: Baby,
+  dog: Dog,
+  gift: Gift,
+  briefcase: Briefcase,
+  landmark: Landmark,
+  "credit-card": CreditCard,
+  receipt: Receipt,
+  wrench: Wrench,
+  "more-horizontal": MoreHorizontal,
+};
+
+export const getCategoryIcon = (name: string): LucideIcon => categoryIcons[name] ?? MoreHorizontal;
+
+// Suggested swatches for the colour picker; any #rrggbb is allowed.
+export const categoryColors = [
+  "#fba66a",
+  "#5ea6ed",
+  "#c47de8",
+  "#4dcbac",
+  "#ec79c6",
+  "#f6ce55",
+  "#e87d86",
+  "#98aab3",
+  "#7c9cf5",
+  "#8bd17c",
+  "#f08a5d",
+  "#5fc9d6",
+];
+
+const builtIn = (id: BuiltInCategory, name: string, icon: string, color: string, sortOrder: number) => ({
+  id,
+  name,
+  icon,
+  color,
+  sortOrder,
+});
+
+export const defaultCategories: CategoryDefinition[] = [
+  builtIn("food", "Food", "utensils", "#fba66a", 0),
+  builtIn("travel", "Travel", "car", "#5ea6ed", 1),
+  builtIn("shopping", "Shopping", "shopping-bag", "#c47de8", 2),
+  builtIn("rent", "Rent", "home", "#4dcbac", 3),
+  builtIn("entertainment", "Entertainment", "tv", "#ec79c6", 4),
+  builtIn("utilities", "Utilities", "lightbulb", "#f6ce55", 5),
+  builtIn("health", "Health", "heart", "#e87d86", 6),
+  builtIn("other", "Other", "more-horizontal", "#98aab3", 7),
 ];
 
-export const getCategoryInfo = (category: Category) => {
-  return categories.find(c => c.value === category) || categories[categories.length - 1];
+export const isBuiltInCategory = (id: Category): id is BuiltInCategory =>
+  defaultCategories.some((category) => category.id === id);
+
+/**
+ * The user's category list: the built-ins, overridden by any stored edits
+ * to them (rename, recolour, archive, reorder), plus their own categories,
+ * in display order.
+ */
+export const mergeCategories = (stored: CategoryDefinition[]): CategoryDefinition[] => {
+  const byId = new Map(defaultCategories.map((category) => [category.id, category]));
+  stored.forEach((category) => byId.set(category.id, category));
+  return sortCategoryTree([...byId.values()]);
+};
+
+/**
+ * Tree order as a flat list: each top-level category followed by its
+ * subcategories. A subcategory whose parent is missing, or is itself a
+ * subcategory, is treated as top-level so nothing drops out of the list.
+ */
+export const sortCategoryTree = (categories: CategoryDefinition[]): CategoryDefinition[] => {
+  const bySortOrder = (a: CategoryDefinition, b: CategoryDefinition) => a.sortOrder - b.sortOrder;
+  const topLevelIds = new Set(categories.filter((category) => !category.parentId).map((category) => category.id));
+  const isChild = (category: CategoryDefinition) => !!category.parentId && topLevelIds.has(category.parentId);
+
+  return categories
+    .filter((category) => !isChild(category))
+    .sort(bySortOrder)
+    .flatMap((parent) => [
+      parent,
+      ...categories.filter((category) => isChild(category) && category.parentId === parent.id).sort(bySortOrder),
+    ]);
+};
+
+// The top-level category `category` belongs to, or undefined when it is top-level itself.
+export const getParentCategory = (
+  category: Category,
+  categories: CategoryDefinition[] = defaultCategories
+): CategoryDefinition | undefined => {
+  const parentId = categories.find((c) => c.id === category)?.parentId;
+  const parent = parentId ? categories.find((c) => c.id === parentId) : undefined;
+  return parent && !parent.parentId ? parent : undefined;
+};
+
+export const getSubcategories = (parentId: Category, categories: CategoryDefinition[]) =>
+  categories.filter((category) => getParentCategory(category.id, categories)?.id === parentId);
+
+// Whether an expense in `category` matches a filter on `filter`: the category itself or its parent.
+export const isInCategory = (category: Category, filter: Category, categories: CategoryDefinition[]) =>
+  category === filter || getParentCategory(category, categories)?.id === filter;
+
+// "Food › Coffee" for subcategories, the plain name otherwise.
+export const getCategoryLabel = (category: Category, categories: CategoryDefinition[] = defaultCategories) => {
+  const parent = getParentCategory(category, categories);
+  const { name } = getCategoryInfo(category, categories);
+  return parent ? `${parent.name} › ${name}` : name;
+};
+
+// Categories offered when picking one; `keep` stays listed even if archived (the row being edited).
+export const getActiveCategories = (categories: CategoryDefinition[], keep?: Category) =>
+  categories.filter((category) => !category.archived || category.id === keep);
+
+export const getCategoryInfo = (
+  category: Category,
+  categories: CategoryDefinition[] = defaultCategories
+): CategoryDefinition => {
+  const found = categories.find((c) => c.id === category);
+  if (found) return found;
+  // A category this device doesn't know about yet (e.g. created elsewhere and not synced).
+  const other = defaultCategories[defaultCategories.length - 1];
+  return { ...other, id: category, name: category, sortOrder: Number.MAX_SAFE_INTEGER };
 };
@@ -0,0 +1,126 @@
+import { differenceInCalendarDays, parseISO } from "date-fns";
+import { Category, Expense, PaymentMethod } from "./types";
+
+/**
+ * Learned suggestions for Add Expense: a multinomial naive Bayes model per
+ * field, trained in the browser on the user's own expenses. Recent expenses
+ * weigh more, so correcting a category on a few new expenses soon outweighs
+ * an old habit.
+ */
+
+// An expense this many days old counts half as much as one from today.
+const HALF_LIFE_DAYS = 120;
+
+// Below this the suggestion is not worth showing.
+export const MIN_CONFIDENCE = 0.4;
+
+// Stands in for "no tag" so untagged expenses teach the tag model too.
+const NO_TAG = "";
+
+interface LabelStats {
+  weight: number; // Weighted number of expenses with this label
+  tokens: Map<string, number>; // Weighted token counts
+  tokenTotal: number;
+}
+
+export interface LabelModel {
+  labels: Map<string, LabelStats>;
+  vocabulary: Set<string>;
+  weight: number;
+}
+
+export interface ExpenseClassifier {
+  category: LabelModel;
+  paymentMethod: LabelModel;
+  tag: LabelModel;
+}
+
+export interface Suggestion<T extends string> {
+  value: T;
+  confidence: number; // 0–1
+}
+
+export interface ExpenseSuggestions {
+  category?: Suggestion<Category>;
+  paymentMethod?: Suggestion<PaymentMethod>;
+  tag?: Suggestion<string>;
+}
+
+/** Lower-case words of two or more letters or digits; "Swiggy*Order #123" → ["swiggy", "order", "123"]. */
+export const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length >= 2);
+
+const emptyModel = (): LabelModel => ({ labels: new Map(), vocabulary: new Set(), weight: 0 });
+
+const learn = (model: LabelModel, label: string, tokens: string[], weight: number) => {
+  const stats = model.labels.get(label) ?? { weight: 0, tokens: new Map(), tokenTotal: 0 };
+  stats.weight += weight;
+  for (const token of tokens) {
+    stats.tokens.set(token, (stats.tokens.get(token) ?? 0) + weight);
+    stats.tokenTotal += weight;
+    model.vocabulary.add(token);
+  }
+  model.labels.set(label, stats);
+  model.weight += weight;
+};
+
+/** Trains the three models from scratch; cheap enough to redo whenever the expenses change. */
+export const trainClassifier = (expenses: Expense[], today: Date = new Date()): ExpenseClassifier => {
+  const classifier = { category: emptyModel(), paymentMethod: emptyModel(), tag: emptyModel() };
+
+  for (const expense of expenses) {
+    const tokens = tokenize(expense.description);
+    if (tokens.length === 0) continue;
+
+    const age = Math.max(0, differenceInCalendarDays(today, parseISO(expense.date)));
+    const weight = Math.pow(0.5, age / HALF_LIFE_DAYS);
+
+    learn(classifier.category, expense.category, tokens, weight);
+    learn(classifier.paymentMethod, expense.paymentMethod, tokens, weight);
+    const tags = expense.tags?.length ? expense.tags : [NO_TAG];
+    // Split across the tags so a many-tagged expense doesn't count several times over.
+    for (const tag of tags) learn(classifier.tag, tag, tokens, weight / tags.length);
+  }
+
+  return classifier;
+};
+
+/** The most likely label for `tokens` and its posterior probability, with add-one smoothing. */
+export const predict = (model: LabelModel, tokens: string[]): Suggestion<string> | undefined => {
+  // Words never seen before say nothing either way.
+  const known = tokens.filter((token) => model.vocabulary.has(token));
+  if (known.length === 0 || model.weight === 0) return undefined;
+
+  const vocabularySize = model.vocabulary.size;
+  const scores = [...model.labels].map(([label, stats]) => {
+    let score = Math.log(stats.weight / model.weight);
+    for (const token of known) {
+      score += Math.log(((stats.tokens.get(token) ?? 0) + 1) / (stats.tokenTotal + vocabularySize));
+    }
+    return { label, score };
+  });
+
+  // Normalise the log scores into probabilities without underflowing.
+  const best = Math.max(...scores.map((entry) => entry.score));
+  const total = scores.reduce((sum, entry) => sum + Math.exp(entry.score - best), 0);
+  const top = scores.find((entry) => entry.score === best)!;
+  return { value: top.label, confidence: 1 / total };
+};
+
+const confident = <T extends string>(suggestion: Suggestion<string> | undefined) =>
+  suggestion && suggestion.confidence >= MIN_CONFIDENCE ? (suggestion as Suggestion<T>) : undefined;
+
+/** Suggestions for a description being typed; fields the model is unsure about are left out. */
+export const suggestFromDescription = (classifier: ExpenseClassifier, description: string): ExpenseSuggestions => {
+  const tokens = tokenize(description);
+  const tag = confident<string>(predict(classifier.tag, tokens));
+
+  return {
+    category: confident<Category>(predict(classifier.category, tokens)),
+    paymentMethod: confident<PaymentMethod>(predict(classifier.paymentMethod, tokens)),
+    tag: tag?.value === NO_TAG ? undefined : tag,
+  };
+};
@@ -0,0 +1,288 @@
+import { Category, CategoryDefinition, CategoryRule, PaymentMethod } from "./types";
+import { NewExpense } from "./repository/types";
+import { getCategoryLabel } from "./categories";
+import { findMatchingRule } from "./rules";
+import { format, isValid, parse } from "date-fns";
+
+export type DecimalSeparator = "." | ",";
+
+// Which way round the statement writes money going out.
+export type AmountSign = "positive" | "negative";
+
+export const dateFormats: { value: string; label: string }[] = [
+  { value: "yyyy-MM-dd", label: "2024-05-31" },
+  { value: "dd/MM/yyyy", label: "31/05/2024" },
+  { value: "MM/dd/yyyy", label: "05/31/2024" },
+  { value: "dd-MM-yyyy", label: "31-05-2024" },
+  { value: "dd.MM.yyyy", label: "31.05.2024" },
+  { value: "d MMM yyyy", label: "31 May 2024" },
+  { value: "dd-MMM-yy", label: "31-May-24" },
+];
+
+export interface ColumnMapping {
+  date: number | null;
+  description: number | null;
+  amount: number | null;
+  category: number | null;
+  paymentMethod: number | null;
+}
+
+export interface ImportOptions {
+  mapping: ColumnMapping;
+  dateFormat: string;
+  decimalSeparator: DecimalSeparator;
+  amountSign: AmountSign;
+  hasHeader: boolean;
+  // Matched against the category column by id or name.
+  categories: CategoryDefinition[];
+  // A matching rule adds its tags, and sets the category unless the file gives a recognised one.
+  rules: CategoryRule[];
+  // Used when neither the row nor a rule gives a category.
+  defaultCategory: Category;
+  defaultPaymentMethod: PaymentMethod;
+  currency: string;
+  accountId?: string;
+}
+
+export interface PreviewRow {
+  line: number; // 1-based row in the file, blank lines ignored
+  cells: string[];
+  expense: Omit<NewExpense, "id" | "createdAt"> | null;
+  rule?: CategoryRule; // The rule applied to the row, if any
+  errors: string[];
+  warnings: string[];
+  // The amount as read, after amountSign: positive for money out, negative for money in.
+  spent: number | null;
+  // Money coming in (refunds, payments to a card) is left out rather than treated as an error.
+  skipped: boolean;
+}
+
+const detectDelimiter = (firstLine: string): string => {
+  const candidates = [",", ";", "\t", "|"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+};
+
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells with embedded
+ * delimiters, doubled quotes and line breaks; the delimiter is guessed from
+ * the first line (comma, semicolon, tab or pipe).
+ */
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source.split(/\r?\n/, 1)[0] ?? "");
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell.trim());
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value !== ""));
+};
+
+// A debit/credit marker after or before the number, with or without a space.
+const findMarker = (text: string) => text.match(/(dr|cr)\.?\s*$/i) ?? text.match(/^(dr|cr)\.?(?![a-z])/i);
+
+/**
+ * Reads an amount such as "1,234.50", "1.234,50", "(45.00)", "-₹300",
+ * "300-", "300 DR", "300CR" or "DR 300". Returns null when the text is not
+ * a number, including when it has a hyphen anywhere but the ends ("1-2").
+ */
+export const parseAmount = (raw: string, decimalSeparator: DecimalSeparator): number | null => {
+  let text = raw.trim();
+  if (!text) return null;
+
+  const marker = findMarker(text);
+  if (marker) text = (text.slice(0, marker.index) + text.slice(marker.index! + marker[0].length)).trim();
+  const debit = marker?.[1].toLowerCase() === "dr";
+
+  const parenthesised = /^\(.*\)$/.test(text);
+  // A minus only counts before the first digit ("-₹300", "₹ -300") or at the very end ("300-").
+  const leadingMinus = /^[^\d]*-/.test(text);
+  const trailingMinus = /-$/.test(text);
+  if (leadingMinus) text = text.replace("-", "");
+  if (trailingMinus) text = text.slice(0, -1);
+  if (text.includes("-")) return null;
+
+  const negative = parenthesised || leadingMinus || trailingMinus || debit;
+  text = text.replace(/[^\d.,]/g, "");
+
+  const thousands = decimalSeparator === "." ? "," : ".";
+  text = text.split(thousands).join("").replace(decimalSeparator, ".");
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+
+  const value = Number(text);
+  return negative ? -value : value;
+};
+
+// Statements that mark amounts DR/CR write spending as debits, which parseAmount reads as negative.
+export const guessAmountSign = (rows: string[][], amountColumn: number | null): AmountSign =>
+  amountColumn !== null &&
+  rows.some(cells => {
+    const cell = (cells[amountColumn] ?? "").trim();
+    return !!findMarker(cell) && parseAmount(cell, ".") !== null;
+  })
+    ? "negative"
+    : "positive";
+
+export const parseDate = (raw: string, dateFormat: string): string | null => {
+  const parsed = parse(raw.trim(), dateFormat, new Date());
+  return isValid(parsed) ? format(parsed, "yyyy-MM-dd") : null;
+};
+
+// Subcategories also match by path, "Food › Coffee" as exported or "Food > Coffee" / "Food: Coffee".
+const normalisePath = (text: string) => text.trim().toLowerCase().replace(/\s*[›>:]\s*/g, " › ");
+
+const matchCategory = (raw: string, categories: CategoryDefinition[]): Category | null => {
+  const text = normalisePath(raw);
+  return (
+    categories.find(c => c.id === text || c.name.toLowerCase() === text)?.id ??
+    categories.find(c => normalisePath(getCategoryLabel(c.id, categories)) === text)?.id ??
+    null
+  );
+};
+
+const paymentMethodAliases: Record<string, PaymentMethod> = {
+  cash: "cash",
+  card: "card",
+  "credit card": "card",
+  "debit card": "card",
+  upi: "upi",
+  bank: "bank",
+  "bank transfer": "bank",
+  neft: "bank",
+  imps: "bank",
+  rtgs: "bank",
+};
+
+const matchPaymentMethod = (raw: string): PaymentMethod | null =>
+  paymentMethodAliases[raw.trim().toLowerCase()] ?? null;
+
+// Best-effort guess of the column for each field from the header row.
+export const guessMapping = (header: string[]): ColumnMapping => {
+  const find = (pattern: RegExp) => {
+    const index = header.findIndex(cell => pattern.test(cell));
+    return index === -1 ? null : index;
+  };
+
+  return {
+    date: find(/date/i),
+    description: find(/desc|narration|particular|details|merchant|payee|memo/i),
+    amount: find(/amount|debit|withdrawal|value/i),
+    category: find(/categ/i),
+    paymentMethod: find(/payment|method|mode/i),
+  };
+};
+
+/**
+ * Applies the chosen mapping and formats to every data row. Nothing is
+ * saved here; rows with errors are reported so the user can fix the options
+ * or the file before importing.
+ */
+export const buildImportPreview = (rows: string[][], options: ImportOptions): PreviewRow[] => {
+  const { mapping } = options;
+  const firstDataRow = options.hasHeader ? 1 : 0;
+
+  return rows.slice(firstDataRow).map((cells, index) => {
+    const line = index + firstDataRow + 1;
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const cell = (column: number | null) => (column === null ? "" : cells[column] ?? "");
+
+    const rawDate = cell(mapping.date);
+    const date = mapping.date === null ? null : parseDate(rawDate, options.dateFormat);
+    if (mapping.date === null) errors.push("No date column selected");
+    else if (!date) errors.push(`"${rawDate}" is not a date in the format ${options.dateFormat}`);
+
+    const description = cell(mapping.description);
+    if (mapping.description === null) errors.push("No description column selected");
+    else if (!description) errors.push("Description is empty");
+
+    const rawAmount = cell(mapping.amount);
+    const parsedAmount = mapping.amount === null ? null : parseAmount(rawAmount, options.decimalSeparator);
+    if (mapping.amount === null) errors.push("No amount column selected");
+    else if (parsedAmount === null) errors.push(`"${rawAmount}" is not an amount`);
+    else if (parsedAmount === 0) errors.push("Amount is zero");
+
+    const spent = parsedAmount === null ? null : options.amountSign === "negative" ? -parsedAmount : parsedAmount;
+    const skipped = spent !== null && spent < 0;
+
+    let paymentMethod = options.defaultPaymentMethod;
+    const rawMethod = cell(mapping.paymentMethod);
+    if (rawMethod) {
+      const matched = matchPaymentMethod(rawMethod);
+      if (matched) paymentMethod = matched;
+      else warnings.push(`Unknown payment method "${rawMethod}", using ${options.defaultPaymentMethod}`);
+    }
+
+    const amount = Math.abs(spent ?? 0);
+    const rule = findMatchingRule(options.rules, { description, amount, paymentMethod });
+    const fallback = rule?.category ?? options.defaultCategory;
+
+    let category = fallback;
+    const rawCategory = cell(mapping.category);
+    if (rawCategory) {
+      const matched = matchCategory(rawCategory, options.categories);
+      if (matched) category = matched;
+      else warnings.push(`Unknown category "${rawCategory}", using ${getCategoryLabel(fallback, options.categories)}`);
+    }
+
+    const expense =
+      errors.length === 0 && !skipped
+        ? {
+            date: date!,
+            description,
+            amount,
+            currency: options.currency,
+            category,
+            paymentMethod,
+            accountId: options.accountId,
+            tags: rule?.tags,
+          }
+        : null;
+
+    return {
+      line,
+      cells,
+      expense,
+      rule,
+      errors,
+      warnings,
+      spent,
+      skipped: errors.length === 0 && skipped,
+    };
+  });
+};
@@ -0,0 +1,119 @@
+import { ExchangeRate } from "./types";
+import { isValid, parseISO } from "date-fns";
+
+export const DEFAULT_CURRENCY = "INR";
+
+export const currencies: { code: string; symbol: string; label: string }[] = [
+  { code: "INR", symbol: "₹", label: "Indian Rupee" },
+  { code: "USD", symbol: "$", label: "US Dollar" },
+  { code: "EUR", symbol: "€", label: "Euro" },
+  { code: "GBP", symbol: "£", label: "British Pound" },
+  { code: "AED", symbol: "AED ", label: "UAE Dirham" },
+  { code: "SGD", symbol: "S$", label: "Singapore Dollar" },
+  { code: "JPY", symbol: "¥", label: "Japanese Yen" },
+  { code: "AUD", symbol: "A$", label: "Australian Dollar" },
+  { code: "CAD", symbol: "C$", label: "Canadian Dollar" },
+];
+
+export const getCurrencySymbol = (code: string) =>
+  currencies.find(c => c.code === code)?.symbol ?? `${code} `;
+
+export const formatMoney = (amount: number, currency: string = DEFAULT_CURRENCY) =>
+  `${amount < 0 ? "-" : ""}${getCurrencySymbol(currency)}${Math.abs(amount).toLocaleString(undefined, {
+    maximumFractionDigits: 2,
+  })}`;
+
+/**
+ * Rate to turn one unit of `from` into `to` on `date`: the latest rate on or
+ * before that date, else the earliest one after it. Rates stored in the
+ * opposite direction are inverted. Returns null when no rate exists.
+ */
+export const findRate = (rates: ExchangeRate[], from: string, to: string, date: string): number | null => {
+  if (from === to) return 1;
+
+  const candidates = rates
+    .map(rate => {
+      if (rate.baseCurrency === from && rate.quoteCurrency === to) return { date: rate.date, value: rate.rate };
+      if (rate.baseCurrency === to && rate.quoteCurrency === from) return { date: rate.date, value: 1 / rate.rate };
+      return null;
+    })
+    .filter((candidate): candidate is { date: string; value: number } => !!candidate && candidate.value > 0)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  if (candidates.length === 0) return null;
+
+  const onOrBefore = candidates.filter(candidate => candidate.date <= date);
+  return (onOrBefore[onOrBefore.length - 1] ?? candidates[0]).value;
+};
+
+// Anything with an amount in its own currency: expenses and income.
+export interface Convertible {
+  date: string;
+  amount: number;
+  currency: string;
+  convertedAmount?: number;
+  rateMissing?: boolean;
+}
+
+/**
+ * What a row counts for in totals. A row in another currency with no known
+ * rate counts for nothing rather than at face value; pages with totals say
+ * how many were left out (countUnconverted).
+ */
+export const getHomeAmount = (row: Pick<Convertible, "amount" | "convertedAmount" | "rateMissing">) =>
+  row.rateMissing ? 0 : row.convertedAmount ?? row.amount;
+
+export const countUnconverted = (rows: Pick<Convertible, "rateMissing">[]) =>
+  rows.filter(row => row.rateMissing).length;
+
+/**
+ * Adds `convertedAmount` in the home currency to every row that has a usable
+ * rate, and marks rows in another currency that have none with `rateMissing`.
+ * The original `amount` and `currency` are left untouched.
+ */
+export const convertAmounts = <T extends Convertible>(rows: T[], rates: ExchangeRate[], homeCurrency: string): T[] =>
+  rows.map(row => {
+    const rate = findRate(rates, row.currency, homeCurrency, row.date);
+    return {
+      ...row,
+      convertedAmount:
+        rate === null || row.currency === homeCurrency ? undefined : Math.round(row.amount * rate * 100) / 100,
+      rateMissing: rate === null ? true : undefined,
+    };
+  });
+
+export interface RatesCsvResult {
+  rates: ExchangeRate[];
+  errors: { line: number; message: string }[];
+}
+
+/**
+ * Parses rates from CSV with the columns `date,from,to,rate` (a header row is
+ * optional), e.g. `2024-05-01,USD,INR,83.45` meaning 1 USD = 83.45 INR.
+ */
+export const parseRatesCsv = (text: string): RatesCsvResult => {
+  const result: RatesCsvResult = { rates: [], errors: [] };
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    if (!raw.trim()) return;
+
+    const [date, from, to, value] = raw.split(",").map(cell => cell.trim());
+    if (index === 0 && isNaN(Number(value))) return; // header row
+
+    const rate = Number(value);
+    if (!date || !isValid(parseISO(date)) || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      result.errors.push({ line, message: `Invalid date "${date ?? ""}", expected YYYY-MM-DD` });
+    } else if (!/^[A-Za-z]{3}$/.test(from ?? "") || !/^[A-Za-z]{3}$/.test(to ?? "")) {
+      result.errors.push({ line, message: "Currencies must be 3-letter codes such as USD" });
+    } else if (from.toUpperCase() === to.toUpperCase()) {
+      result.errors.push({ line, message: "From and to currencies must differ" });
+    } else if (!(rate > 0)) {
+      result.errors.push({ line, message: `Invalid rate "${value ?? ""}"` });
+    } else {
+      result.rates.push({ date, baseCurrency: from.toUpperCase(), quoteCurrency: to.toUpperCase(), rate });
+    }
+  });
+
+  return result;
+};
@@ -0,0 +1,188 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  endOfMonth,
+  endOfWeek,
+  format,
+  parseISO,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+  subDays,
+  subMonths,
+} from "date-fns";
+
+// Inclusive, as yyyy-MM-dd like expense dates, so filtering is a string comparison.
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export type RangePreset = "month" | "week" | "last30" | "quarter" | "year" | "custom";
+
+// What the picker holds: a preset, plus the dates used when it is "custom".
+export interface RangeSelection {
+  preset: RangePreset;
+  custom: DateRange;
+}
+
+// "This month" is the current budget period, which need not start on the 1st.
+export const rangePresets: { value: RangePreset; label: string }[] = [
+  { value: "month", label: "This month" },
+  { value: "week", label: "This week" },
+  { value: "last30", label: "Last 30 days" },
+  { value: "quarter", label: "Quarter to date" },
+  { value: "year", label: "Year to date" },
+  { value: "custom", label: "Custom" },
+];
+
+const toKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Weeks start on Monday.
+const WEEK_OPTIONS = { weekStartsOn: 1 } as const;
+
+export const defaultRangeSelection = (today: Date = new Date()): RangeSelection => ({
+  preset: "month",
+  custom: { from: toKey(startOfMonth(today)), to: toKey(today) },
+});
+
+/**
+ * The dates a selection covers. Presets run up to today; a custom range is
+ * taken as given. "This month" starts on the profile's period start day.
+ */
+export const resolveRange = (
+  selection: RangeSelection,
+  today: Date = new Date(),
+  periodStartDay: number = 1
+): DateRange => {
+  switch (selection.preset) {
+    case "week":
+      return { from: toKey(startOfWeek(today, WEEK_OPTIONS)), to: toKey(today) };
+    case "last30":
+      return { from: toKey(subDays(today, 29)), to: toKey(today) };
+    case "quarter":
+      return { from: toKey(startOfQuarter(today)), to: toKey(today) };
+    case "year":
+      return { from: toKey(startOfYear(today)), to: toKey(today) };
+    case "custom":
+      return selection.custom.from <= selection.custom.to
+        ? selection.custom
+        : { from: selection.custom.to, to: selection.custom.from };
+    default:
+      return { from: getPeriodRange(getPeriodKey(today, periodStartDay), periodStartDay).from, to: toKey(today) };
+  }
+};
+
+export const getRangeDays = (range: DateRange) =>
+  differenceInCalendarDays(parseISO(range.to), parseISO(range.from)) + 1;
+
+/** The same number of days immediately before `range`, for comparisons. */
+export const getPreviousRange = (range: DateRange): DateRange => {
+  const from = parseISO(range.from);
+  return { from: toKey(subDays(from, getRangeDays(range))), to: toKey(subDays(from, 1)) };
+};
+
+export const isInRange = (date: string, range: DateRange) => date >= range.from && date <= range.to;
+
+export const filterByRange = <T extends { date: string }>(rows: T[], range: DateRange): T[] =>
+  rows.filter((row) => isInRange(row.date, range));
+
+/** "Oct 1 – Oct 18, 2026", or a single day when the range is one. */
+export const formatRange = (range: DateRange) => {
+  const from = parseISO(range.from);
+  const to = parseISO(range.to);
+  if (range.from === range.to) return format(from, "MMM d, yyyy");
+  return from.getFullYear() === to.getFullYear()
+    ? `${format(from, "MMM d")} – ${format(to, "MMM d, yyyy")}`
+    : `${format(from, "MMM d, yyyy")} – ${format(to, "MMM d, yyyy")}`;
+};
+
+export interface RangeBucket extends DateRange {
+  label: string;
+}
+
+/**
+ * Splits a range into chart buckets: days for up to a month, weeks for up
+ * to a quarter, months beyond that. The first and last buckets are clipped
+ * to the range.
+ */
+export const getRangeBuckets = (range: DateRange): RangeBucket[] => {
+  const days = getRangeDays(range);
+  const end = parseISO(range.to);
+  const buckets: RangeBucket[] = [];
+  let cursor = parseISO(range.from);
+
+  while (cursor <= end) {
+    let bucketEnd: Date;
+    let label: string;
+    if (days <= 31) {
+      bucketEnd = cursor;
+      label = format(cursor, "MMM d");
+    } else if (days <= 92) {
+      bucketEnd = endOfWeek(cursor, WEEK_OPTIONS);
+      label = format(cursor, "MMM d");
+    } else {
+      bucketEnd = endOfMonth(cursor);
+      label = format(cursor, "MMM yyyy");
+    }
+    if (bucketEnd > end) bucketEnd = end;
+
+    buckets.push({ from: toKey(cursor), to: toKey(bucketEnd), label });
+    cursor = addDays(bucketEnd, 1);
+  }
+
+  return buckets;
+};
+
+/*
+ * Budget periods. A profile's months can start on any day from 1 to 28
+ * (e.g. the 25th, when salary arrives), so a "month" runs from that day to
+ * the day before it in the next month. A period is keyed yyyy-MM by the
+ * month it starts in, which is what budgets are stored under; with the
+ * default start day of 1 that is just the calendar month.
+ */
+
+export const MAX_PERIOD_START_DAY = 28;
+
+/** The key of the period `date` falls in. */
+export const getPeriodKey = (date: Date | string, periodStartDay: number = 1) => {
+  const day = typeof date === "string" ? parseISO(date) : date;
+  return format(day.getDate() >= periodStartDay ? day : subMonths(day, 1), "yyyy-MM");
+};
+
+export const getCurrentPeriodKey = (periodStartDay: number = 1, today: Date = new Date()) =>
+  getPeriodKey(today, periodStartDay);
+
+/** The key `count` periods after (or, when negative, before) `key`. */
+export const shiftPeriodKey = (key: string, count: number) => format(addMonths(parseISO(`${key}-01`), count), "yyyy-MM");
+
+export const getPeriodRange = (key: string, periodStartDay: number = 1): DateRange => {
+  const from = addDays(parseISO(`${key}-01`), periodStartDay - 1);
+  return { from: toKey(from), to: toKey(subDays(addMonths(from, 1), 1)) };
+};
+
+/** "Oct 2026" for calendar months, otherwise the dates, e.g. "Sep 25 – Oct 24, 2026". */
+export const formatPeriod = (key: string, periodStartDay: number = 1) =>
+  periodStartDay === 1 ? format(parseISO(`${key}-01`), "MMM yyyy") : formatRange(getPeriodRange(key, periodStartDay));
+
+/*
+ * Calendar years, for year-over-year comparisons. These ignore the period
+ * start day: a year runs January to December.
+ */
+
+/** The whole of `year`, or up to today when it is the current year. */
+export const getYearRange = (year: number, today: Date = new Date()): DateRange => {
+  const to = `${year}-12-31`;
+  return { from: `${year}-01-01`, to: toKey(today) < to ? toKey(today) : to };
+};
+
+/**
+ * The same dates a year earlier. Kept as strings, so Feb 29 maps to a
+ * "Feb 29" bound that still compares correctly in a non-leap year.
+ */
+export const getSameRangeLastYear = (range: DateRange): DateRange => {
+  const back = (date: string) => `${Number(date.slice(0, 4)) - 1}${date.slice(4)}`;
+  return { from: back(range.from), to: back(range.to) };
+};
@@ -0,0 +1,209 @@
+import { Account, CategoryDefinition, Expense } from "./types";
+import { getCategoryLabel, getParentCategory } from "./categories";
+import { paymentMethods } from "./paymentMethods";
+import { countUnconverted, getHomeAmount } from "./currency";
+import { getCategoryBreakdown, getCategoryTotals, getTotalAmount } from "./calculations";
+import { getExpenseParts, isSplit } from "./splits";
+import { buildXlsx, CellValue } from "./xlsx";
+import { format } from "date-fns";
+
+export type ExportFormat = "csv" | "json" | "xlsx";
+
+export interface ExportContext {
+  homeCurrency: string;
+  accounts: Account[];
+  categories: CategoryDefinition[];
+}
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  value: (expense: Expense, context: ExportContext) => CellValue;
+}
+
+export const exportColumns: ExportColumn[] = [
+  { key: "date", label: "Date", value: expense => expense.date },
+  { key: "description", label: "Description", value: expense => expense.description },
+  { key: "category", label: "Category", value: (expense, context) => getCategoryLabel(expense.category, context.categories) },
+  { key: "amount", label: "Amount", value: expense => expense.amount },
+  { key: "currency", label: "Currency", value: expense => expense.currency },
+  {
+    key: "homeAmount",
+    label: "Amount (home currency)",
+    // Blank when there is no rate, rather than a figure in the wrong currency.
+    value: expense => (expense.rateMissing ? null : getHomeAmount(expense)),
+  },
+  {
+    key: "paymentMethod",
+    label: "Payment method",
+    value: expense => paymentMethods.find(method => method.value === expense.paymentMethod)?.label ?? expense.paymentMethod,
+  },
+  {
+    key: "account",
+    label: "Account",
+    value: (expense, context) => context.accounts.find(account => account.id === expense.accountId)?.name ?? "",
+  },
+  { key: "tags", label: "Tags", value: expense => (expense.tags ?? []).join(", ") },
+  {
+    key: "splits",
+    label: "Split",
+    value: (expense, context) =>
+      isSplit(expense)
+        ? expense.splits!.map(split => `${getCategoryLabel(split.category, context.categories)} ${split.amount}`).join("; ")
+        : "",
+  },
+  { key: "id", label: "ID", value: expense => expense.id },
+];
+
+export const defaultExportColumns = ["date", "description", "category", "amount", "currency", "paymentMethod", "tags"];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: string[]; // Keys from exportColumns, in display order
+  includeSummary: boolean;
+}
+
+export interface SummaryLine {
+  category: string;
+  label: string;
+  count: number;
+  total: number;
+}
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Category totals in the home currency, largest first, each parent followed
+// by its subcategories.
+export const getCategorySummary = (expenses: Expense[], context: ExportContext): SummaryLine[] => {
+  const totals = getCategoryTotals(expenses, context.categories);
+  // Counted like the totals: a subcategory's expenses also count for its
+  // parent, and a split expense once for each category it touches.
+  const counts = expenses.reduce<Record<string, number>>((acc, expense) => {
+    const touched = new Set(
+      getExpenseParts(expense).flatMap(({ category }) => {
+        const parent = getParentCategory(category, context.categories);
+        return [category, ...(parent ? [parent.id] : [])];
+      })
+    );
+    touched.forEach(category => {
+      acc[category] = (acc[category] ?? 0) + 1;
+    });
+    return acc;
+  }, {});
+  const line = (category: string, amount: number): SummaryLine => ({
+    category,
+    label: getCategoryLabel(category, context.categories),
+    count: counts[category],
+    total: round(amount),
+  });
+
+  return getCategoryBreakdown(totals, context.categories).flatMap(({ category, amount }) => [
+    line(category, amount),
+    ...getCategoryBreakdown(totals, context.categories, category)
+      .filter(item => !item.direct)
+      .map(item => line(item.category, item.amount)),
+  ]);
+};
+
+// getCategorySummary as a sheet, with a grand total row.
+export const getSummaryRows = (expenses: Expense[], context: ExportContext): CellValue[][] => {
+  const unconverted = countUnconverted(expenses);
+  return [
+    ["Category", "Expenses", `Total (${context.homeCurrency})`],
+    ...getCategorySummary(expenses, context).map(({ label, count, total }) => [label, count, total]),
+    ["Total", expenses.length, round(getTotalAmount(expenses))],
+    // Counted in the rows above but not in their totals.
+    ...(unconverted > 0 ? [["Not converted (no rate)", unconverted, null]] : []),
+  ];
+};
+
+// Spreadsheets run CSV text starting with one of these as a formula, so such
+// text gets a leading apostrophe. Numbers are left alone, and XLSX needs none
+// of this: its text cells are written as strings, never as formulas.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: CellValue) => {
+  const raw = value === null || value === undefined ? "" : String(value);
+  const text = typeof value === "string" && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: CellValue[][]) => rows.map(row => row.map(csvCell).join(",")).join("\r\n");
+
+/**
+ * Builds the download for exactly the expenses given, in their current
+ * order. The summary becomes a second sheet in XLSX, a `summary` field in
+ * JSON and a trailing block after a blank line in CSV.
+ */
+export const buildExport = (
+  expenses: Expense[],
+  options: ExportOptions,
+  context: ExportContext
+): { blob: Blob; filename: string } => {
+  const columns = options.columns
+    .map(key => exportColumns.find(column => column.key === key))
+    .filter((column): column is ExportColumn => !!column);
+  const header = columns.map(column =>
+    column.key === "homeAmount" ? `Amount (${context.homeCurrency})` : column.label
+  );
+  const rows = expenses.map(expense => columns.map(column => column.value(expense, context)));
+  const summary = options.includeSummary ? getSummaryRows(expenses, context) : null;
+  const basename = `expenses-${format(new Date(), "yyyy-MM-dd")}`;
+
+  switch (options.format) {
+    case "csv": {
+      const sections = [toCsv([header, ...rows])];
+      if (summary) sections.push(toCsv(summary));
+      // Leading BOM so Excel reads the file as UTF-8 (₹, €...).
+      return {
+        blob: new Blob(["\uFEFF" + sections.join("\r\n\r\n")], { type: "text/csv;charset=utf-8" }),
+        filename: `${basename}.csv`,
+      };
+    }
+    case "json": {
+      const data = {
+        exportedAt: new Date().toISOString(),
+        homeCurrency: context.homeCurrency,
+        expenses: expenses.map(expense =>
+          Object.fromEntries(columns.map(column => [column.key, column.value(expense, context)]))
+        ),
+        ...(options.includeSummary && {
+          summary: {
+            categories: getCategorySummary(expenses, context).map(({ label, count, total }) => ({
+              category: label,
+              count,
+              total,
+            })),
+            count: expenses.length,
+            total: round(getTotalAmount(expenses)),
+            // Counted in `count` but not in any total.
+            notConverted: countUnconverted(expenses),
+          },
+        }),
+      };
+      return {
+        blob: new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }),
+        filename: `${basename}.json`,
+      };
+    }
+    case "xlsx":
+      return {
+        blob: buildXlsx([
+          { name: "Expenses", rows: [header, ...rows] },
+          ...(summary ? [{ name: "Category totals", rows: summary }] : []),
+        ]),
+        filename: `${basename}.xlsx`,
+      };
+  }
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,19 @@
+import { IncomeSource } from "./types";
+import { Briefcase, Laptop, Undo2, Landmark, Gift, MoreHorizontal, LucideIcon } from "lucide-react";
+
+export const incomeSources: {
+  value: IncomeSource;
+  label: string;
+  icon: LucideIcon;
+}[] = [
+  { value: "salary", label: "Salary", icon: Briefcase },
+  { value: "freelance", label: "Freelance", icon: Laptop },
+  { value: "refund", label: "Refund", icon: Undo2 },
+  { value: "interest", label: "Interest", icon: Landmark },
+  { value: "gift", label: "Gift", icon: Gift },
+  { value: "other", label: "Other", icon: MoreHorizontal },
+];
+
+export const getIncomeSourceInfo = (source: IncomeSource) => {
+  return incomeSources.find(s => s.value === source) || incomeSources[incomeSources.length - 1];
+};
@@ -0,0 +1,193 @@
+// Thin promise wrapper around IndexedDB used for the offline cache, the
+// outbox and the local-only storage backend.
+const DB_NAME = "pocket-insight";
+const DB_VERSION = 12;
+
+export const STORES = {
+  expenses: "expenses",
+  budgets: "budgets",
+  outbox: "outbox",
+  profiles: "profiles",
+  recurringExpenses: "recurringExpenses",
+  categoryBudgets: "categoryBudgets",
+  exchangeRates: "exchangeRates",
+  income: "income",
+  accounts: "accounts",
+  transfers: "transfers",
+  categories: "categories",
+  receipts: "receipts",
+  categoryRules: "categoryRules",
+  merchants: "merchants",
+  anomalyFeedback: "anomalyFeedback",
+} as const;
+
+export type StoreName = (typeof STORES)[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openLocalDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+
+      if (!db.objectStoreNames.contains(STORES.expenses)) {
+        const expenses = db.createObjectStore(STORES.expenses, { keyPath: "id" });
+        expenses.createIndex("userId", "userId");
+      }
+
+      if (!db.objectStoreNames.contains(STORES.budgets)) {
+        const budgets = db.createObjectStore(STORES.budgets, { keyPath: ["userId", "month"] });
+        budgets.createIndex("userId", "userId");
+      }
+
+      if (!db.objectStoreNames.contains(STORES.outbox)) {
+        const outbox = db.createObjectStore(STORES.outbox, { keyPath: "id", autoIncrement: true });
+        outbox.createIndex("userId", "userId");
+      }
+
+      if (!db.objectStoreNames.contains(STORES.profiles)) {
+        db.createObjectStore(STORES.profiles, { keyPath: "id" });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.recurringExpenses)) {
+        const recurring = db.createObjectStore(STORES.recurringExpenses, { keyPath: "id" });
+        recurring.createIndex("userId", "userId");
+      }
+
+      if (!db.objectStoreNames.contains(STORES.categoryBudgets)) {
+        const categoryBudgets = db.createObjectStore(STORES.categoryBudgets, {
+          keyPath: ["userId", "month", "category"],
+        });
+        categoryBudgets.createIndex("userId", "userId");
+      }
+
+      if (!db.objectStoreNames.contains(STORES.exchangeRates)) {
+        const exchangeRates = db.createObjectStore(STORES.exchangeRates, {
+          keyPath: ["userId", "date", "baseCurrency", "quoteCurrency"],
+        });
+        exchangeRates.createIndex("userId", "userId");
+      }
+
+      if (!db.objectStoreNames.contains(STORES.income)) {
+        const income = db.createObjectStore(STORES.income, { keyPath: "id" });
+        income.createIndex("userId", "userId");
+      }
+
+      if (!db.objectStoreNames.contains(STORES.accounts)) {
+        const accounts = db.createObjectStore(STORES.accounts, { keyPath: "id" });
+        accounts.createIndex("userId", "userId");
+      }
+
+      if (!db.objectStoreNames.contains(STORES.transfers)) {
+        const transfers = db.createObjectStore(STORES.transfers, { keyPath: "id" });
+        transfers.createIndex("userId", "userId");
+      }
+
+      // Built-in category ids ("food"...) repeat across users, so the user is part of the key.
+      if (!db.objectStoreNames.contains(STORES.categories)) {
+        const categories = db.createObjectStore(STORES.categories, { keyPath: ["userId", "id"] });
+        categories.createIndex("userId", "userId");
+      }
+
+      // Local-mode receipt files, kept alongside their description as a Blob.
+      if (!db.objectStoreNames.contains(STORES.receipts)) {
+        const receipts = db.createObjectStore(STORES.receipts, { keyPath: "id" });
+        receipts.createIndex("userId", "userId");
+      }
+
+      if (!db.objectStoreNames.contains(STORES.categoryRules)) {
+        const categoryRules = db.createObjectStore(STORES.categoryRules, { keyPath: "id" });
+        categoryRules.createIndex("userId", "userId");
+      }
+
+      if (!db.objectStoreNames.contains(STORES.merchants)) {
+        const merchants = db.createObjectStore(STORES.merchants, { keyPath: "id" });
+        merchants.createIndex("userId", "userId");
+      }
+
+      if (!db.objectStoreNames.contains(STORES.anomalyFeedback)) {
+        const anomalyFeedback = db.createObjectStore(STORES.anomalyFeedback, { keyPath: "id" });
+        anomalyFeedback.createIndex("userId", "userId");
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function getAllByUser<T>(store: StoreName, userId: string): Promise<T[]> {
+  const db = await openLocalDb();
+  const tx = db.transaction(store, "readonly");
+  return requestToPromise(tx.objectStore(store).index("userId").getAll(userId) as IDBRequest<T[]>);
+}
+
+export async function getRecord<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  const db = await openLocalDb();
+  const tx = db.transaction(store, "readonly");
+  return requestToPromise(tx.objectStore(store).get(key) as IDBRequest<T | undefined>);
+}
+
+export async function putRecords<T>(store: StoreName, records: T[]): Promise<void> {
+  if (records.length === 0) return;
+  const db = await openLocalDb();
+  const tx = db.transaction(store, "readwrite");
+  const objectStore = tx.objectStore(store);
+  records.forEach((record) => objectStore.put(record));
+  return transactionDone(tx);
+}
+
+export async function addRecord<T>(store: StoreName, record: T): Promise<IDBValidKey> {
+  const db = await openLocalDb();
+  const tx = db.transaction(store, "readwrite");
+  const key = await requestToPromise(tx.objectStore(store).add(record));
+  await transactionDone(tx);
+  return key;
+}
+
+export async function deleteRecords(store: StoreName, keys: IDBValidKey[]): Promise<void> {
+  if (keys.length === 0) return;
+  const db = await openLocalDb();
+  const tx = db.transaction(store, "readwrite");
+  const objectStore = tx.objectStore(store);
+  keys.forEach((key) => objectStore.delete(key));
+  return transactionDone(tx);
+}
+
+/**
+ * Replaces every record owned by `userId` with `records` in a single
+ * transaction, so readers never observe a half-refreshed cache.
+ */
+export async function replaceUserRecords<T>(store: StoreName, userId: string, records: T[]): Promise<void> {
+  const db = await openLocalDb();
+  const tx = db.transaction(store, "readwrite");
+  const objectStore = tx.objectStore(store);
+  const existingKeys = await requestToPromise(objectStore.index("userId").getAllKeys(userId));
+  existingKeys.forEach((key) => objectStore.delete(key));
+  records.forEach((record) => objectStore.put(record));
+  return transactionDone(tx);
+}
@@ -0,0 +1,80 @@
+import { Expense, Merchant } from "./types";
+import { getHomeAmount } from "./currency";
+
+/**
+ * Reduces a description or alias to lower-case words so spellings compare
+ * equal: "Amazon.in" → "amazon", "AMZN Mktp IN*2X4" → "amzn mktp in 2x4".
+ */
+export const normalizeMerchantText = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/\.(com|in|co|net|org)\b/g, " ")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+
+/** The merchant's name plus its aliases, normalised, without blanks or repeats. */
+export const getMerchantPatterns = (merchant: Merchant) => [
+  ...new Set([merchant.name, ...merchant.aliases].map(normalizeMerchantText).filter(Boolean)),
+];
+
+/**
+ * The merchant whose name or an alias appears as whole words in the
+ * description. When several do, the longest match wins, so "amazon pay"
+ * beats "amazon".
+ */
+export const matchMerchant = (description: string, merchants: Merchant[]): Merchant | undefined => {
+  const text = ` ${normalizeMerchantText(description)} `;
+  let best: { merchant: Merchant; length: number } | undefined;
+
+  for (const merchant of merchants) {
+    for (const pattern of getMerchantPatterns(merchant)) {
+      if (text.includes(` ${pattern} `) && (!best || pattern.length > best.length)) {
+        best = { merchant, length: pattern.length };
+      }
+    }
+  }
+
+  return best?.merchant;
+};
+
+/** The merchant picked for the expense, or failing that the one its description matches. */
+export const getExpenseMerchant = (
+  expense: Pick<Expense, "merchantId" | "description">,
+  merchants: Merchant[]
+): Merchant | undefined =>
+  expense.merchantId
+    ? merchants.find((merchant) => merchant.id === expense.merchantId)
+    : matchMerchant(expense.description, merchants);
+
+/** Another merchant already using `text` as its name or an alias, if any. */
+export const findMerchantClash = (text: string, merchants: Merchant[], exceptId?: string) => {
+  const pattern = normalizeMerchantText(text);
+  return merchants.find(
+    (merchant) => merchant.id !== exceptId && getMerchantPatterns(merchant).includes(pattern)
+  );
+};
+
+export interface MerchantStats {
+  merchant: Merchant;
+  total: number; // Home currency
+  visits: number;
+  averageTicket: number;
+}
+
+/** Spend per merchant, highest total first; expenses with no merchant are left out. */
+export const getMerchantLeaderboard = (expenses: Expense[], merchants: Merchant[]): MerchantStats[] => {
+  const byId = new Map<string, MerchantStats>();
+
+  expenses.forEach((expense) => {
+    const merchant = getExpenseMerchant(expense, merchants);
+    if (!merchant) return;
+    const stats = byId.get(merchant.id) ?? { merchant, total: 0, visits: 0, averageTicket: 0 };
+    stats.total += getHomeAmount(expense);
+    stats.visits += 1;
+    byId.set(merchant.id, stats);
+  });
+
+  return [...byId.values()]
+    .map((stats) => ({ ...stats, averageTicket: stats.total / stats.visits }))
+    .sort((a, b) => b.total - a.total || a.merchant.name.localeCompare(b.merchant.name));
+};
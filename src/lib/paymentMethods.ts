@@ -0,0 +1,8 @@
+import { PaymentMethod } from "./types";
+
+export const paymentMethods: { value: PaymentMethod; label: string }[] = [
+  { value: "cash", label: "Cash" },
+  { value: "card", label: "Card" },
+  { value: "upi", label: "UPI" },
+  { value: "bank", label: "Bank Transfer" },
+];
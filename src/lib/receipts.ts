@@ -0,0 +1,33 @@
+import { Receipt } from "./types";
+
+export const RECEIPT_MAX_BYTES = 10 * 1024 * 1024;
+
+// What the file picker offers; anything else is refused by validateReceiptFile as well.
+export const RECEIPT_ACCEPT = "image/*,application/pdf";
+
+// A receipt problem whose message can be shown to the user as is.
+export class ReceiptError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ReceiptError";
+  }
+}
+
+export const isImageReceipt = (receipt: Pick<Receipt, "mimeType">) => receipt.mimeType.startsWith("image/");
+
+/** Why `file` can't be attached, or null when it can. */
+export const validateReceiptFile = (file: File): string | null => {
+  if (!file.type.startsWith("image/") && file.type !== "application/pdf") {
+    return `${file.name} is not an image or a PDF`;
+  }
+  if (file.size > RECEIPT_MAX_BYTES) {
+    return `${file.name} is larger than ${RECEIPT_MAX_BYTES / 1024 / 1024} MB`;
+  }
+  return null;
+};
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
@@ -0,0 +1,187 @@
+import { Expense, RecurringExpense } from "./types";
+import { ExpenseRepository } from "./repository/types";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  format,
+  getDaysInMonth,
+  parseISO,
+  setDate,
+  startOfMonth,
+} from "date-fns";
+import { isSplit } from "./splits";
+
+export const frequencyOptions: { value: RecurringExpense["frequency"]; label: string }[] = [
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+  { value: "monthly", label: "Monthly" },
+  { value: "yearly", label: "Yearly" },
+  { value: "interval", label: "Every N days" },
+];
+
+const toDateKey = (date: Date) => format(date, "yyyy-MM-dd");
+
+// The n-th occurrence counted from the template's start date.
+const nthOccurrence = (template: RecurringExpense, n: number): Date => {
+  const start = parseISO(template.startDate);
+
+  switch (template.frequency) {
+    case "daily":
+      return addDays(start, n);
+    case "weekly":
+      return addWeeks(start, n);
+    case "yearly":
+      return addYears(start, n);
+    case "interval":
+      return addDays(start, n * Math.max(1, template.intervalDays ?? 1));
+    case "monthly": {
+      const month = addMonths(startOfMonth(start), n);
+      const day = template.dayOfMonth ?? start.getDate();
+      return setDate(month, Math.min(day, getDaysInMonth(month)));
+    }
+  }
+};
+
+/**
+ * Occurrence dates (YYYY-MM-DD) of a template between `from` and `to`,
+ * inclusive, clipped to the template's own start and end dates.
+ */
+export const getOccurrencesBetween = (template: RecurringExpense, from: string, to: string): string[] => {
+  const lower = from > template.startDate ? from : template.startDate;
+  const upper = template.endDate && template.endDate < to ? template.endDate : to;
+  const result: string[] = [];
+
+  for (let n = 0; ; n++) {
+    const date = toDateKey(nthOccurrence(template, n));
+    if (date > upper) break;
+    // A monthly day-of-month earlier than the start date falls before the start in month 0.
+    if (date >= lower) result.push(date);
+  }
+
+  return result;
+};
+
+export const getNextOccurrence = (template: RecurringExpense, after: Date = new Date()): string | null => {
+  const from = toDateKey(addDays(after, 1));
+  const horizon = toDateKey(addYears(after, 2));
+  return getOccurrencesBetween(template, from, horizon)[0] ?? null;
+};
+
+export const describeSchedule = (template: RecurringExpense): string => {
+  const start = parseISO(template.startDate);
+
+  switch (template.frequency) {
+    case "daily":
+      return "Every day";
+    case "weekly":
+      return `Every ${format(start, "EEEE")}`;
+    case "monthly":
+      return `Monthly on day ${template.dayOfMonth ?? start.getDate()}`;
+    case "yearly":
+      return `Every year on ${format(start, "MMM d")}`;
+    case "interval":
+      return `Every ${template.intervalDays ?? 1} days`;
+  }
+};
+
+export const buildOccurrence = (template: RecurringExpense, date: string): Omit<Expense, "id" | "createdAt"> => ({
+  date,
+  category: template.category,
+  description: template.description,
+  amount: template.amount,
+  currency: template.currency,
+  paymentMethod: template.paymentMethod,
+  accountId: template.accountId,
+  tags: template.tags,
+  recurringId: template.id,
+});
+
+/**
+ * Every template's occurrences after `after` up to `to` (both YYYY-MM-DD),
+ * as the expenses they will become. Nothing after today has been generated
+ * yet, so with `after` = today these are all still to come.
+ */
+export const getUpcomingOccurrences = (
+  templates: RecurringExpense[],
+  after: string,
+  to: string
+): Omit<Expense, "id" | "createdAt">[] => {
+  const from = toDateKey(addDays(parseISO(after), 1));
+  return templates.flatMap((template) =>
+    getOccurrencesBetween(template, from, to).map((date) => buildOccurrence(template, date))
+  );
+};
+
+/**
+ * Creates the Expense rows that have fallen due for every template, up to and
+ * including `today`. Safe to run repeatedly: each template remembers the last
+ * date it generated, and dates that already have a linked row are skipped.
+ */
+export async function materializeRecurringExpenses(
+  repository: ExpenseRepository,
+  userId: string,
+  today: Date = new Date()
+): Promise<Expense[]> {
+  const [templates, expenses] = await Promise.all([
+    repository.getRecurringExpenses(userId),
+    repository.getExpenses(userId),
+  ]);
+
+  const todayKey = toDateKey(today);
+  const existing = new Set(
+    expenses.filter((expense) => expense.recurringId).map((expense) => `${expense.recurringId}:${expense.date}`)
+  );
+  const created: Expense[] = [];
+
+  for (const template of templates) {
+    const from = template.lastGeneratedDate
+      ? toDateKey(addDays(parseISO(template.lastGeneratedDate), 1))
+      : template.startDate;
+    const due = getOccurrencesBetween(template, from, todayKey);
+    if (due.length === 0) continue;
+
+    for (const date of due) {
+      if (existing.has(`${template.id}:${date}`)) continue;
+      created.push(await repository.addExpense(userId, buildOccurrence(template, date)));
+    }
+
+    await repository.saveRecurringExpense(userId, { ...template, lastGeneratedDate: due[due.length - 1] });
+  }
+
+  return created;
+}
+
+export type TemplateFields = Pick<
+  RecurringExpense,
+  "description" | "amount" | "currency" | "category" | "paymentMethod" | "accountId" | "tags"
+>;
+
+/**
+ * Applies an edit to a template and to every occurrence already generated on
+ * or after `fromDate`, so the change carries through to all future rows.
+ */
+export async function updateFutureOccurrences(
+  repository: ExpenseRepository,
+  userId: string,
+  recurringId: string,
+  fromDate: string,
+  changes: TemplateFields
+): Promise<void> {
+  const [templates, expenses] = await Promise.all([
+    repository.getRecurringExpenses(userId),
+    repository.getExpenses(userId),
+  ]);
+
+  const template = templates.find((t) => t.id === recurringId);
+  if (!template) throw new Error("Recurring expense not found");
+
+  await repository.saveRecurringExpense(userId, { ...template, ...changes });
+
+  const affected = expenses.filter((expense) => expense.recurringId === recurringId && expense.date >= fromDate);
+  for (const expense of affected) {
+    // The template's amount and category replace any lines the occurrence was split into.
+    await repository.updateExpense(userId, expense.id, isSplit(expense) ? { ...changes, splits: undefined } : changes);
+  }
+}
@@ -0,0 +1,40 @@
+import { createLocalRepository } from "./local";
+import { createMemoryRepository } from "./memory";
+import { createOfflineRepository } from "./offline";
+import { createSupabaseRepository } from "./supabase";
+import { ExpenseRepository, StorageBackend } from "./types";
+
+export type { ExpenseRepository, NewExpense, Profile, ProfileChanges, RolloverMode, StorageBackend } from "./types";
+export { createLocalRepository, createMemoryRepository, createOfflineRepository, createSupabaseRepository };
+
+const BACKENDS: StorageBackend[] = ["supabase", "local", "memory"];
+
+/**
+ * Chooses the backend once at startup. `VITE_STORAGE_BACKEND` wins when set;
+ * otherwise Supabase is used only if a project URL is configured, so the app
+ * runs device-only with no Supabase project at all.
+ */
+export function resolveStorageBackend(env: Record<string, string | undefined> = import.meta.env): StorageBackend {
+  const requested = env.VITE_STORAGE_BACKEND as StorageBackend | undefined;
+  if (requested && BACKENDS.includes(requested)) return requested;
+  if (requested) console.warn(`Unknown VITE_STORAGE_BACKEND "${requested}", falling back to defaults`);
+  return env.VITE_SUPABASE_URL ? "supabase" : "local";
+}
+
+export function createRepository(backend: StorageBackend): ExpenseRepository {
+  switch (backend) {
+    case "supabase":
+      return createOfflineRepository(createSupabaseRepository());
+    case "local":
+      return createLocalRepository();
+    case "memory":
+      return createMemoryRepository();
+  }
+}
+
+export const storageBackend = resolveStorageBackend();
+
+// Signed-out backends use a single fixed owner for every row.
+export const LOCAL_USER_ID = "local-user";
+
+export const repository = createRepository(storageBackend);
@@ -0,0 +1,350 @@
+import {
+  Account,
+  AnomalyFeedback,
+  CategoryBudget,
+  CategoryDefinition,
+  CategoryRule,
+  ExchangeRate,
+  Expense,
+  Income,
+  Merchant,
+  MonthlyBudget,
+  Receipt,
+  RecurringExpense,
+  Transfer,
+} from "../types";
+import { DEFAULT_CURRENCY } from "../currency";
+import { STORES, deleteRecords, getAllByUser, getRecord, putRecords } from "../localDb";
+import { hasTag, removeTagFrom, renameTagIn, withTags } from "../tags";
+import { ExpenseRepository, NewExpense, Profile, ProfileChanges } from "./types";
+
+// `tag` is the single free-text tag rows had before multi-tag support; see withTags.
+type StoredExpense = Expense & { userId: string; tag?: string };
+type StoredBudget = MonthlyBudget & { userId: string };
+type StoredRecurring = RecurringExpense & { userId: string; tag?: string };
+type StoredCategoryBudget = CategoryBudget & { userId: string };
+type StoredCategory = CategoryDefinition & { userId: string };
+type StoredCategoryRule = CategoryRule & { userId: string };
+type StoredExchangeRate = ExchangeRate & { userId: string };
+type StoredIncome = Income & { userId: string };
+type StoredMerchant = Merchant & { userId: string };
+type StoredAnomalyFeedback = AnomalyFeedback & { userId: string };
+type StoredAccount = Account & { userId: string };
+type StoredTransfer = Transfer & { userId: string };
+type StoredReceipt = Receipt & { userId: string; file: Blob };
+
+const stripUser = <T extends { userId: string }>({ userId, ...rest }: T) => rest;
+
+// Rows saved before multi-currency support have no currency of their own.
+const withCurrency = <T extends { currency?: string }>(row: T) => ({ ...row, currency: row.currency ?? DEFAULT_CURRENCY });
+
+const byDateDesc = (a: Expense, b: Expense) => b.date.localeCompare(a.date);
+
+const defaultProfile = (userId: string): Profile => ({
+  id: userId,
+  displayName: null,
+  avatarUrl: null,
+  currencyPreference: "INR",
+  budgetRollover: "off",
+  periodStartDay: 1,
+  createdAt: new Date().toISOString(),
+});
+
+// Applies `update` to the tags of every expense and recurring template carrying `name`.
+const rewriteTags = async (userId: string, update: (tags: string[]) => string[], name: string) => {
+  const rewrite = <T extends { tags?: string[]; tag?: string }>(rows: T[]) =>
+    rows
+      .map(withTags)
+      .filter((row) => hasTag(row.tags, name))
+      .map((row) => {
+        const tags = update(row.tags ?? []);
+        return { ...row, tags: tags.length > 0 ? tags : undefined } as T;
+      });
+
+  const [expenses, recurring] = await Promise.all([
+    getAllByUser<StoredExpense>(STORES.expenses, userId),
+    getAllByUser<StoredRecurring>(STORES.recurringExpenses, userId),
+  ]);
+  await putRecords<StoredExpense>(STORES.expenses, rewrite(expenses));
+  await putRecords<StoredRecurring>(STORES.recurringExpenses, rewrite(recurring));
+};
+
+// Device-only backend for people who never sign in; everything lives in IndexedDB.
+export function createLocalRepository(): ExpenseRepository {
+  return {
+    backend: "local",
+
+    async getExpenses(userId: string): Promise<Expense[]> {
+      const rows = await getAllByUser<StoredExpense>(STORES.expenses, userId);
+      return rows.map(stripUser).map(withCurrency).map(withTags).sort(byDateDesc);
+    },
+
+    async addExpense(userId: string, expense: NewExpense): Promise<Expense> {
+      const created: Expense = {
+        ...expense,
+        id: expense.id ?? crypto.randomUUID(),
+        createdAt: expense.createdAt ?? new Date().toISOString(),
+      };
+      await putRecords<StoredExpense>(STORES.expenses, [{ ...created, userId }]);
+      return created;
+    },
+
+    async updateExpense(userId: string, id: string, changes: Partial<Expense>): Promise<void> {
+      const existing = await getRecord<StoredExpense>(STORES.expenses, id);
+      if (!existing || existing.userId !== userId) throw new Error("Expense not found");
+      await putRecords<StoredExpense>(STORES.expenses, [{ ...existing, ...changes, id, userId }]);
+    },
+
+    async deleteExpense(userId: string, id: string): Promise<void> {
+      const existing = await getRecord<StoredExpense>(STORES.expenses, id);
+      if (existing?.userId !== userId) return;
+
+      const receipts = await getAllByUser<StoredReceipt>(STORES.receipts, userId);
+      await deleteRecords(
+        STORES.receipts,
+        receipts.filter((receipt) => receipt.expenseId === id).map((receipt) => receipt.id)
+      );
+      const feedback = await getAllByUser<StoredAnomalyFeedback>(STORES.anomalyFeedback, userId);
+      await deleteRecords(
+        STORES.anomalyFeedback,
+        feedback.filter((entry) => entry.expenseId === id).map((entry) => entry.id)
+      );
+      await deleteRecords(STORES.expenses, [id]);
+    },
+
+    async getReceipts(userId: string): Promise<Receipt[]> {
+      const rows = await getAllByUser<StoredReceipt>(STORES.receipts, userId);
+      return rows.map(({ userId: _userId, file: _file, ...receipt }) => receipt);
+    },
+
+    async addReceipt(userId: string, expenseId: string, file: File): Promise<Receipt> {
+      const receipt: Receipt = {
+        id: crypto.randomUUID(),
+        expenseId,
+        fileName: file.name,
+        mimeType: file.type,
+        size: file.size,
+        createdAt: new Date().toISOString(),
+      };
+      await putRecords<StoredReceipt>(STORES.receipts, [{ ...receipt, userId, file }]);
+      return receipt;
+    },
+
+    async getReceiptFile(userId: string, receipt: Receipt): Promise<Blob> {
+      const row = await getRecord<StoredReceipt>(STORES.receipts, receipt.id);
+      if (!row || row.userId !== userId) throw new Error("Receipt not found");
+      return row.file;
+    },
+
+    async deleteReceipt(userId: string, receipt: Receipt): Promise<void> {
+      const row = await getRecord<StoredReceipt>(STORES.receipts, receipt.id);
+      if (row?.userId === userId) await deleteRecords(STORES.receipts, [receipt.id]);
+    },
+
+    async renameTag(userId: string, from: string, to: string): Promise<void> {
+      await rewriteTags(userId, (tags) => renameTagIn(tags, from, to), from);
+    },
+
+    async deleteTag(userId: string, name: string): Promise<void> {
+      await rewriteTags(userId, (tags) => removeTagFrom(tags, name), name);
+    },
+
+    async getBudgets(userId: string): Promise<MonthlyBudget[]> {
+      const rows = await getAllByUser<StoredBudget>(STORES.budgets, userId);
+      return rows.map(stripUser);
+    },
+
+    async saveBudget(userId: string, budget: MonthlyBudget): Promise<void> {
+      await putRecords<StoredBudget>(STORES.budgets, [{ month: budget.month, amount: budget.amount, userId }]);
+    },
+
+    async getBudgetForMonth(userId: string, month: string): Promise<MonthlyBudget | null> {
+      const row = await getRecord<StoredBudget>(STORES.budgets, [userId, month]);
+      return row ? stripUser(row) : null;
+    },
+
+    async getCategoryBudgets(userId: string, month?: string): Promise<CategoryBudget[]> {
+      const rows = await getAllByUser<StoredCategoryBudget>(STORES.categoryBudgets, userId);
+      return rows.filter((row) => !month || row.month === month).map(stripUser);
+    },
+
+    async saveCategoryBudget(userId: string, budget: CategoryBudget): Promise<void> {
+      await putRecords<StoredCategoryBudget>(STORES.categoryBudgets, [{ ...budget, userId }]);
+    },
+
+    async deleteCategoryBudget(userId: string, month: string, category: CategoryBudget["category"]): Promise<void> {
+      await deleteRecords(STORES.categoryBudgets, [[userId, month, category]]);
+    },
+
+    async getCategories(userId: string): Promise<CategoryDefinition[]> {
+      const rows = await getAllByUser<StoredCategory>(STORES.categories, userId);
+      return rows.map(stripUser).sort((a, b) => a.sortOrder - b.sortOrder);
+    },
+
+    async saveCategories(userId: string, categories: CategoryDefinition[]): Promise<void> {
+      await putRecords<StoredCategory>(
+        STORES.categories,
+        categories.map((category) => ({ ...category, userId }))
+      );
+    },
+
+    async getCategoryRules(userId: string): Promise<CategoryRule[]> {
+      const rows = await getAllByUser<StoredCategoryRule>(STORES.categoryRules, userId);
+      return rows.map(stripUser).sort((a, b) => a.sortOrder - b.sortOrder);
+    },
+
+    async saveCategoryRules(userId: string, rules: CategoryRule[]): Promise<void> {
+      await putRecords<StoredCategoryRule>(
+        STORES.categoryRules,
+        rules.map((rule) => ({ ...rule, userId }))
+      );
+    },
+
+    async deleteCategoryRule(userId: string, id: string): Promise<void> {
+      const existing = await getRecord<StoredCategoryRule>(STORES.categoryRules, id);
+      if (existing?.userId === userId) await deleteRecords(STORES.categoryRules, [id]);
+    },
+
+    async getMerchants(userId: string): Promise<Merchant[]> {
+      const rows = await getAllByUser<StoredMerchant>(STORES.merchants, userId);
+      return rows.map(stripUser).sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async saveMerchant(userId: string, merchant: Merchant): Promise<void> {
+      await putRecords<StoredMerchant>(STORES.merchants, [{ ...merchant, userId }]);
+    },
+
+    async deleteMerchant(userId: string, id: string): Promise<void> {
+      const existing = await getRecord<StoredMerchant>(STORES.merchants, id);
+      if (existing?.userId !== userId) return;
+
+      const expenses = await getAllByUser<StoredExpense>(STORES.expenses, userId);
+      await putRecords<StoredExpense>(
+        STORES.expenses,
+        expenses.filter((expense) => expense.merchantId === id).map((expense) => ({ ...expense, merchantId: undefined }))
+      );
+      await deleteRecords(STORES.merchants, [id]);
+    },
+
+    async getAnomalyFeedback(userId: string): Promise<AnomalyFeedback[]> {
+      const rows = await getAllByUser<StoredAnomalyFeedback>(STORES.anomalyFeedback, userId);
+      return rows.map(stripUser).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    async saveAnomalyFeedback(userId: string, feedback: AnomalyFeedback): Promise<void> {
+      await putRecords<StoredAnomalyFeedback>(STORES.anomalyFeedback, [{ ...feedback, userId }]);
+    },
+
+    async deleteAnomalyFeedback(userId: string, id: string): Promise<void> {
+      const existing = await getRecord<StoredAnomalyFeedback>(STORES.anomalyFeedback, id);
+      if (existing?.userId === userId) await deleteRecords(STORES.anomalyFeedback, [id]);
+    },
+
+    async getIncome(userId: string): Promise<Income[]> {
+      const rows = await getAllByUser<StoredIncome>(STORES.income, userId);
+      return rows.map(stripUser).sort((a, b) => b.date.localeCompare(a.date));
+    },
+
+    async saveIncome(userId: string, income: Income): Promise<void> {
+      await putRecords<StoredIncome>(STORES.income, [{ ...income, userId }]);
+    },
+
+    async deleteIncome(userId: string, id: string): Promise<void> {
+      const existing = await getRecord<StoredIncome>(STORES.income, id);
+      if (existing?.userId === userId) await deleteRecords(STORES.income, [id]);
+    },
+
+    async getAccounts(userId: string): Promise<Account[]> {
+      const rows = await getAllByUser<StoredAccount>(STORES.accounts, userId);
+      return rows.map(stripUser).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    async saveAccount(userId: string, account: Account): Promise<void> {
+      await putRecords<StoredAccount>(STORES.accounts, [{ ...account, userId }]);
+    },
+
+    // Mirrors the Supabase foreign keys: charges and templates are unlinked, transfers go with the account.
+    async deleteAccount(userId: string, id: string): Promise<void> {
+      const existing = await getRecord<StoredAccount>(STORES.accounts, id);
+      if (existing?.userId !== userId) return;
+
+      const [expenses, income, recurring, transfers] = await Promise.all([
+        getAllByUser<StoredExpense>(STORES.expenses, userId),
+        getAllByUser<StoredIncome>(STORES.income, userId),
+        getAllByUser<StoredRecurring>(STORES.recurringExpenses, userId),
+        getAllByUser<StoredTransfer>(STORES.transfers, userId),
+      ]);
+      await putRecords<StoredExpense>(
+        STORES.expenses,
+        expenses.filter((expense) => expense.accountId === id).map((expense) => ({ ...expense, accountId: undefined }))
+      );
+      await putRecords<StoredIncome>(
+        STORES.income,
+        income.filter((entry) => entry.accountId === id).map((entry) => ({ ...entry, accountId: undefined }))
+      );
+      await putRecords<StoredRecurring>(
+        STORES.recurringExpenses,
+        recurring.filter((template) => template.accountId === id).map((template) => ({ ...template, accountId: undefined }))
+      );
+      await deleteRecords(
+        STORES.transfers,
+        transfers.filter((transfer) => transfer.fromAccountId === id || transfer.toAccountId === id).map((t) => t.id)
+      );
+      await deleteRecords(STORES.accounts, [id]);
+    },
+
+    async getTransfers(userId: string): Promise<Transfer[]> {
+      const rows = await getAllByUser<StoredTransfer>(STORES.transfers, userId);
+      return rows.map(stripUser).sort((a, b) => b.date.localeCompare(a.date));
+    },
+
+    async saveTransfer(userId: string, transfer: Transfer): Promise<void> {
+      await putRecords<StoredTransfer>(STORES.transfers, [{ ...transfer, userId }]);
+    },
+
+    async deleteTransfer(userId: string, id: string): Promise<void> {
+      const existing = await getRecord<StoredTransfer>(STORES.transfers, id);
+      if (existing?.userId === userId) await deleteRecords(STORES.transfers, [id]);
+    },
+
+    async getExchangeRates(userId: string): Promise<ExchangeRate[]> {
+      const rows = await getAllByUser<StoredExchangeRate>(STORES.exchangeRates, userId);
+      return rows.map(stripUser).sort((a, b) => b.date.localeCompare(a.date));
+    },
+
+    async saveExchangeRates(userId: string, rates: ExchangeRate[]): Promise<void> {
+      await putRecords<StoredExchangeRate>(
+        STORES.exchangeRates,
+        rates.map((rate) => ({ ...rate, userId }))
+      );
+    },
+
+    async deleteExchangeRate(userId: string, rate: ExchangeRate): Promise<void> {
+      await deleteRecords(STORES.exchangeRates, [[userId, rate.date, rate.baseCurrency, rate.quoteCurrency]]);
+    },
+
+    async getRecurringExpenses(userId: string): Promise<RecurringExpense[]> {
+      const rows = await getAllByUser<StoredRecurring>(STORES.recurringExpenses, userId);
+      return rows.map(stripUser).map(withCurrency).map(withTags);
+    },
+
+    async saveRecurringExpense(userId: string, template: RecurringExpense): Promise<void> {
+      await putRecords<StoredRecurring>(STORES.recurringExpenses, [{ ...template, userId }]);
+    },
+
+    async deleteRecurringExpense(userId: string, id: string): Promise<void> {
+      const existing = await getRecord<StoredRecurring>(STORES.recurringExpenses, id);
+      if (existing?.userId === userId) await deleteRecords(STORES.recurringExpenses, [id]);
+    },
+
+    async getProfile(userId: string): Promise<Profile | null> {
+      const stored = await getRecord<Profile>(STORES.profiles, userId);
+      return { ...defaultProfile(userId), ...stored };
+    },
+
+    async updateProfile(userId: string, changes: ProfileChanges): Promise<void> {
+      const existing = (await getRecord<Profile>(STORES.profiles, userId)) ?? defaultProfile(userId);
+      await putRecords<Profile>(STORES.profiles, [{ ...existing, ...changes, id: userId }]);
+    },
+  };
+}
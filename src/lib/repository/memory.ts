@@ -0,0 +1,340 @@
+import {
+  Account,
+  AnomalyFeedback,
+  CategoryBudget,
+  CategoryDefinition,
+  CategoryRule,
+  ExchangeRate,
+  Expense,
+  Income,
+  Merchant,
+  MonthlyBudget,
+  Receipt,
+  RecurringExpense,
+  Transfer,
+} from "../types";
+import { hasTag, removeTagFrom, renameTagIn } from "../tags";
+import { ExpenseRepository, NewExpense, Profile, ProfileChanges } from "./types";
+
+export interface MemorySeed {
+  expenses?: Record<string, Expense[]>;
+  budgets?: Record<string, MonthlyBudget[]>;
+  categoryBudgets?: Record<string, CategoryBudget[]>;
+  categories?: Record<string, CategoryDefinition[]>;
+  categoryRules?: Record<string, CategoryRule[]>;
+  recurringExpenses?: Record<string, RecurringExpense[]>;
+  exchangeRates?: Record<string, ExchangeRate[]>;
+  income?: Record<string, Income[]>;
+  merchants?: Record<string, Merchant[]>;
+  anomalyFeedback?: Record<string, AnomalyFeedback[]>;
+  accounts?: Record<string, Account[]>;
+  transfers?: Record<string, Transfer[]>;
+  profiles?: Profile[];
+}
+
+const byDateDesc = (a: Expense, b: Expense) => b.date.localeCompare(a.date);
+
+const defaultProfile = (userId: string): Profile => ({
+  id: userId,
+  displayName: null,
+  avatarUrl: null,
+  currencyPreference: "INR",
+  budgetRollover: "off",
+  periodStartDay: 1,
+  createdAt: new Date().toISOString(),
+});
+
+/**
+ * Non-persistent backend for demos and tests. Data lives for the lifetime of
+ * the page; pass a seed to start from a known state.
+ */
+export function createMemoryRepository(seed: MemorySeed = {}): ExpenseRepository {
+  const expenses = new Map<string, Expense[]>(Object.entries(seed.expenses ?? {}));
+  const budgets = new Map<string, MonthlyBudget[]>(Object.entries(seed.budgets ?? {}));
+  const categoryBudgets = new Map<string, CategoryBudget[]>(Object.entries(seed.categoryBudgets ?? {}));
+  const categories = new Map<string, CategoryDefinition[]>(Object.entries(seed.categories ?? {}));
+  const categoryRules = new Map<string, CategoryRule[]>(Object.entries(seed.categoryRules ?? {}));
+  const recurringExpenses = new Map<string, RecurringExpense[]>(Object.entries(seed.recurringExpenses ?? {}));
+  const exchangeRates = new Map<string, ExchangeRate[]>(Object.entries(seed.exchangeRates ?? {}));
+  const income = new Map<string, Income[]>(Object.entries(seed.income ?? {}));
+  const merchants = new Map<string, Merchant[]>(Object.entries(seed.merchants ?? {}));
+  const anomalyFeedback = new Map<string, AnomalyFeedback[]>(Object.entries(seed.anomalyFeedback ?? {}));
+  const accounts = new Map<string, Account[]>(Object.entries(seed.accounts ?? {}));
+  const transfers = new Map<string, Transfer[]>(Object.entries(seed.transfers ?? {}));
+  // Not seedable: files only come from the page's own uploads.
+  const receipts = new Map<string, { receipt: Receipt; file: Blob }[]>();
+  const profiles = new Map<string, Profile>((seed.profiles ?? []).map((profile) => [profile.id, profile]));
+
+  const expensesFor = (userId: string) => expenses.get(userId) ?? [];
+  const budgetsFor = (userId: string) => budgets.get(userId) ?? [];
+  const categoryBudgetsFor = (userId: string) => categoryBudgets.get(userId) ?? [];
+  const categoriesFor = (userId: string) => categories.get(userId) ?? [];
+  const rulesFor = (userId: string) => categoryRules.get(userId) ?? [];
+  const recurringFor = (userId: string) => recurringExpenses.get(userId) ?? [];
+  const incomeFor = (userId: string) => income.get(userId) ?? [];
+  const merchantsFor = (userId: string) => merchants.get(userId) ?? [];
+  const feedbackFor = (userId: string) => anomalyFeedback.get(userId) ?? [];
+  const accountsFor = (userId: string) => accounts.get(userId) ?? [];
+  const transfersFor = (userId: string) => transfers.get(userId) ?? [];
+  const receiptsFor = (userId: string) => receipts.get(userId) ?? [];
+  const ratesFor = (userId: string) => exchangeRates.get(userId) ?? [];
+  const sameRate = (a: ExchangeRate, b: ExchangeRate) =>
+    a.date === b.date && a.baseCurrency === b.baseCurrency && a.quoteCurrency === b.quoteCurrency;
+
+  // Applies `update` to the tags of every expense and recurring template carrying `name`.
+  const rewriteTags = (userId: string, update: (tags: string[]) => string[], name: string) => {
+    const rewrite = <T extends { tags?: string[] }>(row: T): T => {
+      if (!hasTag(row.tags, name)) return row;
+      const tags = update(row.tags ?? []);
+      return { ...row, tags: tags.length > 0 ? tags : undefined };
+    };
+    expenses.set(userId, expensesFor(userId).map(rewrite));
+    recurringExpenses.set(userId, recurringFor(userId).map(rewrite));
+  };
+
+  return {
+    backend: "memory",
+
+    async getExpenses(userId: string): Promise<Expense[]> {
+      return [...expensesFor(userId)].sort(byDateDesc);
+    },
+
+    async addExpense(userId: string, expense: NewExpense): Promise<Expense> {
+      const created: Expense = {
+        ...expense,
+        id: expense.id ?? crypto.randomUUID(),
+        createdAt: expense.createdAt ?? new Date().toISOString(),
+      };
+      expenses.set(userId, [...expensesFor(userId), created]);
+      return created;
+    },
+
+    async updateExpense(userId: string, id: string, changes: Partial<Expense>): Promise<void> {
+      const rows = expensesFor(userId);
+      if (!rows.some((expense) => expense.id === id)) throw new Error("Expense not found");
+      expenses.set(
+        userId,
+        rows.map((expense) => (expense.id === id ? { ...expense, ...changes, id } : expense))
+      );
+    },
+
+    async deleteExpense(userId: string, id: string): Promise<void> {
+      expenses.set(userId, expensesFor(userId).filter((expense) => expense.id !== id));
+      receipts.set(userId, receiptsFor(userId).filter(({ receipt }) => receipt.expenseId !== id));
+      anomalyFeedback.set(userId, feedbackFor(userId).filter((entry) => entry.expenseId !== id));
+    },
+
+    async getReceipts(userId: string): Promise<Receipt[]> {
+      return receiptsFor(userId).map(({ receipt }) => receipt);
+    },
+
+    async addReceipt(userId: string, expenseId: string, file: File): Promise<Receipt> {
+      const receipt: Receipt = {
+        id: crypto.randomUUID(),
+        expenseId,
+        fileName: file.name,
+        mimeType: file.type,
+        size: file.size,
+        createdAt: new Date().toISOString(),
+      };
+      receipts.set(userId, [...receiptsFor(userId), { receipt, file }]);
+      return receipt;
+    },
+
+    async getReceiptFile(userId: string, receipt: Receipt): Promise<Blob> {
+      const entry = receiptsFor(userId).find((other) => other.receipt.id === receipt.id);
+      if (!entry) throw new Error("Receipt not found");
+      return entry.file;
+    },
+
+    async deleteReceipt(userId: string, receipt: Receipt): Promise<void> {
+      receipts.set(userId, receiptsFor(userId).filter((other) => other.receipt.id !== receipt.id));
+    },
+
+    async renameTag(userId: string, from: string, to: string): Promise<void> {
+      rewriteTags(userId, (tags) => renameTagIn(tags, from, to), from);
+    },
+
+    async deleteTag(userId: string, name: string): Promise<void> {
+      rewriteTags(userId, (tags) => removeTagFrom(tags, name), name);
+    },
+
+    async getBudgets(userId: string): Promise<MonthlyBudget[]> {
+      return [...budgetsFor(userId)];
+    },
+
+    async saveBudget(userId: string, budget: MonthlyBudget): Promise<void> {
+      budgets.set(userId, [
+        ...budgetsFor(userId).filter((existing) => existing.month !== budget.month),
+        { month: budget.month, amount: budget.amount },
+      ]);
+    },
+
+    async getBudgetForMonth(userId: string, month: string): Promise<MonthlyBudget | null> {
+      return budgetsFor(userId).find((budget) => budget.month === month) ?? null;
+    },
+
+    async getCategoryBudgets(userId: string, month?: string): Promise<CategoryBudget[]> {
+      return categoryBudgetsFor(userId).filter((budget) => !month || budget.month === month);
+    },
+
+    async saveCategoryBudget(userId: string, budget: CategoryBudget): Promise<void> {
+      categoryBudgets.set(userId, [
+        ...categoryBudgetsFor(userId).filter(
+          (existing) => existing.month !== budget.month || existing.category !== budget.category
+        ),
+        budget,
+      ]);
+    },
+
+    async deleteCategoryBudget(userId: string, month: string, category: CategoryBudget["category"]): Promise<void> {
+      categoryBudgets.set(
+        userId,
+        categoryBudgetsFor(userId).filter((budget) => budget.month !== month || budget.category !== category)
+      );
+    },
+
+    async getCategories(userId: string): Promise<CategoryDefinition[]> {
+      return [...categoriesFor(userId)].sort((a, b) => a.sortOrder - b.sortOrder);
+    },
+
+    async saveCategories(userId: string, changed: CategoryDefinition[]): Promise<void> {
+      const ids = new Set(changed.map((category) => category.id));
+      categories.set(userId, [...categoriesFor(userId).filter((existing) => !ids.has(existing.id)), ...changed]);
+    },
+
+    async getCategoryRules(userId: string): Promise<CategoryRule[]> {
+      return [...rulesFor(userId)].sort((a, b) => a.sortOrder - b.sortOrder);
+    },
+
+    async saveCategoryRules(userId: string, rules: CategoryRule[]): Promise<void> {
+      const ids = new Set(rules.map((rule) => rule.id));
+      categoryRules.set(userId, [...rulesFor(userId).filter((rule) => !ids.has(rule.id)), ...rules]);
+    },
+
+    async deleteCategoryRule(userId: string, id: string): Promise<void> {
+      categoryRules.set(userId, rulesFor(userId).filter((rule) => rule.id !== id));
+    },
+
+    async getMerchants(userId: string): Promise<Merchant[]> {
+      return [...merchantsFor(userId)].sort((a, b) => a.name.localeCompare(b.name));
+    },
+
+    async saveMerchant(userId: string, merchant: Merchant): Promise<void> {
+      merchants.set(userId, [...merchantsFor(userId).filter((existing) => existing.id !== merchant.id), merchant]);
+    },
+
+    async deleteMerchant(userId: string, id: string): Promise<void> {
+      merchants.set(userId, merchantsFor(userId).filter((merchant) => merchant.id !== id));
+      expenses.set(
+        userId,
+        expensesFor(userId).map((expense) => (expense.merchantId === id ? { ...expense, merchantId: undefined } : expense))
+      );
+    },
+
+    async getAnomalyFeedback(userId: string): Promise<AnomalyFeedback[]> {
+      return [...feedbackFor(userId)].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    async saveAnomalyFeedback(userId: string, feedback: AnomalyFeedback): Promise<void> {
+      anomalyFeedback.set(userId, [...feedbackFor(userId).filter((entry) => entry.id !== feedback.id), feedback]);
+    },
+
+    async deleteAnomalyFeedback(userId: string, id: string): Promise<void> {
+      anomalyFeedback.set(userId, feedbackFor(userId).filter((entry) => entry.id !== id));
+    },
+
+    async getIncome(userId: string): Promise<Income[]> {
+      return [...incomeFor(userId)].sort((a, b) => b.date.localeCompare(a.date));
+    },
+
+    async saveIncome(userId: string, entry: Income): Promise<void> {
+      income.set(userId, [...incomeFor(userId).filter((existing) => existing.id !== entry.id), entry]);
+    },
+
+    async deleteIncome(userId: string, id: string): Promise<void> {
+      income.set(userId, incomeFor(userId).filter((entry) => entry.id !== id));
+    },
+
+    async getAccounts(userId: string): Promise<Account[]> {
+      return [...accountsFor(userId)].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    },
+
+    async saveAccount(userId: string, account: Account): Promise<void> {
+      accounts.set(userId, [...accountsFor(userId).filter((existing) => existing.id !== account.id), account]);
+    },
+
+    async deleteAccount(userId: string, id: string): Promise<void> {
+      accounts.set(userId, accountsFor(userId).filter((account) => account.id !== id));
+      expenses.set(
+        userId,
+        expensesFor(userId).map((expense) => (expense.accountId === id ? { ...expense, accountId: undefined } : expense))
+      );
+      income.set(
+        userId,
+        incomeFor(userId).map((entry) => (entry.accountId === id ? { ...entry, accountId: undefined } : entry))
+      );
+      recurringExpenses.set(
+        userId,
+        recurringFor(userId).map((template) =>
+          template.accountId === id ? { ...template, accountId: undefined } : template
+        )
+      );
+      transfers.set(
+        userId,
+        transfersFor(userId).filter((transfer) => transfer.fromAccountId !== id && transfer.toAccountId !== id)
+      );
+    },
+
+    async getTransfers(userId: string): Promise<Transfer[]> {
+      return [...transfersFor(userId)].sort((a, b) => b.date.localeCompare(a.date));
+    },
+
+    async saveTransfer(userId: string, transfer: Transfer): Promise<void> {
+      transfers.set(userId, [...transfersFor(userId).filter((existing) => existing.id !== transfer.id), transfer]);
+    },
+
+    async deleteTransfer(userId: string, id: string): Promise<void> {
+      transfers.set(userId, transfersFor(userId).filter((transfer) => transfer.id !== id));
+    },
+
+    async getExchangeRates(userId: string): Promise<ExchangeRate[]> {
+      return [...ratesFor(userId)].sort((a, b) => b.date.localeCompare(a.date));
+    },
+
+    async saveExchangeRates(userId: string, rates: ExchangeRate[]): Promise<void> {
+      exchangeRates.set(userId, [
+        ...ratesFor(userId).filter((existing) => !rates.some((rate) => sameRate(existing, rate))),
+        ...rates,
+      ]);
+    },
+
+    async deleteExchangeRate(userId: string, rate: ExchangeRate): Promise<void> {
+      exchangeRates.set(userId, ratesFor(userId).filter((existing) => !sameRate(existing, rate)));
+    },
+
+    async getRecurringExpenses(userId: string): Promise<RecurringExpense[]> {
+      return [...recurringFor(userId)];
+    },
+
+    async saveRecurringExpense(userId: string, template: RecurringExpense): Promise<void> {
+      recurringExpenses.set(userId, [
+        ...recurringFor(userId).filter((existing) => existing.id !== template.id),
+        template,
+      ]);
+    },
+
+    async deleteRecurringExpense(userId: string, id: string): Promise<void> {
+      recurringExpenses.set(userId, recurringFor(userId).filter((template) => template.id !== id));
+    },
+
+    async getProfile(userId: string): Promise<Profile | null> {
+      return profiles.get(userId) ?? defaultProfile(userId);
+    },
+
+    async updateProfile(userId: string, changes: ProfileChanges): Promise<void> {
+      const existing = profiles.get(userId) ?? defaultProfile(userId);
+      profiles.set(userId, { ...existing, ...changes, id: userId });
+    },
+  };
+}
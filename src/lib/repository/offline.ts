@@ -0,0 +1,298 @@
+import {
+  AnomalyFeedback,
+  CategoryDefinition,
+  CategoryRule,
+  ExchangeRate,
+  Expense,
+  Merchant,
+  MonthlyBudget,
+  Receipt,
+} from "../types";
+import { DEFAULT_CURRENCY } from "../currency";
+import { STORES, deleteRecords, getAllByUser, getRecord, putRecords, replaceUserRecords } from "../localDb";
+import {
+  CachedBudget,
+  CachedExpense,
+  discardUnsyncedExpense,
+  enqueue,
+  flushOutbox,
+  getEntityKey,
+  getOutbox,
+  isNetworkError,
+  notifySyncListeners,
+} from "../syncQueue";
+import { ReceiptError } from "../receipts";
+import { hasTag, removeTagFrom, renameTagIn, withTags } from "../tags";
+import { ExpenseRepository, NewExpense, Profile } from "./types";
+
+const stripUser = <T extends { userId: string }>({ userId, ...rest }: T) => rest;
+
+const byDateDesc = (a: Expense, b: Expense) => b.date.localeCompare(a.date);
+
+const rewriteCachedTags = async (userId: string, update: (tags: string[]) => string[], name: string) => {
+  const cached = await getAllByUser<CachedExpense>(STORES.expenses, userId);
+  const changed = cached
+    .map(withTags)
+    .filter((expense) => hasTag(expense.tags, name))
+    .map((expense) => {
+      const tags = update(expense.tags ?? []);
+      return { ...expense, tags: tags.length > 0 ? tags : undefined };
+    });
+  await putRecords<CachedExpense>(STORES.expenses, changed);
+};
+
+/**
+ * Wraps a remote backend with the IndexedDB cache: reads and writes go to the
+ * cache first and reach `remote` through the outbox. Anything not overridden
+ * here is passed straight through to `remote`.
+ */
+export function createOfflineRepository(remote: ExpenseRepository): ExpenseRepository {
+  // Fire-and-forget replay; failures are recorded on the outbox entries themselves.
+  const scheduleFlush = (userId: string) => {
+    flushOutbox(userId, remote).catch((error) => console.error("Sync error:", error));
+  };
+
+  return {
+    ...remote,
+
+    async getExpenses(userId: string): Promise<Expense[]> {
+      const cached = await getAllByUser<CachedExpense>(STORES.expenses, userId);
+      // Rows cached before multi-currency support have no currency of their own.
+      return cached
+        .map((expense) => withTags({ ...stripUser(expense), currency: expense.currency ?? DEFAULT_CURRENCY }))
+        .sort(byDateDesc);
+    },
+
+    async addExpense(userId: string, expense: NewExpense): Promise<Expense> {
+      const created: Expense = {
+        ...expense,
+        id: expense.id ?? crypto.randomUUID(),
+        createdAt: expense.createdAt ?? new Date().toISOString(),
+      };
+
+      await putRecords<CachedExpense>(STORES.expenses, [{ ...created, userId, syncStatus: "pending" }]);
+      await enqueue(userId, { entity: "expense", op: "add", payload: created });
+      scheduleFlush(userId);
+
+      return { ...created, syncStatus: "pending" };
+    },
+
+    async updateExpense(userId: string, id: string, changes: Partial<Expense>): Promise<void> {
+      const cached = await getRecord<CachedExpense>(STORES.expenses, id);
+      if (cached) {
+        await putRecords<CachedExpense>(STORES.expenses, [{ ...cached, ...changes, id, userId, syncStatus: "pending" }]);
+      }
+
+      await enqueue(userId, { entity: "expense", op: "update", payload: { id, changes } });
+      scheduleFlush(userId);
+    },
+
+    async deleteExpense(userId: string, id: string): Promise<void> {
+      await deleteRecords(STORES.expenses, [id]);
+
+      const onlyLocal = await discardUnsyncedExpense(userId, id);
+      if (!onlyLocal) {
+        await enqueue(userId, { entity: "expense", op: "delete", payload: { id } });
+        scheduleFlush(userId);
+      }
+    },
+
+    // Merchant edits need the server too; expenses cached at a deleted merchant lose it right away.
+    async deleteMerchant(userId: string, id: string): Promise<void> {
+      await remote.deleteMerchant(userId, id);
+      const cached = await getAllByUser<CachedExpense>(STORES.expenses, userId);
+      await putRecords<CachedExpense>(
+        STORES.expenses,
+        cached.filter((expense) => expense.merchantId === id).map((expense) => ({ ...expense, merchantId: undefined }))
+      );
+    },
+
+    // Likewise for accounts: the server unlinks the charges, the cache follows right away.
+    async deleteAccount(userId: string, id: string): Promise<void> {
+      await remote.deleteAccount(userId, id);
+      const cached = await getAllByUser<CachedExpense>(STORES.expenses, userId);
+      await putRecords<CachedExpense>(
+        STORES.expenses,
+        cached.filter((expense) => expense.accountId === id).map((expense) => ({ ...expense, accountId: undefined }))
+      );
+    },
+
+    // Files aren't queued; the expense is pushed first so the receipt row has something to point at.
+    async addReceipt(userId: string, expenseId: string, file: File): Promise<Receipt> {
+      const flush = await flushOutbox(userId, remote);
+      if (flush.offline) throw new ReceiptError("You're offline. Receipts can be attached once you're back online.");
+      return remote.addReceipt(userId, expenseId, file);
+    },
+
+    // Tag changes need the server, like category edits; the cache is updated to match right away.
+    async renameTag(userId: string, from: string, to: string): Promise<void> {
+      await remote.renameTag(userId, from, to);
+      await rewriteCachedTags(userId, (tags) => renameTagIn(tags, from, to), from);
+    },
+
+    async deleteTag(userId: string, name: string): Promise<void> {
+      await remote.deleteTag(userId, name);
+      await rewriteCachedTags(userId, (tags) => removeTagFrom(tags, name), name);
+    },
+
+    async getBudgets(userId: string): Promise<MonthlyBudget[]> {
+      const cached = await getAllByUser<CachedBudget>(STORES.budgets, userId);
+      return cached.map(stripUser);
+    },
+
+    async saveBudget(userId: string, budget: MonthlyBudget): Promise<void> {
+      await putRecords<CachedBudget>(STORES.budgets, [{ ...budget, userId, syncStatus: "pending" }]);
+      await enqueue(userId, { entity: "budget", op: "save", payload: { month: budget.month, amount: budget.amount } });
+      scheduleFlush(userId);
+    },
+
+    async getBudgetForMonth(userId: string, month: string): Promise<MonthlyBudget | null> {
+      const cached = await getRecord<CachedBudget>(STORES.budgets, [userId, month]);
+      return cached ? stripUser(cached) : null;
+    },
+
+    // Profiles are read-through: the last copy fetched is served while offline.
+    async getProfile(userId: string): Promise<Profile | null> {
+      try {
+        const profile = await remote.getProfile(userId);
+        if (profile) await putRecords<Profile>(STORES.profiles, [profile]);
+        return profile;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        return (await getRecord<Profile>(STORES.profiles, userId)) ?? null;
+      }
+    },
+
+    // Rates are read-through as well, so totals still convert while offline.
+    async getExchangeRates(userId: string): Promise<ExchangeRate[]> {
+      try {
+        const rates = await remote.getExchangeRates(userId);
+        await replaceUserRecords(
+          STORES.exchangeRates,
+          userId,
+          rates.map((rate) => ({ ...rate, userId }))
+        );
+        return rates;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        const cached = await getAllByUser<ExchangeRate & { userId: string }>(STORES.exchangeRates, userId);
+        return cached.map(stripUser);
+      }
+    },
+
+    // And categories, so charts and pickers keep the user's names and colours offline.
+    async getCategories(userId: string): Promise<CategoryDefinition[]> {
+      try {
+        const categories = await remote.getCategories(userId);
+        await replaceUserRecords(
+          STORES.categories,
+          userId,
+          categories.map((category) => ({ ...category, userId }))
+        );
+        return categories;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        const cached = await getAllByUser<CategoryDefinition & { userId: string }>(STORES.categories, userId);
+        return cached.map(stripUser).sort((a, b) => a.sortOrder - b.sortOrder);
+      }
+    },
+
+    // Rules too, so new expenses are still categorised offline.
+    async getCategoryRules(userId: string): Promise<CategoryRule[]> {
+      try {
+        const rules = await remote.getCategoryRules(userId);
+        await replaceUserRecords(
+          STORES.categoryRules,
+          userId,
+          rules.map((rule) => ({ ...rule, userId }))
+        );
+        return rules;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        const cached = await getAllByUser<CategoryRule & { userId: string }>(STORES.categoryRules, userId);
+        return cached.map(stripUser).sort((a, b) => a.sortOrder - b.sortOrder);
+      }
+    },
+
+    // And merchants, so descriptions still resolve to one offline.
+    async getMerchants(userId: string): Promise<Merchant[]> {
+      try {
+        const merchants = await remote.getMerchants(userId);
+        await replaceUserRecords(
+          STORES.merchants,
+          userId,
+          merchants.map((merchant) => ({ ...merchant, userId }))
+        );
+        return merchants;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        const cached = await getAllByUser<Merchant & { userId: string }>(STORES.merchants, userId);
+        return cached.map(stripUser).sort((a, b) => a.name.localeCompare(b.name));
+      }
+    },
+
+    // And anomaly feedback, so flags already answered stay hidden offline.
+    async getAnomalyFeedback(userId: string): Promise<AnomalyFeedback[]> {
+      try {
+        const feedback = await remote.getAnomalyFeedback(userId);
+        await replaceUserRecords(
+          STORES.anomalyFeedback,
+          userId,
+          feedback.map((entry) => ({ ...entry, userId }))
+        );
+        return feedback;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        const cached = await getAllByUser<AnomalyFeedback & { userId: string }>(STORES.anomalyFeedback, userId);
+        return cached.map(stripUser).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+      }
+    },
+
+    /**
+     * Pushes queued changes, then refreshes the cache from the remote. Rows
+     * with operations still in the outbox keep their local version so unsynced
+     * edits are never overwritten by stale server data, and rows deleted
+     * offline stay deleted.
+     */
+    async sync(userId: string): Promise<{ offline: boolean }> {
+      const flush = await flushOutbox(userId, remote);
+      if (flush.offline) return { offline: true };
+
+      try {
+        const [remoteExpenses, remoteBudgets] = await Promise.all([
+          remote.getExpenses(userId),
+          remote.getBudgets(userId),
+        ]);
+
+        const pending = await getOutbox(userId);
+        const pendingKeys = new Set(pending.map(getEntityKey));
+        const [localExpenses, localBudgets] = await Promise.all([
+          getAllByUser<CachedExpense>(STORES.expenses, userId),
+          getAllByUser<CachedBudget>(STORES.budgets, userId),
+        ]);
+
+        const expenses: CachedExpense[] = [
+          ...remoteExpenses
+            .filter((expense) => !pendingKeys.has(`expense:${expense.id}`))
+            .map((expense) => ({ ...expense, userId, syncStatus: "synced" as const })),
+          ...localExpenses.filter((expense) => pendingKeys.has(`expense:${expense.id}`)),
+        ];
+        const budgets: CachedBudget[] = [
+          ...remoteBudgets
+            .filter((budget) => !pendingKeys.has(`budget:${budget.month}`))
+            .map((budget) => ({ ...budget, userId, syncStatus: "synced" as const })),
+          ...localBudgets.filter((budget) => pendingKeys.has(`budget:${budget.month}`)),
+        ];
+
+        await replaceUserRecords(STORES.expenses, userId, expenses);
+        await replaceUserRecords(STORES.budgets, userId, budgets);
+        notifySyncListeners();
+
+        return { offline: false };
+      } catch (error) {
+        if (isNetworkError(error)) return { offline: true };
+        throw error;
+      }
+    },
+  };
+}
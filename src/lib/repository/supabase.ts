@@ -0,0 +1,948 @@
+import {
+  Account,
+  AnomalyFeedback,
+  CategoryBudget,
+  CategoryDefinition,
+  CategoryRule,
+  ExchangeRate,
+  Expense,
+  ExpenseSplit,
+  Income,
+  Merchant,
+  MonthlyBudget,
+  Receipt,
+  RecurringExpense,
+  Transfer,
+} from "../types";
+import { uniqueTags } from "../tags";
+import { Json } from "@/integrations/supabase/types";
+import { ExpenseRepository, NewExpense, Profile, ProfileChanges } from "./types";
+
+// Loaded lazily so the app can boot without Supabase credentials when another backend is selected.
+export const getSupabaseClient = () =>
+  import("@/integrations/supabase/client").then((module) => module.supabase);
+
+type ExpenseRow = {
+  id: string;
+  date: string;
+  category: string;
+  description: string;
+  amount: number;
+  currency: string;
+  payment_method: string;
+  account_id: string | null;
+  recurring_id: string | null;
+  merchant_id: string | null;
+  created_at: string;
+  // Embedded through the expense_tags join table; absent when not selected.
+  expense_tags?: { tags: { name: string } | null }[];
+  // Embedded from expense_splits; absent when not selected.
+  expense_splits?: { category: string; amount: number; note: string | null; position: number }[];
+};
+
+const EXPENSE_COLUMNS = "*, expense_tags(tags(name)), expense_splits(category, amount, note, position)";
+
+type RecurringRow = {
+  id: string;
+  description: string;
+  amount: number;
+  currency: string;
+  category: string;
+  payment_method: string;
+  account_id: string | null;
+  tags: string[];
+  frequency: string;
+  interval_days: number | null;
+  day_of_month: number | null;
+  start_date: string;
+  end_date: string | null;
+  last_generated_date: string | null;
+  created_at: string;
+};
+
+type CategoryRow = {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  sort_order: number;
+  archived: boolean;
+  parent_id: string | null;
+};
+
+type CategoryRuleRow = {
+  id: string;
+  name: string;
+  conditions: Json;
+  category: string | null;
+  tags: string[];
+  sort_order: number;
+  enabled: boolean;
+  created_at: string;
+};
+
+type MerchantRow = {
+  id: string;
+  name: string;
+  aliases: string[];
+  created_at: string;
+};
+
+type AnomalyFeedbackRow = {
+  id: string;
+  expense_id: string;
+  kind: string;
+  key: string;
+  verdict: string;
+  created_at: string;
+};
+
+type IncomeRow = {
+  id: string;
+  date: string;
+  source: string;
+  description: string;
+  amount: number;
+  currency: string;
+  account_id: string | null;
+  created_at: string;
+};
+
+type AccountRow = {
+  id: string;
+  name: string;
+  type: string;
+  currency: string;
+  opening_balance: number;
+  archived: boolean;
+  created_at: string;
+};
+
+type TransferRow = {
+  id: string;
+  date: string;
+  from_account_id: string;
+  to_account_id: string;
+  amount: number;
+  to_amount: number | null;
+  note: string | null;
+  created_at: string;
+};
+
+type ReceiptRow = {
+  id: string;
+  expense_id: string;
+  file_name: string;
+  mime_type: string;
+  size: number;
+  created_at: string;
+};
+
+const RECEIPTS_BUCKET = "receipts";
+
+// Objects sit under a folder named after the user, which is what the storage policies check.
+const receiptPath = (userId: string, receipt: Pick<Receipt, "id" | "expenseId">) =>
+  `${userId}/${receipt.expenseId}/${receipt.id}`;
+
+const toExpense = (item: ExpenseRow): Expense => ({
+  id: item.id,
+  date: item.date,
+  category: item.category as Expense["category"],
+  description: item.description,
+  amount: Number(item.amount),
+  currency: item.currency,
+  paymentMethod: item.payment_method as Expense["paymentMethod"],
+  accountId: item.account_id ?? undefined,
+  tags: item.expense_tags?.length
+    ? item.expense_tags.flatMap((link) => (link.tags ? [link.tags.name] : []))
+    : undefined,
+  recurringId: item.recurring_id ?? undefined,
+  merchantId: item.merchant_id ?? undefined,
+  splits: item.expense_splits?.length
+    ? [...item.expense_splits]
+        .sort((a, b) => a.position - b.position)
+        .map((split) => ({
+          category: split.category as Expense["category"],
+          amount: Number(split.amount),
+          note: split.note ?? undefined,
+        }))
+    : undefined,
+  createdAt: item.created_at,
+});
+
+const toRecurringExpense = (item: RecurringRow): RecurringExpense => ({
+  id: item.id,
+  description: item.description,
+  amount: Number(item.amount),
+  currency: item.currency,
+  category: item.category as RecurringExpense["category"],
+  paymentMethod: item.payment_method as RecurringExpense["paymentMethod"],
+  accountId: item.account_id ?? undefined,
+  tags: item.tags.length > 0 ? item.tags : undefined,
+  frequency: item.frequency as RecurringExpense["frequency"],
+  intervalDays: item.interval_days ?? undefined,
+  dayOfMonth: item.day_of_month ?? undefined,
+  startDate: item.start_date,
+  endDate: item.end_date ?? undefined,
+  lastGeneratedDate: item.last_generated_date ?? undefined,
+  createdAt: item.created_at,
+});
+
+const toCategory = (item: CategoryRow): CategoryDefinition => ({
+  id: item.id,
+  name: item.name,
+  icon: item.icon,
+  color: item.color,
+  sortOrder: item.sort_order,
+  archived: item.archived || undefined,
+  parentId: item.parent_id ?? undefined,
+});
+
+const toCategoryRule = (item: CategoryRuleRow): CategoryRule => ({
+  id: item.id,
+  name: item.name,
+  conditions: item.conditions as unknown as CategoryRule["conditions"],
+  category: item.category ?? undefined,
+  tags: item.tags.length > 0 ? item.tags : undefined,
+  sortOrder: item.sort_order,
+  enabled: item.enabled,
+  createdAt: item.created_at,
+});
+
+const toMerchant = (item: MerchantRow): Merchant => ({
+  id: item.id,
+  name: item.name,
+  aliases: item.aliases,
+  createdAt: item.created_at,
+});
+
+const toAnomalyFeedback = (item: AnomalyFeedbackRow): AnomalyFeedback => ({
+  id: item.id,
+  expenseId: item.expense_id,
+  kind: item.kind as AnomalyFeedback["kind"],
+  key: item.key,
+  verdict: item.verdict as AnomalyFeedback["verdict"],
+  createdAt: item.created_at,
+});
+
+const toIncome = (item: IncomeRow): Income => ({
+  id: item.id,
+  date: item.date,
+  source: item.source as Income["source"],
+  description: item.description,
+  amount: Number(item.amount),
+  currency: item.currency,
+  accountId: item.account_id ?? undefined,
+  createdAt: item.created_at,
+});
+
+const toAccount = (item: AccountRow): Account => ({
+  id: item.id,
+  name: item.name,
+  type: item.type as Account["type"],
+  currency: item.currency,
+  openingBalance: Number(item.opening_balance),
+  archived: item.archived || undefined,
+  createdAt: item.created_at,
+});
+
+const toTransfer = (item: TransferRow): Transfer => ({
+  id: item.id,
+  date: item.date,
+  fromAccountId: item.from_account_id,
+  toAccountId: item.to_account_id,
+  amount: Number(item.amount),
+  toAmount: item.to_amount === null ? undefined : Number(item.to_amount),
+  note: item.note ?? undefined,
+  createdAt: item.created_at,
+});
+
+const toReceipt = (item: ReceiptRow): Receipt => ({
+  id: item.id,
+  expenseId: item.expense_id,
+  fileName: item.file_name,
+  mimeType: item.mime_type,
+  size: item.size,
+  createdAt: item.created_at,
+});
+
+// Replaces an expense's links in expense_tags, creating any tag rows that don't exist yet.
+const setExpenseTags = async (expenseId: string, tags: string[]) => {
+  const supabase = await getSupabaseClient();
+  const { error } = await supabase.rpc("set_expense_tags", { p_expense_id: expenseId, tag_names: tags });
+  if (error) throw error;
+};
+
+// Replaces an expense's lines in expense_splits; an empty list un-splits it.
+const setExpenseSplits = async (expenseId: string, splits: ExpenseSplit[]) => {
+  const supabase = await getSupabaseClient();
+  const { error } = await supabase.rpc("set_expense_splits", {
+    p_expense_id: expenseId,
+    splits: splits.map(({ category, amount, note }) => ({ category, amount, note: note ?? null })),
+  });
+  if (error) throw error;
+};
+
+export function createSupabaseRepository(): ExpenseRepository {
+  return {
+    backend: "supabase",
+
+    async getExpenses(userId: string): Promise<Expense[]> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("expenses")
+        .select(EXPENSE_COLUMNS)
+        .eq("user_id", userId)
+        .order("date", { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(toExpense);
+    },
+
+    async addExpense(userId: string, expense: NewExpense): Promise<Expense> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("expenses")
+        .insert({
+          id: expense.id,
+          created_at: expense.createdAt,
+          user_id: userId,
+          date: expense.date,
+          category: expense.category,
+          description: expense.description,
+          amount: expense.amount,
+          currency: expense.currency,
+          payment_method: expense.paymentMethod,
+          account_id: expense.accountId ?? null,
+          recurring_id: expense.recurringId,
+          merchant_id: expense.merchantId ?? null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const tags = uniqueTags(expense.tags ?? []);
+      if (tags.length > 0) await setExpenseTags(data.id, tags);
+      const splits = expense.splits ?? [];
+      if (splits.length > 0) await setExpenseSplits(data.id, splits);
+
+      return {
+        ...toExpense(data),
+        tags: tags.length > 0 ? tags : undefined,
+        splits: splits.length > 0 ? splits : undefined,
+      };
+    },
+
+    async updateExpense(userId: string, id: string, updatedExpense: Partial<Expense>): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const updates: Record<string, unknown> = {};
+      if (updatedExpense.date) updates.date = updatedExpense.date;
+      if (updatedExpense.category) updates.category = updatedExpense.category;
+      if (updatedExpense.description) updates.description = updatedExpense.description;
+      if (updatedExpense.amount !== undefined) updates.amount = updatedExpense.amount;
+      if (updatedExpense.currency) updates.currency = updatedExpense.currency;
+      if ("accountId" in updatedExpense) updates.account_id = updatedExpense.accountId ?? null;
+      if (updatedExpense.paymentMethod) updates.payment_method = updatedExpense.paymentMethod;
+      if ("recurringId" in updatedExpense) updates.recurring_id = updatedExpense.recurringId ?? null;
+      if ("merchantId" in updatedExpense) updates.merchant_id = updatedExpense.merchantId ?? null;
+
+      if (Object.keys(updates).length > 0) {
+        const { error } = await supabase
+          .from("expenses")
+          .update(updates)
+          .eq("id", id)
+          .eq("user_id", userId);
+
+        if (error) throw error;
+      }
+
+      if ("tags" in updatedExpense) await setExpenseTags(id, uniqueTags(updatedExpense.tags ?? []));
+      // After the amount update, since the lines are checked against the new amount.
+      if ("splits" in updatedExpense) await setExpenseSplits(id, updatedExpense.splits ?? []);
+    },
+
+    async deleteExpense(userId: string, id: string): Promise<void> {
+      const supabase = await getSupabaseClient();
+
+      // The receipt rows cascade with the expense, but their files have to be removed from storage first.
+      const { data: receipts, error: receiptsError } = await supabase
+        .from("receipts")
+        .select("id, expense_id")
+        .eq("expense_id", id)
+        .eq("user_id", userId);
+      if (receiptsError) throw receiptsError;
+
+      if (receipts.length > 0) {
+        const { error: storageError } = await supabase.storage
+          .from(RECEIPTS_BUCKET)
+          .remove(receipts.map((receipt) => receiptPath(userId, { id: receipt.id, expenseId: receipt.expense_id })));
+        if (storageError) throw storageError;
+      }
+
+      const { error } = await supabase.from("expenses").delete().eq("id", id).eq("user_id", userId);
+      if (error) throw error;
+    },
+
+    async getReceipts(userId: string): Promise<Receipt[]> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("receipts")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(toReceipt);
+    },
+
+    async addReceipt(userId: string, expenseId: string, file: File): Promise<Receipt> {
+      const supabase = await getSupabaseClient();
+      const id = crypto.randomUUID();
+      const path = receiptPath(userId, { id, expenseId });
+
+      const { error: uploadError } = await supabase.storage
+        .from(RECEIPTS_BUCKET)
+        .upload(path, file, { contentType: file.type });
+      if (uploadError) throw uploadError;
+
+      const { data, error } = await supabase
+        .from("receipts")
+        .insert({
+          id,
+          user_id: userId,
+          expense_id: expenseId,
+          file_name: file.name,
+          mime_type: file.type,
+          size: file.size,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        // Don't leave an orphaned file behind when the row can't be written.
+        await supabase.storage.from(RECEIPTS_BUCKET).remove([path]);
+        throw error;
+      }
+
+      return toReceipt(data);
+    },
+
+    async getReceiptFile(userId: string, receipt: Receipt): Promise<Blob> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase.storage.from(RECEIPTS_BUCKET).download(receiptPath(userId, receipt));
+      if (error) throw error;
+      return data;
+    },
+
+    async deleteReceipt(userId: string, receipt: Receipt): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error: storageError } = await supabase.storage
+        .from(RECEIPTS_BUCKET)
+        .remove([receiptPath(userId, receipt)]);
+      if (storageError) throw storageError;
+
+      const { error } = await supabase.from("receipts").delete().eq("id", receipt.id).eq("user_id", userId);
+      if (error) throw error;
+    },
+
+    async renameTag(userId: string, from: string, to: string): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.rpc("rename_tag", { from_name: from, to_name: to });
+      if (error) throw error;
+    },
+
+    async deleteTag(userId: string, name: string): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.rpc("delete_tag", { tag_name: name });
+      if (error) throw error;
+    },
+
+    async getBudgets(userId: string): Promise<MonthlyBudget[]> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("monthly_budgets")
+        .select("*")
+        .eq("user_id", userId);
+
+      if (error) throw error;
+
+      return (data || []).map((item) => ({
+        month: item.month,
+        amount: Number(item.amount),
+      }));
+    },
+
+    async saveBudget(userId: string, budget: MonthlyBudget): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.from("monthly_budgets").upsert(
+        {
+          user_id: userId,
+          month: budget.month,
+          amount: budget.amount,
+        },
+        {
+          onConflict: "user_id,month",
+        }
+      );
+
+      if (error) throw error;
+    },
+
+    async getBudgetForMonth(userId: string, month: string): Promise<MonthlyBudget | null> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("monthly_budgets")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("month", month)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      return {
+        month: data.month,
+        amount: Number(data.amount),
+      };
+    },
+
+    async getCategoryBudgets(userId: string, month?: string): Promise<CategoryBudget[]> {
+      const supabase = await getSupabaseClient();
+      let query = supabase.from("category_budgets").select("*").eq("user_id", userId);
+      if (month) query = query.eq("month", month);
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+
+      return (data || []).map((item) => ({
+        month: item.month,
+        category: item.category as CategoryBudget["category"],
+        amount: Number(item.amount),
+      }));
+    },
+
+    async saveCategoryBudget(userId: string, budget: CategoryBudget): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.from("category_budgets").upsert(
+        {
+          user_id: userId,
+          month: budget.month,
+          category: budget.category,
+          amount: budget.amount,
+        },
+        {
+          onConflict: "user_id,month,category",
+        }
+      );
+
+      if (error) throw error;
+    },
+
+    async deleteCategoryBudget(userId: string, month: string, category: CategoryBudget["category"]): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase
+        .from("category_budgets")
+        .delete()
+        .eq("user_id", userId)
+        .eq("month", month)
+        .eq("category", category);
+
+      if (error) throw error;
+    },
+
+    async getCategories(userId: string): Promise<CategoryDefinition[]> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("categories")
+        .select("*")
+        .eq("user_id", userId)
+        .order("sort_order", { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(toCategory);
+    },
+
+    async saveCategories(userId: string, categories: CategoryDefinition[]): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.from("categories").upsert(
+        categories.map((category) => ({
+          id: category.id,
+          user_id: userId,
+          name: category.name,
+          icon: category.icon,
+          color: category.color,
+          sort_order: category.sortOrder,
+          archived: category.archived ?? false,
+          parent_id: category.parentId ?? null,
+        })),
+        { onConflict: "user_id,id" }
+      );
+
+      if (error) throw error;
+    },
+
+    async getCategoryRules(userId: string): Promise<CategoryRule[]> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("category_rules")
+        .select("*")
+        .eq("user_id", userId)
+        .order("sort_order", { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(toCategoryRule);
+    },
+
+    async saveCategoryRules(userId: string, rules: CategoryRule[]): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.from("category_rules").upsert(
+        rules.map((rule) => ({
+          id: rule.id,
+          user_id: userId,
+          name: rule.name,
+          conditions: rule.conditions as unknown as Json,
+          category: rule.category ?? null,
+          tags: uniqueTags(rule.tags ?? []),
+          sort_order: rule.sortOrder,
+          enabled: rule.enabled,
+          created_at: rule.createdAt,
+        }))
+      );
+
+      if (error) throw error;
+    },
+
+    async deleteCategoryRule(userId: string, id: string): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.from("category_rules").delete().eq("id", id).eq("user_id", userId);
+      if (error) throw error;
+    },
+
+    async getMerchants(userId: string): Promise<Merchant[]> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("merchants")
+        .select("*")
+        .eq("user_id", userId)
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(toMerchant);
+    },
+
+    async saveMerchant(userId: string, merchant: Merchant): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.from("merchants").upsert({
+        id: merchant.id,
+        user_id: userId,
+        name: merchant.name,
+        aliases: merchant.aliases,
+        created_at: merchant.createdAt,
+      });
+
+      if (error) throw error;
+    },
+
+    async deleteMerchant(userId: string, id: string): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.from("merchants").delete().eq("id", id).eq("user_id", userId);
+      if (error) throw error;
+    },
+
+    async getAnomalyFeedback(userId: string): Promise<AnomalyFeedback[]> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("anomaly_feedback")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(toAnomalyFeedback);
+    },
+
+    async saveAnomalyFeedback(userId: string, feedback: AnomalyFeedback): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.from("anomaly_feedback").upsert({
+        id: feedback.id,
+        user_id: userId,
+        expense_id: feedback.expenseId,
+        kind: feedback.kind,
+        key: feedback.key,
+        verdict: feedback.verdict,
+        created_at: feedback.createdAt,
+      });
+
+      if (error) throw error;
+    },
+
+    async deleteAnomalyFeedback(userId: string, id: string): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.from("anomaly_feedback").delete().eq("id", id).eq("user_id", userId);
+      if (error) throw error;
+    },
+
+    async getIncome(userId: string): Promise<Income[]> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("income")
+        .select("*")
+        .eq("user_id", userId)
+        .order("date", { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(toIncome);
+    },
+
+    async saveIncome(userId: string, income: Income): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.from("income").upsert({
+        id: income.id,
+        user_id: userId,
+        date: income.date,
+        source: income.source,
+        description: income.description,
+        amount: income.amount,
+        currency: income.currency,
+        account_id: income.accountId ?? null,
+        created_at: income.createdAt,
+      });
+
+      if (error) throw error;
+    },
+
+    async deleteIncome(userId: string, id: string): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase
+        .from("income")
+        .delete()
+        .eq("id", id)
+        .eq("user_id", userId);
+
+      if (error) throw error;
+    },
+
+    async getAccounts(userId: string): Promise<Account[]> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("accounts")
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(toAccount);
+    },
+
+    async saveAccount(userId: string, account: Account): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.from("accounts").upsert({
+        id: account.id,
+        user_id: userId,
+        name: account.name,
+        type: account.type,
+        currency: account.currency,
+        opening_balance: account.openingBalance,
+        archived: account.archived ?? false,
+        created_at: account.createdAt,
+      });
+
+      if (error) throw error;
+    },
+
+    async deleteAccount(userId: string, id: string): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase
+        .from("accounts")
+        .delete()
+        .eq("id", id)
+        .eq("user_id", userId);
+
+      if (error) throw error;
+    },
+
+    async getTransfers(userId: string): Promise<Transfer[]> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("transfers")
+        .select("*")
+        .eq("user_id", userId)
+        .order("date", { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map(toTransfer);
+    },
+
+    async saveTransfer(userId: string, transfer: Transfer): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.from("transfers").upsert({
+        id: transfer.id,
+        user_id: userId,
+        date: transfer.date,
+        from_account_id: transfer.fromAccountId,
+        to_account_id: transfer.toAccountId,
+        amount: transfer.amount,
+        to_amount: transfer.toAmount ?? null,
+        note: transfer.note ?? null,
+        created_at: transfer.createdAt,
+      });
+
+      if (error) throw error;
+    },
+
+    async deleteTransfer(userId: string, id: string): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase
+        .from("transfers")
+        .delete()
+        .eq("id", id)
+        .eq("user_id", userId);
+
+      if (error) throw error;
+    },
+
+    async getExchangeRates(userId: string): Promise<ExchangeRate[]> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("exchange_rates")
+        .select("*")
+        .eq("user_id", userId)
+        .order("date", { ascending: false });
+
+      if (error) throw error;
+
+      return (data || []).map((item) => ({
+        date: item.date,
+        baseCurrency: item.base_currency,
+        quoteCurrency: item.quote_currency,
+        rate: Number(item.rate),
+      }));
+    },
+
+    async saveExchangeRates(userId: string, rates: ExchangeRate[]): Promise<void> {
+      if (rates.length === 0) return;
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.from("exchange_rates").upsert(
+        rates.map((rate) => ({
+          user_id: userId,
+          date: rate.date,
+          base_currency: rate.baseCurrency,
+          quote_currency: rate.quoteCurrency,
+          rate: rate.rate,
+        })),
+        {
+          onConflict: "user_id,date,base_currency,quote_currency",
+        }
+      );
+
+      if (error) throw error;
+    },
+
+    async deleteExchangeRate(userId: string, rate: ExchangeRate): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase
+        .from("exchange_rates")
+        .delete()
+        .eq("user_id", userId)
+        .eq("date", rate.date)
+        .eq("base_currency", rate.baseCurrency)
+        .eq("quote_currency", rate.quoteCurrency);
+
+      if (error) throw error;
+    },
+
+    async getRecurringExpenses(userId: string): Promise<RecurringExpense[]> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("recurring_expenses")
+        .select("*")
+        .eq("user_id", userId)
+        .order("start_date", { ascending: true });
+
+      if (error) throw error;
+
+      return (data || []).map(toRecurringExpense);
+    },
+
+    async saveRecurringExpense(userId: string, template: RecurringExpense): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase.from("recurring_expenses").upsert({
+        id: template.id,
+        user_id: userId,
+        description: template.description,
+        amount: template.amount,
+        currency: template.currency,
+        category: template.category,
+        payment_method: template.paymentMethod,
+        account_id: template.accountId ?? null,
+        tags: uniqueTags(template.tags ?? []),
+        frequency: template.frequency,
+        interval_days: template.intervalDays ?? null,
+        day_of_month: template.dayOfMonth ?? null,
+        start_date: template.startDate,
+        end_date: template.endDate ?? null,
+        last_generated_date: template.lastGeneratedDate ?? null,
+        created_at: template.createdAt,
+      });
+
+      if (error) throw error;
+    },
+
+    async deleteRecurringExpense(userId: string, id: string): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const { error } = await supabase
+        .from("recurring_expenses")
+        .delete()
+        .eq("id", id)
+        .eq("user_id", userId);
+
+      if (error) throw error;
+    },
+
+    async getProfile(userId: string): Promise<Profile | null> {
+      const supabase = await getSupabaseClient();
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("*")
+        .eq("id", userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      return {
+        id: data.id,
+        displayName: data.display_name,
+        avatarUrl: data.avatar_url,
+        currencyPreference: data.currency_preference ?? "INR",
+        budgetRollover: (data.budget_rollover ?? "off") as Profile["budgetRollover"],
+        periodStartDay: data.period_start_day ?? 1,
+        createdAt: data.created_at,
+      };
+    },
+
+    async updateProfile(userId: string, changes: ProfileChanges): Promise<void> {
+      const supabase = await getSupabaseClient();
+      const updates: Record<string, unknown> = {};
+      if (changes.displayName !== undefined) updates.display_name = changes.displayName;
+      if (changes.avatarUrl !== undefined) updates.avatar_url = changes.avatarUrl;
+      if (changes.currencyPreference !== undefined) updates.currency_preference = changes.currencyPreference;
+      if (changes.budgetRollover !== undefined) updates.budget_rollover = changes.budgetRollover;
+      if (changes.periodStartDay !== undefined) updates.period_start_day = changes.periodStartDay;
+
+      const { error } = await supabase.from("profiles").update(updates).eq("id", userId);
+      if (error) throw error;
+    },
+  };
+}
@@ -0,0 +1,120 @@
+import {
+  Account,
+  AnomalyFeedback,
+  CategoryBudget,
+  CategoryDefinition,
+  CategoryRule,
+  ExchangeRate,
+  Expense,
+  Income,
+  Merchant,
+  MonthlyBudget,
+  Receipt,
+  RecurringExpense,
+  Transfer,
+} from "../types";
+
+export type StorageBackend = "supabase" | "local" | "memory";
+
+// "overall" carries the monthly budget's surplus or deficit into the next
+// month; "category" does the same for each category budget.
+export type RolloverMode = "off" | "overall" | "category";
+
+export interface Profile {
+  id: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  currencyPreference: string;
+  budgetRollover: RolloverMode;
+  // Day of the month (1–28) budget periods start on; 1 means calendar months.
+  periodStartDay: number;
+  createdAt: string;
+}
+
+export type ProfileChanges = Partial<Omit<Profile, "id" | "createdAt">>;
+
+// Callers may supply an id and timestamp (offline-created rows); otherwise the backend assigns them.
+export type NewExpense = Omit<Expense, "id" | "createdAt"> & Partial<Pick<Expense, "id" | "createdAt">>;
+
+/**
+ * Everything the app persists, keyed by the owning user. Each backend
+ * (Supabase, local-only, in-memory) implements this shape so pages never
+ * need to know where the data lives.
+ */
+export interface ExpenseRepository {
+  readonly backend: StorageBackend;
+
+  getExpenses(userId: string): Promise<Expense[]>;
+  addExpense(userId: string, expense: NewExpense): Promise<Expense>;
+  updateExpense(userId: string, id: string, changes: Partial<Expense>): Promise<void>;
+  /** Also deletes the expense's receipts. */
+  deleteExpense(userId: string, id: string): Promise<void>;
+
+  getReceipts(userId: string): Promise<Receipt[]>;
+  addReceipt(userId: string, expenseId: string, file: File): Promise<Receipt>;
+  getReceiptFile(userId: string, receipt: Receipt): Promise<Blob>;
+  deleteReceipt(userId: string, receipt: Receipt): Promise<void>;
+
+  /** Renames a tag everywhere it is used; renaming onto an existing tag merges the two. */
+  renameTag(userId: string, from: string, to: string): Promise<void>;
+  /** Removes a tag from every expense and recurring template. */
+  deleteTag(userId: string, name: string): Promise<void>;
+
+  getBudgets(userId: string): Promise<MonthlyBudget[]>;
+  saveBudget(userId: string, budget: MonthlyBudget): Promise<void>;
+  getBudgetForMonth(userId: string, month: string): Promise<MonthlyBudget | null>;
+
+  /** All category budgets, or only those for `month` when given. */
+  getCategoryBudgets(userId: string, month?: string): Promise<CategoryBudget[]>;
+  saveCategoryBudget(userId: string, budget: CategoryBudget): Promise<void>;
+  deleteCategoryBudget(userId: string, month: string, category: CategoryBudget["category"]): Promise<void>;
+
+  /** The user's own categories plus their edits to the built-ins; see mergeCategories. */
+  getCategories(userId: string): Promise<CategoryDefinition[]>;
+  /** Inserts or replaces by id; reordering saves several at once. */
+  saveCategories(userId: string, categories: CategoryDefinition[]): Promise<void>;
+
+  getCategoryRules(userId: string): Promise<CategoryRule[]>;
+  /** Inserts or replaces by id; reordering saves several at once. */
+  saveCategoryRules(userId: string, rules: CategoryRule[]): Promise<void>;
+  deleteCategoryRule(userId: string, id: string): Promise<void>;
+
+  getMerchants(userId: string): Promise<Merchant[]>;
+  /** Inserts or replaces by id. */
+  saveMerchant(userId: string, merchant: Merchant): Promise<void>;
+  /** Expenses at the merchant are kept, with no merchant set. */
+  deleteMerchant(userId: string, id: string): Promise<void>;
+
+  getAnomalyFeedback(userId: string): Promise<AnomalyFeedback[]>;
+  /** Inserts or replaces by id. */
+  saveAnomalyFeedback(userId: string, feedback: AnomalyFeedback): Promise<void>;
+  deleteAnomalyFeedback(userId: string, id: string): Promise<void>;
+
+  getIncome(userId: string): Promise<Income[]>;
+  /** Inserts or replaces by id. */
+  saveIncome(userId: string, income: Income): Promise<void>;
+  deleteIncome(userId: string, id: string): Promise<void>;
+
+  getAccounts(userId: string): Promise<Account[]>;
+  saveAccount(userId: string, account: Account): Promise<void>;
+  deleteAccount(userId: string, id: string): Promise<void>;
+
+  getTransfers(userId: string): Promise<Transfer[]>;
+  saveTransfer(userId: string, transfer: Transfer): Promise<void>;
+  deleteTransfer(userId: string, id: string): Promise<void>;
+
+  getExchangeRates(userId: string): Promise<ExchangeRate[]>;
+  /** Upserts rates keyed by (date, baseCurrency, quoteCurrency). */
+  saveExchangeRates(userId: string, rates: ExchangeRate[]): Promise<void>;
+  deleteExchangeRate(userId: string, rate: ExchangeRate): Promise<void>;
+
+  getRecurringExpenses(userId: string): Promise<RecurringExpense[]>;
+  saveRecurringExpense(userId: string, template: RecurringExpense): Promise<void>;
+  deleteRecurringExpense(userId: string, id: string): Promise<void>;
+
+  getProfile(userId: string): Promise<Profile | null>;
+  updateProfile(userId: string, changes: ProfileChanges): Promise<void>;
+
+  /** Reconciles local state with a remote backend; absent for backends that have nothing to sync. */
+  sync?(userId: string): Promise<{ offline: boolean }>;
+}
@@ -0,0 +1,122 @@
+import { CategoryDefinition, CategoryRule, Expense, RuleCondition, RuleField, RuleOperator } from "./types";
+import { getCategoryLabel } from "./categories";
+import { paymentMethods } from "./paymentMethods";
+import { hasTag, uniqueTags } from "./tags";
+import { isSplit } from "./splits";
+
+// The parts of an expense a rule looks at and the parts it can change.
+export type RuleInput = Pick<Expense, "description" | "amount" | "paymentMethod">;
+export type RuleTarget = RuleInput & Pick<Expense, "category" | "tags">;
+
+export const ruleFields: { value: RuleField; label: string; operators: RuleOperator[] }[] = [
+  { value: "description", label: "Description", operators: ["contains", "startsWith", "equals"] },
+  { value: "amount", label: "Amount", operators: ["equals", "greaterThan", "lessThan"] },
+  { value: "paymentMethod", label: "Payment method", operators: ["equals"] },
+];
+
+export const operatorLabels: Record<RuleOperator, string> = {
+  contains: "contains",
+  startsWith: "starts with",
+  equals: "is",
+  greaterThan: "is over",
+  lessThan: "is under",
+};
+
+export const getRuleField = (field: RuleField) => ruleFields.find((option) => option.value === field)!;
+
+// Text matches ignoring case and runs of whitespace.
+const normaliseText = (text: string) => text.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Amounts match to the cent, so 499 and 499.00 are the same.
+const sameAmount = (a: number, b: number) => Math.round(a * 100) === Math.round(b * 100);
+
+export const matchesCondition = (condition: RuleCondition, expense: RuleInput): boolean => {
+  if (condition.field === "amount") {
+    const value = Number(condition.value);
+    if (condition.value.trim() === "" || isNaN(value)) return false;
+    switch (condition.operator) {
+      case "greaterThan":
+        return expense.amount > value;
+      case "lessThan":
+        return expense.amount < value;
+      default:
+        return sameAmount(expense.amount, value);
+    }
+  }
+
+  if (condition.field === "paymentMethod") return expense.paymentMethod === condition.value;
+
+  const text = normaliseText(expense.description);
+  const value = normaliseText(condition.value);
+  if (!value) return false;
+  switch (condition.operator) {
+    case "startsWith":
+      return text.startsWith(value);
+    case "equals":
+      return text === value;
+    default:
+      return text.includes(value);
+  }
+};
+
+/** True when the rule is on, has at least one condition, and every condition holds. */
+export const matchesRule = (rule: CategoryRule, expense: RuleInput): boolean =>
+  rule.enabled && rule.conditions.length > 0 && rule.conditions.every((condition) => matchesCondition(condition, expense));
+
+export const sortRules = (rules: CategoryRule[]) => [...rules].sort((a, b) => a.sortOrder - b.sortOrder);
+
+/** The first rule, in priority order, that matches the expense. */
+export const findMatchingRule = (rules: CategoryRule[], expense: RuleInput): CategoryRule | undefined =>
+  sortRules(rules).find((rule) => matchesRule(rule, expense));
+
+/** The expense with the rule's category set and its tags added. */
+export const applyRule = <T extends RuleTarget>(rule: CategoryRule, expense: T): T => {
+  const tags = uniqueTags([...(expense.tags ?? []), ...(rule.tags ?? [])]);
+  return { ...expense, category: rule.category ?? expense.category, tags: tags.length > 0 ? tags : undefined };
+};
+
+export const describeCondition = (condition: RuleCondition): string => {
+  const field = getRuleField(condition.field).label.toLowerCase();
+  const value =
+    condition.field === "paymentMethod"
+      ? paymentMethods.find((method) => method.value === condition.value)?.label ?? condition.value
+      : condition.field === "amount"
+        ? condition.value
+        : `"${condition.value}"`;
+  return `${field} ${operatorLabels[condition.operator]} ${value}`;
+};
+
+/** e.g. `description contains "swiggy" → Food, #delivery` */
+export const describeRule = (rule: CategoryRule, categories: CategoryDefinition[]): string => {
+  const when = rule.conditions.map(describeCondition).join(" and ") || "no conditions";
+  const then = [
+    ...(rule.category ? [getCategoryLabel(rule.category, categories)] : []),
+    ...(rule.tags ?? []).map((tag) => `#${tag}`),
+  ];
+  return `${when} → ${then.join(", ") || "nothing"}`;
+};
+
+export interface RuleChange {
+  expense: Expense;
+  rule: CategoryRule;
+  changes: Pick<Expense, "category" | "tags">;
+}
+
+/**
+ * What running the rules over existing expenses would change: expenses whose
+ * matching rule gives a different category or adds a tag they don't have.
+ * Split expenses keep their lines' categories.
+ */
+export const getRuleChanges = (rules: CategoryRule[], expenses: Expense[]): RuleChange[] =>
+  expenses.flatMap((expense) => {
+    const rule = findMatchingRule(rules, expense);
+    if (!rule) return [];
+
+    // A split expense keeps the categories of its lines; only tags are added.
+    const changesCategory = !!rule.category && rule.category !== expense.category && !isSplit(expense);
+    const addsTags = (rule.tags ?? []).some((tag) => !hasTag(expense.tags, tag));
+    if (!changesCategory && !addsTags) return [];
+
+    const { category, tags } = applyRule(rule, expense);
+    return [{ expense, rule, changes: { category: changesCategory ? category : expense.category, tags } }];
+  });
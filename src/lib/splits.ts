@@ -0,0 +1,70 @@
+import { Category, CategoryDefinition, Expense, ExpenseSplit } from "./types";
+import { getHomeAmount } from "./currency";
+import { isInCategory } from "./categories";
+
+export interface ExpensePart {
+  category: Category;
+  amount: number; // Home currency
+  note?: string;
+}
+
+export const isSplit = (expense: Pick<Expense, "splits">) => (expense.splits?.length ?? 0) > 1;
+
+/**
+ * The expense as category/amount parts in the home currency: its line items
+ * when split, otherwise the whole amount under its one category. Lines are
+ * converted at the expense's own rate, so the parts add up to the whole.
+ */
+export const getExpenseParts = (expense: Expense): ExpensePart[] => {
+  const home = getHomeAmount(expense);
+  if (!isSplit(expense) || expense.amount === 0) return [{ category: expense.category, amount: home }];
+
+  const rate = home / expense.amount;
+  return expense.splits!.map((split) => ({ category: split.category, amount: split.amount * rate, note: split.note }));
+};
+
+/** True when any line of the expense is in `filter` (or one of its subcategories). */
+export const expenseInCategory = (expense: Expense, filter: Category, categories: CategoryDefinition[]) =>
+  getExpenseParts(expense).some((part) => isInCategory(part.category, filter, categories));
+
+/**
+ * Just the share of the expense that falls in `category`, as an expense of
+ * its own (amounts scaled to match), or null when none of it does.
+ */
+export const narrowToCategory = (
+  expense: Expense,
+  category: Category,
+  categories: CategoryDefinition[]
+): Expense | null => {
+  if (!isSplit(expense)) return isInCategory(expense.category, category, categories) ? expense : null;
+
+  const amount = expense.splits!
+    .filter((split) => isInCategory(split.category, category, categories))
+    .reduce((sum, split) => sum + split.amount, 0);
+  if (amount === 0) return null;
+
+  const share = amount / expense.amount;
+  return {
+    ...expense,
+    amount,
+    convertedAmount: expense.convertedAmount === undefined ? undefined : expense.convertedAmount * share,
+  };
+};
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/** What is left to assign (negative when the lines add up to more than the total), to the cent. */
+export const getUnassignedAmount = (splits: Pick<ExpenseSplit, "amount">[], total: number) =>
+  (toCents(total) - splits.reduce((sum, split) => sum + toCents(split.amount), 0)) / 100;
+
+/** The category an expense with these lines is filed under: the largest line's. */
+export const getPrimaryCategory = (splits: ExpenseSplit[]): Category =>
+  splits.reduce((largest, split) => (split.amount > largest.amount ? split : largest)).category;
+
+/** Why the lines can't be saved for an expense of `total`, or null when they can. */
+export const validateSplits = (splits: ExpenseSplit[], total: number): string | null => {
+  if (splits.length < 2) return "A split needs at least two lines";
+  if (splits.some((split) => !(split.amount > 0))) return "Every line needs an amount above zero";
+  if (getUnassignedAmount(splits, total) !== 0) return "The lines must add up to the total";
+  return null;
+};
@@ -1,69 +1,239 @@
-import { supabase } from "@/integrations/supabase/client";
 import { storage } from "./storage";
+import { getSupabaseClient } from "./repository/supabase";
+import { isNetworkError } from "./syncQueue";
+import { isBuiltInCategory } from "./categories";
+import { paymentMethods } from "./paymentMethods";
+import { DEFAULT_CURRENCY } from "./currency";
 import { Expense, MonthlyBudget } from "./types";
 
-export async function migrateLocalStorageToSupabase(userId: string) {
-  try {
-    // Get localStorage data
-    const localExpenses = storage.getExpenses();
-    const localBudgets = storage.getBudgets();
-
-    // Migrate expenses
-    if (localExpenses.length > 0) {
-      const expensesToInsert = localExpenses.map((expense) => ({
-        id: expense.id,
-        user_id: userId,
-        date: expense.date,
-        category: expense.category,
-        description: expense.description,
-        amount: expense.amount,
-        payment_method: expense.paymentMethod,
-        tag: expense.tag,
-        created_at: expense.createdAt,
-      }));
-
-      const { error: expensesError } = await supabase
-        .from("expenses")
-        .insert(expensesToInsert);
-
-      if (expensesError) throw expensesError;
+const CHUNK_SIZE = 50;
+
+type LegacyExpense = Expense & { tag?: string };
+
+export type MigrationStatus = "imported" | "skipped" | "rejected";
+
+export interface MigrationRow {
+  kind: "expense" | "budget";
+  key: string; // Expense id or budget month
+  label: string;
+  status: MigrationStatus;
+  reason?: string;
+}
+
+export interface MigrationReport {
+  rows: MigrationRow[];
+  imported: number;
+  skipped: number;
+  rejected: number;
+}
+
+const chunk = <T>(items: T[]) =>
+  Array.from({ length: Math.ceil(items.length / CHUNK_SIZE) }, (_, i) =>
+    items.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE)
+  );
+
+const errorMessage = (error: unknown) => String((error as { message?: string })?.message ?? error);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const validateExpense = (expense: Partial<Expense>): string | null => {
+  if (!expense.id) return "Missing id";
+  // expenses.id is a uuid column; one malformed id would fail the whole batch's lookup.
+  if (!UUID_PATTERN.test(expense.id)) return `Invalid id "${expense.id}"`;
+  if (!expense.date || !/^\d{4}-\d{2}-\d{2}$/.test(expense.date)) return "Missing or invalid date";
+  if (typeof expense.amount !== "number" || !(expense.amount > 0)) return "Amount is not a positive number";
+  // The localStorage version only ever had the built-in categories.
+  if (!expense.category || !isBuiltInCategory(expense.category)) return `Unknown category "${expense.category}"`;
+  if (!paymentMethods.some((m) => m.value === expense.paymentMethod)) {
+    return `Unknown payment method "${expense.paymentMethod}"`;
+  }
+  return null;
+};
+
+const validateBudget = (budget: Partial<MonthlyBudget>): string | null => {
+  if (!budget.month || !/^\d{4}-\d{2}$/.test(budget.month)) return "Missing or invalid month";
+  if (typeof budget.amount !== "number" || budget.amount < 0) return "Amount is not a number";
+  return null;
+};
+
+/**
+ * Writes `rows` in one upsert, falling back to one row at a time when the
+ * batch is refused so a single bad row only rejects itself. Network errors
+ * are rethrown: the run stops and can be started again.
+ */
+async function upsertChunk<T>(
+  rows: T[],
+  write: (rows: T[]) => PromiseLike<{ error: unknown }>
+): Promise<Map<T, string | null>> {
+  const results = new Map<T, string | null>();
+  if (rows.length === 0) return results;
+
+  const { error } = await write(rows);
+  if (!error) {
+    rows.forEach((row) => results.set(row, null));
+    return results;
+  }
+  if (isNetworkError(error)) throw error;
+
+  for (const row of rows) {
+    const { error: rowError } = await write([row]);
+    if (rowError && isNetworkError(rowError)) throw rowError;
+    results.set(row, rowError ? errorMessage(rowError) : null);
+  }
+  return results;
+}
+
+/**
+ * Copies the legacy localStorage expenses and budgets into the user's
+ * Supabase account in chunks. Writes are upserts that leave existing rows
+ * alone, so the migration is idempotent: after a failure it can simply be
+ * run again and rows that already made it are reported as skipped. A
+ * skipped row with no tags yet gets its legacy tag linked again, in case the
+ * earlier run stopped in between.
+ * Local data is cleared, and the import marked done, only once every row
+ * is imported or skipped.
+ */
+export async function migrateLocalStorageToSupabase(
+  userId: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<MigrationReport> {
+  const supabase = await getSupabaseClient();
+  const localExpenses: LegacyExpense[] = storage.getExpenses();
+  const localBudgets = storage.getBudgets();
+  const total = localExpenses.length + localBudgets.length;
+  const rows: MigrationRow[] = [];
+  const report = (row: MigrationRow) => {
+    rows.push(row);
+    onProgress?.(rows.length, total);
+  };
+
+  for (const batch of chunk(localExpenses)) {
+    const valid: LegacyExpense[] = [];
+    for (const expense of batch) {
+      const reason = validateExpense(expense);
+      if (reason) {
+        const label = expense.description || "(no description)";
+        report({ kind: "expense", key: expense.id ?? "", label, status: "rejected", reason });
+      } else {
+        valid.push(expense);
+      }
     }
+    if (valid.length === 0) continue;
 
-    // Migrate budgets
-    if (localBudgets.length > 0) {
-      const budgetsToInsert = localBudgets.map((budget) => ({
-        user_id: userId,
-        month: budget.month,
-        amount: budget.amount,
-      }));
+    const { data: existing, error } = await supabase
+      .from("expenses")
+      .select("id, expense_tags(tag_id)")
+      .in("id", valid.map((expense) => expense.id));
+    if (error) throw error;
+    const existingIds = new Set((existing ?? []).map((row) => row.id));
+    // Rows a stopped run wrote before it could link their tag.
+    const untaggedIds = new Set((existing ?? []).filter((row) => !row.expense_tags?.length).map((row) => row.id));
 
-      const { error: budgetsError } = await supabase
-        .from("monthly_budgets")
-        .insert(budgetsToInsert);
+    const toWrite = valid.filter((expense) => !existingIds.has(expense.id));
+    const results = await upsertChunk(toWrite, (expenses) =>
+      supabase.from("expenses").upsert(
+        expenses.map((expense) => ({
+          id: expense.id,
+          user_id: userId,
+          date: expense.date,
+          category: expense.category,
+          description: expense.description,
+          amount: expense.amount,
+          // Rows saved before multi-currency support have no currency of their own.
+          currency: expense.currency ?? DEFAULT_CURRENCY,
+          payment_method: expense.paymentMethod,
+          created_at: expense.createdAt,
+        })),
+        { onConflict: "id", ignoreDuplicates: true }
+      )
+    );
 
-      if (budgetsError) throw budgetsError;
+    // The old version had one free-text tag; it becomes the expense's only tag.
+    // Returns why it could not be saved, if it could not.
+    const applyTag = async (expense: LegacyExpense): Promise<string | null> => {
+      const { error: tagError } = await supabase.rpc("set_expense_tags", {
+        p_expense_id: expense.id,
+        tag_names: [expense.tag],
+      });
+      if (tagError && isNetworkError(tagError)) throw tagError;
+      return tagError ? `without its tag "${expense.tag!.trim()}": ${errorMessage(tagError)}` : null;
+    };
+
+    for (const expense of valid) {
+      const base = { kind: "expense" as const, key: expense.id, label: expense.description };
+      const hasTag = !!expense.tag?.trim();
+      if (existingIds.has(expense.id)) {
+        const tagLost = hasTag && untaggedIds.has(expense.id) ? await applyTag(expense) : null;
+        report({
+          ...base,
+          status: "skipped",
+          reason: tagLost ? `Already in your account, ${tagLost}` : "Already in your account",
+        });
+        continue;
+      }
+      const reason = results.get(expense);
+      if (reason) {
+        report({ ...base, status: "rejected", reason });
+        continue;
+      }
+      // The expense itself is in; say what was lost rather than reporting a clean import.
+      const tagLost = hasTag ? await applyTag(expense) : null;
+      report(tagLost ? { ...base, status: "imported", reason: `Imported ${tagLost}` } : { ...base, status: "imported" });
     }
+  }
+
+  const { data: existingBudgets, error: budgetsError } = await supabase
+    .from("monthly_budgets")
+    .select("month")
+    .eq("user_id", userId);
+  if (budgetsError) throw budgetsError;
+  const existingMonths = new Set((existingBudgets ?? []).map((row) => row.month));
+
+  for (const batch of chunk(localBudgets)) {
+    const valid: MonthlyBudget[] = [];
+    for (const budget of batch) {
+      const reason = validateBudget(budget);
+      const base = { kind: "budget" as const, key: budget.month ?? "", label: `Budget for ${budget.month ?? "?"}` };
+      if (reason) {
+        report({ ...base, status: "rejected", reason });
+      } else if (existingMonths.has(budget.month)) {
+        report({ ...base, status: "skipped", reason: "Month already has a budget" });
+      } else {
+        valid.push(budget);
+      }
+    }
+
+    const results = await upsertChunk(valid, (budgets) =>
+      supabase.from("monthly_budgets").upsert(
+        budgets.map((budget) => ({ user_id: userId, month: budget.month, amount: budget.amount })),
+        { onConflict: "user_id,month", ignoreDuplicates: true }
+      )
+    );
 
-    // Clear localStorage after successful migration
+    for (const budget of valid) {
+      const base = { kind: "budget" as const, key: budget.month, label: `Budget for ${budget.month}` };
+      const reason = results.get(budget);
+      report(reason ? { ...base, status: "rejected", reason } : { ...base, status: "imported" });
+    }
+  }
+
+  const count = (status: MigrationStatus) => rows.filter((row) => row.status === status).length;
+  const result = { rows, imported: count("imported"), skipped: count("skipped"), rejected: count("rejected") };
+
+  // Rejected rows stay in localStorage, and the prompt keeps coming back, so they can be retried.
+  if (result.rejected === 0) {
     localStorage.removeItem("expense-tracker-expenses");
     localStorage.removeItem("expense-tracker-budgets");
     localStorage.setItem("migrated", "true");
-
-    return {
-      success: true,
-      expensesCount: localExpenses.length,
-      budgetsCount: localBudgets.length,
-    };
-  } catch (error) {
-    console.error("Migration error:", error);
-    return { success: false, error };
   }
+
+  return result;
 }
 
 export function hasLocalStorageData(): boolean {
   const expenses = storage.getExpenses();
   const budgets = storage.getBudgets();
   const migrated = localStorage.getItem("migrated");
-  
+
   return !migrated && (expenses.length > 0 || budgets.length > 0);
 }
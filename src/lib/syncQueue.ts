@@ -0,0 +1,188 @@
+import { Expense, MonthlyBudget } from "./types";
+import { ExpenseRepository } from "./repository/types";
+import { STORES, addRecord, deleteRecords, getAllByUser, getRecord, putRecords } from "./localDb";
+
+export type OutboxOperation =
+  | { entity: "expense"; op: "add"; payload: Expense }
+  | { entity: "expense"; op: "update"; payload: { id: string; changes: Partial<Expense> } }
+  | { entity: "expense"; op: "delete"; payload: { id: string } }
+  | { entity: "budget"; op: "save"; payload: MonthlyBudget };
+
+export type OutboxEntry = OutboxOperation & {
+  id?: number;
+  userId: string;
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+};
+
+// `tag` is the single free-text tag rows had before multi-tag support; see withTags.
+export type CachedExpense = Expense & { userId: string; tag?: string };
+export type CachedBudget = MonthlyBudget & { userId: string };
+
+export interface FlushResult {
+  synced: number;
+  failed: number;
+  remaining: number;
+  offline: boolean;
+}
+
+type SyncListener = () => void;
+
+const listeners = new Set<SyncListener>();
+const inFlight = new Map<string, Promise<FlushResult>>();
+
+export function subscribeToSync(listener: SyncListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function notifySyncListeners() {
+  listeners.forEach((listener) => listener());
+}
+
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  const message = String((error as { message?: string })?.message ?? error);
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+}
+
+function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: string })?.code === "23505";
+}
+
+export async function getOutbox(userId: string): Promise<OutboxEntry[]> {
+  const entries = await getAllByUser<OutboxEntry>(STORES.outbox, userId);
+  return entries.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+}
+
+export async function enqueue(userId: string, operation: OutboxOperation): Promise<void> {
+  const entry: OutboxEntry = {
+    ...operation,
+    userId,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  };
+  await addRecord(STORES.outbox, entry);
+}
+
+export function getEntityKey(entry: OutboxOperation): string {
+  if (entry.entity === "budget") return `budget:${entry.payload.month}`;
+  return `expense:${entry.payload.id}`;
+}
+
+/**
+ * Drops queued operations for an expense that never reached the server.
+ * Returns true when the expense only ever existed locally.
+ */
+export async function discardUnsyncedExpense(userId: string, expenseId: string): Promise<boolean> {
+  const entries = await getOutbox(userId);
+  const related = entries.filter((entry) => getEntityKey(entry) === `expense:${expenseId}`);
+  const neverSynced = related.some((entry) => entry.op === "add");
+  if (neverSynced) {
+    await deleteRecords(STORES.outbox, related.map((entry) => entry.id!));
+  }
+  return neverSynced;
+}
+
+async function applyOperation(remote: ExpenseRepository, entry: OutboxEntry): Promise<void> {
+  switch (entry.entity) {
+    case "expense":
+      if (entry.op === "add") {
+        try {
+          await remote.addExpense(entry.userId, entry.payload);
+        } catch (error) {
+          // A previous attempt may have landed before the connection dropped,
+          // possibly without its tags and split lines, which are written after the row.
+          if (!isDuplicateKeyError(error)) throw error;
+          await remote.updateExpense(entry.userId, entry.payload.id, {
+            tags: entry.payload.tags ?? [],
+            splits: entry.payload.splits ?? [],
+          });
+        }
+      } else if (entry.op === "update") {
+        await remote.updateExpense(entry.userId, entry.payload.id, entry.payload.changes);
+      } else {
+        await remote.deleteExpense(entry.userId, entry.payload.id);
+      }
+      return;
+    case "budget":
+      await remote.saveBudget(entry.userId, entry.payload);
+      return;
+  }
+}
+
+async function setCachedStatus(entry: OutboxEntry, status: Expense["syncStatus"]) {
+  if (entry.entity === "expense") {
+    if (entry.op === "delete") return;
+    const cached = await getRecord<CachedExpense>(STORES.expenses, entry.payload.id);
+    if (cached) await putRecords(STORES.expenses, [{ ...cached, syncStatus: status }]);
+  } else {
+    const cached = await getRecord<CachedBudget>(STORES.budgets, [entry.userId, entry.payload.month]);
+    if (cached) await putRecords(STORES.budgets, [{ ...cached, syncStatus: status }]);
+  }
+}
+
+async function runFlush(userId: string, remote: ExpenseRepository): Promise<FlushResult> {
+  const entries = await getOutbox(userId);
+  const blocked = new Set<string>();
+  const result: FlushResult = { synced: 0, failed: 0, remaining: 0, offline: false };
+
+  for (const entry of entries) {
+    const key = getEntityKey(entry);
+
+    // Keep per-row ordering: never replay an update ahead of a failed add.
+    if (result.offline || blocked.has(key)) {
+      result.remaining++;
+      continue;
+    }
+
+    try {
+      await applyOperation(remote, entry);
+      await deleteRecords(STORES.outbox, [entry.id!]);
+      result.synced++;
+
+      const stillQueued = entries.some(
+        (other) => other.id! > entry.id! && getEntityKey(other) === key
+      );
+      if (!stillQueued) await setCachedStatus(entry, "synced");
+    } catch (error) {
+      if (isNetworkError(error)) {
+        result.offline = true;
+        result.remaining++;
+        continue;
+      }
+
+      console.error("Sync error:", error);
+      blocked.add(key);
+      result.failed++;
+      result.remaining++;
+      await putRecords(STORES.outbox, [
+        {
+          ...entry,
+          attempts: entry.attempts + 1,
+          lastError: String((error as { message?: string })?.message ?? error),
+        },
+      ]);
+      await setCachedStatus(entry, "failed");
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Replays queued operations against the remote backend in the order they
+ * were made. Concurrent calls for the same user share a single run.
+ */
+export function flushOutbox(userId: string, remote: ExpenseRepository): Promise<FlushResult> {
+  const running = inFlight.get(userId);
+  if (running) return running;
+
+  const run = runFlush(userId, remote).finally(() => {
+    inFlight.delete(userId);
+    notifySyncListeners();
+  });
+  inFlight.set(userId, run);
+  return run;
+}
@@ -0,0 +1,62 @@
+import { Expense } from "./types";
+import { getHomeAmount } from "./currency";
+
+// Tags are matched case- and whitespace-insensitively, like normalize_tag in the database.
+export const normalizeTag = (name: string) => name.trim().replace(/\s+/g, " ").toLowerCase();
+
+// The spelling kept for display: trimmed, with inner runs of whitespace collapsed.
+export const cleanTagName = (name: string) => name.trim().replace(/\s+/g, " ");
+
+/** Drops blanks and duplicates, keeping the first spelling of each tag. */
+export const uniqueTags = (names: string[]): string[] => {
+  const seen = new Set<string>();
+  return names.map(cleanTagName).filter((name) => {
+    const key = normalizeTag(name);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// "work, Trip;client" -> ["work", "Trip", "client"]
+export const parseTagList = (text: string): string[] => uniqueTags(text.split(/[,;]/));
+
+export const hasTag = (tags: string[] | undefined, name: string) =>
+  (tags ?? []).some((tag) => normalizeTag(tag) === normalizeTag(name));
+
+/**
+ * `tags` with `from` renamed to `to`. When the list already has `to` this is
+ * a merge and the duplicate is dropped.
+ */
+export const renameTagIn = (tags: string[] | undefined, from: string, to: string): string[] =>
+  uniqueTags((tags ?? []).map((tag) => (normalizeTag(tag) === normalizeTag(from) ? to : tag)));
+
+export const removeTagFrom = (tags: string[] | undefined, name: string): string[] =>
+  (tags ?? []).filter((tag) => normalizeTag(tag) !== normalizeTag(name));
+
+export interface TagSummary {
+  name: string;
+  count: number;
+  total: number; // In the home currency
+}
+
+/** Every tag in use, with how many expenses carry it and their total, largest first. */
+export const getTagSummaries = (expenses: Expense[]): TagSummary[] => {
+  const byKey = new Map<string, TagSummary>();
+
+  expenses.forEach((expense) => {
+    (expense.tags ?? []).forEach((tag) => {
+      const key = normalizeTag(tag);
+      const summary = byKey.get(key) ?? { name: cleanTagName(tag), count: 0, total: 0 };
+      summary.count += 1;
+      summary.total += getHomeAmount(expense);
+      byKey.set(key, summary);
+    });
+  });
+
+  return [...byKey.values()].sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+};
+
+// Rows saved before multi-tag support carry a single free-text `tag` instead.
+export const withTags = <T extends { tags?: string[]; tag?: string }>({ tag, ...row }: T) =>
+  tag && !row.tags ? { ...row, tags: uniqueTags([tag]) } : row;
@@ -1,27 +1,198 @@
-export type Category = 
-  | "food" 
-  | "travel" 
-  | "shopping" 
-  | "rent" 
-  | "entertainment" 
-  | "utilities" 
-  | "health" 
+// The categories every user starts with. Rows saved before custom categories
+// existed always hold one of these keys.
+export type BuiltInCategory =
+  | "food"
+  | "travel"
+  | "shopping"
+  | "rent"
+  | "entertainment"
+  | "utilities"
+  | "health"
   | "other";
 
+// Id of a CategoryDefinition: a BuiltInCategory key or a user category's uuid.
+export type Category = string;
+
+export interface CategoryDefinition {
+  id: Category;
+  name: string;
+  icon: string; // Key into categoryIcons (src/lib/categories.ts)
+  color: string; // #rrggbb
+  sortOrder: number; // Among siblings: top-level categories, or the children of one parent
+  archived?: boolean; // Hidden when picking a category; existing rows keep it
+  parentId?: Category; // Set on subcategories; the hierarchy is two levels deep
+}
+
 export type PaymentMethod = "cash" | "card" | "upi" | "bank";
 
+// Somewhere the user spends. Descriptions are matched to it by name or alias (src/lib/merchants.ts).
+export interface Merchant {
+  id: string;
+  name: string;
+  aliases: string[]; // Other spellings, e.g. "amazon.in" or "AMZN Mktp" for Amazon
+  createdAt: string;
+}
+
+export type RuleField = "description" | "amount" | "paymentMethod";
+export type RuleOperator = "contains" | "startsWith" | "equals" | "greaterThan" | "lessThan";
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator;
+  value: string; // Amounts are compared as numbers, text ignoring case
+}
+
+// Fills in an expense's category and adds tags when every condition holds.
+// Rules are tried in sortOrder and the first match wins.
+export interface CategoryRule {
+  id: string;
+  name: string;
+  conditions: RuleCondition[];
+  category?: Category;
+  tags?: string[];
+  sortOrder: number;
+  enabled: boolean;
+  createdAt: string;
+}
+
+// Local sync state of a row; absent or "synced" once Supabase has it.
+export type SyncStatus = "synced" | "pending" | "failed";
+
+export type AnomalyKind = "unusualAmount" | "duplicate" | "newMerchant";
+export type AnomalyVerdict = "dismissed" | "expected";
+
+// What the user said about a flagged expense (src/lib/anomalies.ts). `key` is
+// the merchant or category the flag was judged against, so later expenses
+// there are flagged less readily.
+export interface AnomalyFeedback {
+  id: string;
+  expenseId: string;
+  kind: AnomalyKind;
+  key: string;
+  verdict: AnomalyVerdict;
+  createdAt: string;
+}
+
+// One line of a split expense, in the expense's own currency.
+export interface ExpenseSplit {
+  category: Category;
+  amount: number;
+  note?: string;
+}
+
 export interface Expense {
   id: string;
   date: string;
   category: Category;
   description: string;
   amount: number;
+  currency: string; // ISO 4217 code the amount was paid in
+  // Derived on read: `amount` in the profile's home currency, when a rate is known. Never stored.
+  convertedAmount?: number;
+  // Derived on read: in another currency with no known rate, so left out of totals. Never stored.
+  rateMissing?: boolean;
   paymentMethod: PaymentMethod;
-  tag?: string;
+  accountId?: string; // Account charged; absent on rows from before accounts existed
+  tags?: string[]; // Display names, unique by normalizeTag (src/lib/tags.ts)
+  merchantId?: string;
+  // Line items adding up to `amount`; `category` is then the largest line's. Absent when not split.
+  splits?: ExpenseSplit[];
+  createdAt: string;
+  // Set on rows generated from a RecurringExpense template.
+  recurringId?: string;
+  syncStatus?: SyncStatus;
+}
+
+// A receipt image or PDF attached to an expense. The file itself is fetched
+// separately (ExpenseRepository.getReceiptFile); this is only its description.
+export interface Receipt {
+  id: string;
+  expenseId: string;
+  fileName: string;
+  mimeType: string;
+  size: number; // Bytes
   createdAt: string;
 }
 
 export interface MonthlyBudget {
-  month: string; // Format: YYYY-MM
+  month: string; // Format: YYYY-MM, the month the budget period starts in
   amount: number;
+  syncStatus?: SyncStatus;
+}
+
+// A spending limit for one category in one month, alongside the overall MonthlyBudget.
+export interface CategoryBudget {
+  month: string; // Format: YYYY-MM, the month the budget period starts in
+  category: Category;
+  amount: number;
+}
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly" | "interval";
+
+export interface RecurringExpense {
+  id: string;
+  description: string;
+  amount: number;
+  currency: string;
+  category: Category;
+  paymentMethod: PaymentMethod;
+  accountId?: string;
+  tags?: string[]; // Copied onto every expense the template creates
+  frequency: RecurrenceFrequency;
+  intervalDays?: number; // Only for "interval": repeat every N days
+  dayOfMonth?: number; // Only for "monthly": 1-31, clamped to the month's length
+  startDate: string; // Format: YYYY-MM-DD
+  endDate?: string; // Inclusive; open-ended when absent
+  lastGeneratedDate?: string; // Latest occurrence already turned into an Expense
+  createdAt: string;
+}
+
+// 1 unit of baseCurrency = rate units of quoteCurrency on `date`.
+export interface ExchangeRate {
+  date: string; // Format: YYYY-MM-DD
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+}
+
+export type IncomeSource = "salary" | "freelance" | "refund" | "interest" | "gift" | "other";
+
+// Money coming in; kept apart from Expense so spending totals never include it.
+export interface Income {
+  id: string;
+  date: string; // Format: YYYY-MM-DD
+  source: IncomeSource;
+  description: string;
+  amount: number;
+  currency: string;
+  // Derived on read, as for Expense.
+  convertedAmount?: number;
+  rateMissing?: boolean;
+  accountId?: string; // Account credited
+  createdAt: string;
+}
+
+export type AccountType = "cash" | "bank" | "card" | "wallet";
+
+// Somewhere money is held or owed, e.g. "HDFC Credit Card" or "Cash wallet".
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  currency: string;
+  openingBalance: number; // Balance before any recorded activity; negative for money owed
+  archived?: boolean;
+  createdAt: string;
+}
+
+// Money moved between two of the user's accounts; never counted as spending or income.
+export interface Transfer {
+  id: string;
+  date: string; // Format: YYYY-MM-DD
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number; // In the source account's currency
+  toAmount?: number; // Amount received, when the accounts use different currencies
+  note?: string;
+  createdAt: string;
 }
@@ -0,0 +1,258 @@
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { Archive, ArrowLeft, CheckCircle2, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { UnconvertedNotice } from "@/components/UnconvertedNotice";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAccounts, useTransfers } from "@/hooks/use-accounts";
+import { useExchangeRates } from "@/hooks/use-currency";
+import { useExpenses } from "@/hooks/use-expenses";
+import { useIncome } from "@/hooks/use-income";
+import { repository } from "@/lib/repository";
+import { getAccountLedger, getAccountTypeInfo } from "@/lib/accounts";
+import { formatMoney } from "@/lib/currency";
+import { Account } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+// Balance history and reconciliation for a single account.
+export default function AccountDetail() {
+  const navigate = useNavigate();
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: accounts = [], isLoading } = useAccounts();
+  const { data: transfers = [] } = useTransfers();
+  const { data: expenses = [] } = useExpenses();
+  const { data: income = [] } = useIncome();
+  const { data: rates = [] } = useExchangeRates();
+  const [actualBalance, setActualBalance] = useState("");
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  const account = accounts.find((candidate) => candidate.id === id);
+
+  const archiveMutation = useMutation({
+    mutationFn: (target: Account) => repository.saveAccount(user!.id, { ...target, archived: !target.archived }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      toast.success(account?.archived ? "Account restored" : "Account archived");
+    },
+    onError: () => {
+      toast.error("Could not update account");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (accountId: string) => repository.deleteAccount(user!.id, accountId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["transfers"] });
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["income"] });
+      queryClient.invalidateQueries({ queryKey: ["recurring"] });
+      toast.success("Account deleted. Its expenses were kept.");
+      navigate("/accounts");
+    },
+    onError: () => {
+      toast.error("Could not delete account");
+    },
+  });
+
+  if (!account) {
+    return (
+      <div className="min-h-screen bg-background pb-24 pt-6 px-4">
+        <div className="max-w-2xl mx-auto text-center text-muted-foreground">
+          {isLoading ? "Loading..." : "Account not found"}
+        </div>
+      </div>
+    );
+  }
+
+  const ledger = getAccountLedger(account, { expenses, income, transfers, rates });
+  const balance = ledger.length > 0 ? ledger[ledger.length - 1].balance : account.openingBalance;
+  const numActual = parseFloat(actualBalance);
+  const difference = isNaN(numActual) ? null : Math.round((numActual - balance) * 100) / 100;
+  const typeInfo = getAccountTypeInfo(account.type);
+  // Deleting the account deletes these outright; expenses and income only lose the link.
+  const transferCount = transfers.filter(
+    (transfer) => transfer.fromAccountId === account.id || transfer.toAccountId === account.id
+  ).length;
+
+  return (
+    <div className="min-h-screen bg-background pb-24 pt-6 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/accounts")} className="rounded-full">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex-1 min-w-0">
+            <h1 className="text-3xl font-bold text-foreground truncate">{account.name}</h1>
+            <p className="text-muted-foreground">
+              {typeInfo.label}
+              {account.archived && " · Archived"}
+            </p>
+          </div>
+          <Button
+            size="icon"
+            variant="ghost"
+            title={account.archived ? "Restore" : "Archive"}
+            onClick={() => archiveMutation.mutate(account)}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            <Archive className="w-4 h-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            title="Delete"
+            onClick={() => setConfirmingDelete(true)}
+            className="text-muted-foreground hover:text-destructive"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+
+        {/* Balance */}
+        <div className="bg-gradient-to-br from-primary to-accent rounded-3xl p-6 shadow-xl text-primary-foreground">
+          <p className="text-sm opacity-90 mb-2">Current balance</p>
+          <div className="text-4xl font-bold">{formatMoney(balance, account.currency)}</div>
+          <p className="text-sm opacity-90 mt-2">
+            Opening balance {formatMoney(account.openingBalance, account.currency)}
+          </p>
+          <UnconvertedNotice
+            count={ledger.filter((entry) => entry.unconverted).length}
+            currency={account.currency}
+            noun={["entry", "entries"]}
+            className="mt-3 text-primary-foreground/90"
+          />
+        </div>
+
+        {/* Reconciliation */}
+        <div className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-3">
+          <h2 className="text-lg font-semibold text-foreground">Reconcile</h2>
+          <Label htmlFor="actual-balance">What does your statement or wallet say?</Label>
+          <Input
+            id="actual-balance"
+            type="number"
+            step="0.01"
+            placeholder={balance.toFixed(2)}
+            value={actualBalance}
+            onChange={(e) => setActualBalance(e.target.value)}
+            className="rounded-xl h-12 text-base"
+          />
+          {difference !== null &&
+            (difference === 0 ? (
+              <p className="flex items-center gap-2 text-sm text-success font-medium">
+                <CheckCircle2 className="w-4 h-4" />
+                Balanced — your records match.
+              </p>
+            ) : (
+              <p className="text-sm text-foreground">
+                Difference:{" "}
+                <span className={cn("font-semibold", difference < 0 ? "text-destructive" : "text-success")}>
+                  {difference > 0 ? "+" : ""}
+                  {formatMoney(difference, account.currency)}
+                </span>
+                <span className="block text-muted-foreground mt-1">
+                  {difference < 0
+                    ? "You have less than recorded: an expense may be missing."
+                    : "You have more than recorded: income or a refund may be missing, or an expense was entered twice."}
+                </span>
+              </p>
+            ))}
+        </div>
+
+        {/* Ledger */}
+        <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
+          <h2 className="text-lg font-semibold text-foreground mb-4">Activity</h2>
+          {ledger.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing has been charged to this account yet.</p>
+          ) : (
+            <div className="divide-y divide-border">
+              {[...ledger].reverse().map((entry) => (
+                <div key={`${entry.kind}:${entry.id}`} className="flex items-center justify-between gap-3 py-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{entry.description}</p>
+                    <p className="text-xs text-muted-foreground">{format(parseISO(entry.date), "MMM dd, yyyy")}</p>
+                  </div>
+                  {entry.unconverted ? (
+                    <div className="text-right">
+                      <p className="font-semibold whitespace-nowrap text-muted-foreground">
+                        {entry.unconverted.amount > 0 ? "+" : ""}
+                        {formatMoney(entry.unconverted.amount, entry.unconverted.currency)}
+                      </p>
+                      <p className="text-xs text-muted-foreground whitespace-nowrap">
+                        No {entry.unconverted.currency}→{account.currency} rate
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="text-right">
+                      <p
+                        className={cn(
+                          "font-semibold whitespace-nowrap",
+                          entry.amount < 0 ? "text-foreground" : "text-success"
+                        )}
+                      >
+                        {entry.amount > 0 ? "+" : ""}
+                        {formatMoney(entry.amount, account.currency)}
+                      </p>
+                      <p className="text-xs text-muted-foreground whitespace-nowrap">
+                        {formatMoney(entry.balance, account.currency)}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <AlertDialog open={confirmingDelete} onOpenChange={setConfirmingDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {account.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its expenses and income are kept but no longer belong to an account.
+              {transferCount > 0 &&
+                ` ${transferCount} transfer${transferCount === 1 ? "" : "s"} to or from it will be deleted for good.`}
+              {!account.archived && " To hide the account but keep its history, archive it instead."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            {!account.archived && (
+              <AlertDialogAction
+                className="bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                onClick={() => archiveMutation.mutate(account)}
+              >
+                Archive Instead
+              </AlertDialogAction>
+            )}
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deleteMutation.mutate(account.id)}
+            >
+              Delete Account
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
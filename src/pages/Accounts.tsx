@@ -0,0 +1,360 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { ArrowLeft, ArrowRightLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAccounts, useTransfers } from "@/hooks/use-accounts";
+import { useExchangeRates, useHomeCurrency } from "@/hooks/use-currency";
+import { useExpenses } from "@/hooks/use-expenses";
+import { useIncome } from "@/hooks/use-income";
+import { repository } from "@/lib/repository";
+import { accountTypes, getAccountLedger, getAccountTypeInfo } from "@/lib/accounts";
+import { currencies, formatMoney } from "@/lib/currency";
+import { Account, AccountType, Transfer } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+export default function Accounts() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const homeCurrency = useHomeCurrency();
+  const { data: accounts = [] } = useAccounts();
+  const { data: transfers = [] } = useTransfers();
+  const { data: expenses = [] } = useExpenses();
+  const { data: income = [] } = useIncome();
+  const { data: rates = [] } = useExchangeRates();
+
+  const [name, setName] = useState("");
+  const [type, setType] = useState<AccountType>("bank");
+  const [openingBalance, setOpeningBalance] = useState("");
+  const [currencyChoice, setCurrencyChoice] = useState<string | null>(null);
+  const accountCurrency = currencyChoice ?? homeCurrency;
+
+  const [fromAccountId, setFromAccountId] = useState("");
+  const [toAccountId, setToAccountId] = useState("");
+  const [transferAmount, setTransferAmount] = useState("");
+  const [receivedAmount, setReceivedAmount] = useState("");
+  const [transferDate, setTransferDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [transferNote, setTransferNote] = useState("");
+
+  const activeAccounts = accounts.filter((account) => !account.archived);
+  const archivedAccounts = accounts.filter((account) => account.archived);
+  const sources = { expenses, income, transfers, rates };
+  const fromAccount = accounts.find((account) => account.id === fromAccountId);
+  const toAccount = accounts.find((account) => account.id === toAccountId);
+  const crossCurrency = !!fromAccount && !!toAccount && fromAccount.currency !== toAccount.currency;
+
+  const saveAccountMutation = useMutation({
+    mutationFn: (account: Account) => repository.saveAccount(user!.id, account),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["accounts"] });
+      toast.success("Account added");
+      setName("");
+      setOpeningBalance("");
+      setCurrencyChoice(null);
+    },
+    onError: () => {
+      toast.error("Could not save account");
+    },
+  });
+
+  const saveTransferMutation = useMutation({
+    mutationFn: (transfer: Transfer) => repository.saveTransfer(user!.id, transfer),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["transfers"] });
+      toast.success("Transfer recorded");
+      setTransferAmount("");
+      setReceivedAmount("");
+      setTransferNote("");
+    },
+    onError: () => {
+      toast.error("Could not record transfer");
+    },
+  });
+
+  const handleAddAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      toast.error("Please enter a name");
+      return;
+    }
+    const numBalance = openingBalance.trim() ? parseFloat(openingBalance) : 0;
+    if (isNaN(numBalance)) {
+      toast.error("Please enter a valid opening balance");
+      return;
+    }
+
+    saveAccountMutation.mutate({
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      type,
+      currency: accountCurrency,
+      openingBalance: numBalance,
+      createdAt: new Date().toISOString(),
+    });
+  };
+
+  const handleTransfer = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const numAmount = parseFloat(transferAmount);
+    if (!fromAccountId || !toAccountId || fromAccountId === toAccountId) {
+      toast.error("Pick two different accounts");
+      return;
+    }
+    if (isNaN(numAmount) || numAmount <= 0) {
+      toast.error("Please enter a valid amount");
+      return;
+    }
+    const numReceived = parseFloat(receivedAmount);
+    if (crossCurrency && (isNaN(numReceived) || numReceived <= 0)) {
+      toast.error(`Please enter the amount received in ${toAccount!.currency}`);
+      return;
+    }
+
+    saveTransferMutation.mutate({
+      id: crypto.randomUUID(),
+      date: transferDate,
+      fromAccountId,
+      toAccountId,
+      amount: numAmount,
+      toAmount: crossCurrency ? numReceived : undefined,
+      note: transferNote.trim() || undefined,
+      createdAt: new Date().toISOString(),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-24 pt-6 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="rounded-full">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Accounts</h1>
+            <p className="text-muted-foreground">Where your money is, and what you owe</p>
+          </div>
+        </div>
+
+        {/* Account list */}
+        {activeAccounts.length === 0 ? (
+          <div className="bg-card rounded-2xl p-8 text-center shadow-md border border-border">
+            <p className="text-muted-foreground">
+              No accounts yet. Add your cash, bank accounts and cards below to track their balances.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {activeAccounts.map((account) => {
+              const typeInfo = getAccountTypeInfo(account.type);
+              const Icon = typeInfo.icon;
+              const ledger = getAccountLedger(account, sources);
+              const balance = ledger.length > 0 ? ledger[ledger.length - 1].balance : account.openingBalance;
+              const unconverted = ledger.filter((entry) => entry.unconverted).length;
+
+              return (
+                <button
+                  key={account.id}
+                  type="button"
+                  onClick={() => navigate(`/accounts/${account.id}`)}
+                  className="w-full bg-card rounded-2xl p-4 shadow-md border border-border flex items-center gap-3 text-left hover:shadow-lg transition-shadow"
+                >
+                  <div className="w-12 h-12 rounded-xl flex items-center justify-center shrink-0 bg-primary/10">
+                    <Icon className="w-6 h-6 text-primary" />
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-semibold text-foreground truncate">{account.name}</h3>
+                    <p className="text-sm text-muted-foreground">
+                      {typeInfo.label}
+                      {unconverted > 0 && ` · ${unconverted} not converted`}
+                    </p>
+                  </div>
+                  <span
+                    className={cn(
+                      "font-bold text-lg whitespace-nowrap",
+                      balance < 0 ? "text-destructive" : "text-foreground"
+                    )}
+                  >
+                    {formatMoney(balance, account.currency)}
+                  </span>
+                  <ChevronRight className="w-4 h-4 text-muted-foreground" />
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {archivedAccounts.length > 0 && (
+          <p className="text-sm text-muted-foreground">
+            Archived:{" "}
+            {archivedAccounts.map((account, index) => (
+              <span key={account.id}>
+                {index > 0 && ", "}
+                <button type="button" className="underline" onClick={() => navigate(`/accounts/${account.id}`)}>
+                  {account.name}
+                </button>
+              </span>
+            ))}
+          </p>
+        )}
+
+        {/* Transfer */}
+        {activeAccounts.length >= 2 && (
+          <form onSubmit={handleTransfer} className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-4">
+            <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+              <ArrowRightLeft className="w-5 h-5" />
+              Transfer between accounts
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              Paying a card bill or topping up a wallet moves money; it is not counted as spending.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              {([
+                { label: "From", value: fromAccountId, onChange: setFromAccountId },
+                { label: "To", value: toAccountId, onChange: setToAccountId },
+              ] as const).map((field) => (
+                <div key={field.label} className="space-y-2">
+                  <Label>{field.label}</Label>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <SelectTrigger className="rounded-xl h-12 text-base">
+                      <SelectValue placeholder="Account" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeAccounts.map((account) => (
+                        <SelectItem key={account.id} value={account.id}>
+                          {account.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="transfer-amount">Amount{fromAccount ? ` (${fromAccount.currency})` : ""}</Label>
+                <Input
+                  id="transfer-amount"
+                  type="number"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={transferAmount}
+                  onChange={(e) => setTransferAmount(e.target.value)}
+                  className="rounded-xl h-12 text-base"
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="transfer-date">Date</Label>
+                <Input
+                  id="transfer-date"
+                  type="date"
+                  value={transferDate}
+                  onChange={(e) => setTransferDate(e.target.value)}
+                  className="rounded-xl h-12 text-base"
+                  required
+                />
+              </div>
+            </div>
+            {crossCurrency && (
+              <div className="space-y-2">
+                <Label htmlFor="received-amount">Amount received ({toAccount!.currency})</Label>
+                <Input
+                  id="received-amount"
+                  type="number"
+                  step="0.01"
+                  placeholder="0.00"
+                  value={receivedAmount}
+                  onChange={(e) => setReceivedAmount(e.target.value)}
+                  className="rounded-xl h-12 text-base"
+                  required
+                />
+              </div>
+            )}
+            <Input
+              placeholder="Note (Optional), e.g. Credit card bill"
+              value={transferNote}
+              onChange={(e) => setTransferNote(e.target.value)}
+              className="rounded-xl h-12 text-base"
+            />
+            <Button type="submit" className="w-full rounded-xl" disabled={saveTransferMutation.isPending}>
+              Record Transfer
+            </Button>
+          </form>
+        )}
+
+        {/* New account */}
+        <form onSubmit={handleAddAccount} className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">Add an account</h2>
+          <div className="space-y-2">
+            <Label htmlFor="account-name">Name</Label>
+            <Input
+              id="account-name"
+              placeholder="e.g., HDFC Credit Card"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="rounded-xl h-12 text-base"
+              required
+            />
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            {accountTypes.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setType(option.value)}
+                className={cn(
+                  "flex flex-col items-center gap-1 p-3 rounded-xl border-2 transition-all",
+                  type === option.value ? "border-primary bg-primary/10" : "border-border bg-card hover:border-primary/50"
+                )}
+              >
+                <option.icon
+                  className={cn("w-5 h-5", type === option.value ? "text-primary" : "text-muted-foreground")}
+                />
+                <span className="text-xs font-medium">{option.label}</span>
+              </button>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="opening-balance">Opening balance</Label>
+            <div className="flex gap-3">
+              <Input
+                id="opening-balance"
+                type="number"
+                step="0.01"
+                placeholder={type === "card" ? "e.g. -2500 if you owe money" : "0.00"}
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+                className="rounded-xl h-12 text-base flex-1"
+              />
+              <Select value={accountCurrency} onValueChange={setCurrencyChoice}>
+                <SelectTrigger className="rounded-xl h-12 text-base w-28" aria-label="Currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencies.map((option) => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <Button type="submit" className="w-full rounded-xl" disabled={saveAccountMutation.isPending}>
+            Add Account
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,24 +1,51 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
-import { supabaseStorage } from "@/lib/storage";
-import { Category, PaymentMethod, Expense } from "@/lib/types";
-import { categories } from "@/lib/categories";
+import { repository } from "@/lib/repository";
+import { Category, PaymentMethod, Expense, ExpenseSplit, Receipt, RecurringExpense } from "@/lib/types";
+import { defaultCategories, getActiveCategories, getCategoryIcon, getCategoryLabel } from "@/lib/categories";
+import { paymentMethods } from "@/lib/paymentMethods";
+import { currencies, formatMoney, getCurrencySymbol } from "@/lib/currency";
+import { useHomeCurrency } from "@/hooks/use-currency";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useCategories } from "@/hooks/use-categories";
+import { useExpenses } from "@/hooks/use-expenses";
+import { getTagSummaries, hasTag, uniqueTags } from "@/lib/tags";
+import { suggestFromDescription, trainClassifier } from "@/lib/classifier";
+import { useCategoryRules } from "@/hooks/use-category-rules";
+import { useMerchants } from "@/hooks/use-merchants";
+import { matchMerchant } from "@/lib/merchants";
+import { describeRule, findMatchingRule } from "@/lib/rules";
+import { getPrimaryCategory, getUnassignedAmount, isSplit, validateSplits } from "@/lib/splits";
+import { TagInput } from "@/components/TagInput";
+import { useReceipts } from "@/hooks/use-receipts";
+import { RECEIPT_ACCEPT, ReceiptError, validateReceiptFile } from "@/lib/receipts";
+import { FileThumbnail, ReceiptThumbnail } from "@/components/ReceiptThumbnail";
+import { getDefaultAccount } from "@/lib/accounts";
+import { frequencyOptions, materializeRecurringExpenses, updateFutureOccurrences } from "@/lib/recurring";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { cn } from "@/lib/utils";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { toast } from "sonner";
-import { ArrowLeft } from "lucide-react";
+import { ArrowLeft, Paperclip, Plus, Sparkles, X } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 
-const paymentMethods: { value: PaymentMethod; label: string }[] = [
-  { value: "cash", label: "Cash" },
-  { value: "card", label: "Card" },
-  { value: "upi", label: "UPI" },
-  { value: "bank", label: "Bank Transfer" },
-];
+// A split line as typed; the amount stays a string until submit.
+interface SplitLine {
+  category: Category;
+  amount: string;
+  note: string;
+}
+
+const toSplits = (lines: SplitLine[]): ExpenseSplit[] =>
+  lines.map((line) => ({
+    category: line.category,
+    amount: parseFloat(line.amount) || 0,
+    note: line.note.trim() || undefined,
+  }));
 
 export default function AddExpense() {
   const navigate = useNavigate();
@@ -26,43 +53,199 @@ export default function AddExpense() {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const editingExpense = location.state?.expense as Expense | undefined;
+  const homeCurrency = useHomeCurrency();
+  const { data: accounts = [] } = useAccounts();
+  const { data: categories = defaultCategories } = useCategories();
+  const { data: expenses = [] } = useExpenses();
+  const { data: allReceipts = [] } = useReceipts();
+  const { data: rules = [] } = useCategoryRules();
+  const { data: merchants = [] } = useMerchants();
+  const tagSuggestions = getTagSummaries(expenses)
+    .sort((a, b) => b.count - a.count)
+    .map((summary) => summary.name);
 
   const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
-  const [category, setCategory] = useState<Category>("food");
+  // Null until the user picks one, so new expenses start on the first category in the user's order.
+  const [categoryChoice, setCategoryChoice] = useState<Category | null>(null);
   const [description, setDescription] = useState("");
   const [amount, setAmount] = useState("");
+  // Null until the user picks one, so new expenses follow the profile's home currency.
+  const [currencyChoice, setCurrencyChoice] = useState<string | null>(null);
   const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("upi");
-  const [tag, setTag] = useState("");
+  // Null until the user picks one, so the account follows the payment method.
+  const [accountChoice, setAccountChoice] = useState<string | null>(null);
+  // Null until the user edits them, so a matching rule can fill them in.
+  const [tagsChoice, setTagsChoice] = useState<string[] | null>(null);
+  // Null until the user picks one, so the merchant follows the description; "" is an explicit "none".
+  const [merchantChoice, setMerchantChoice] = useState<string | null>(null);
+  const [frequency, setFrequency] = useState<RecurringExpense["frequency"] | "none">("none");
+  const [intervalDays, setIntervalDays] = useState("30");
+  const [endDate, setEndDate] = useState("");
+  const [editScope, setEditScope] = useState<"occurrence" | "future">("occurrence");
+  // Receipt changes are held here and applied once the expense itself has saved.
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+  const [removedReceipts, setRemovedReceipts] = useState<Receipt[]>([]);
+  // Null while the expense has a single category.
+  const [splitLines, setSplitLines] = useState<SplitLine[] | null>(null);
+  const currency = currencyChoice ?? homeCurrency;
+  const categoryOptions = getActiveCategories(categories, editingExpense?.category);
+  // Only offered while the user hasn't picked the category or tags themselves.
+  const matchedRule =
+    categoryChoice === null || tagsChoice === null
+      ? findMatchingRule(rules, { description, amount: parseFloat(amount) || 0, paymentMethod })
+      : undefined;
+  const category = categoryChoice ?? matchedRule?.category ?? categoryOptions[0]?.id ?? "other";
+  const tags = tagsChoice ?? matchedRule?.tags ?? [];
+  const matchedMerchant = merchantChoice === null ? matchMerchant(description, merchants) : undefined;
+  const merchantId = merchantChoice === null ? matchedMerchant?.id : merchantChoice || undefined;
+
+  // Retrained whenever the history changes, so edits to past expenses feed straight back in.
+  const classifier = useMemo(() => trainClassifier(expenses), [expenses]);
+  const suggestions = description.trim() ? suggestFromDescription(classifier, description) : {};
+  // Archived categories can still be learned from history, but are no longer offered.
+  const suggestedCategory =
+    !splitLines &&
+    suggestions.category?.value !== category &&
+    categoryOptions.some((option) => option.id === suggestions.category?.value)
+      ? suggestions.category
+      : undefined;
+  const suggestedPayment = suggestions.paymentMethod?.value !== paymentMethod ? suggestions.paymentMethod : undefined;
+  const suggestedTag = suggestions.tag && !hasTag(tags, suggestions.tag.value) ? suggestions.tag : undefined;
+  const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+  const accountId = accountChoice ?? getDefaultAccount(accounts, paymentMethod)?.id;
+  const receipts = allReceipts.filter(
+    (receipt) =>
+      receipt.expenseId === editingExpense?.id && !removedReceipts.some((removed) => removed.id === receipt.id)
+  );
 
   useEffect(() => {
     if (editingExpense) {
       setDate(editingExpense.date);
-      setCategory(editingExpense.category);
+      setCategoryChoice(editingExpense.category);
       setDescription(editingExpense.description);
       setAmount(editingExpense.amount.toString());
+      setCurrencyChoice(editingExpense.currency);
       setPaymentMethod(editingExpense.paymentMethod);
-      setTag(editingExpense.tag || "");
+      setAccountChoice(editingExpense.accountId ?? null);
+      setTagsChoice(editingExpense.tags ?? []);
+      setMerchantChoice(editingExpense.merchantId ?? "");
+      if (isSplit(editingExpense)) {
+        setSplitLines(
+          editingExpense.splits!.map((split) => ({
+            category: split.category,
+            amount: split.amount.toString(),
+            note: split.note ?? "",
+          }))
+        );
+      }
     }
   }, [editingExpense]);
 
+  // A receipt that fails doesn't undo the expense; the user is told and can attach it again from Edit.
+  const saveReceipts = async (expenseId: string) => {
+    if (pendingFiles.length === 0 && removedReceipts.length === 0) return;
+
+    try {
+      for (const receipt of removedReceipts) {
+        await repository.deleteReceipt(user!.id, receipt);
+      }
+      for (const file of pendingFiles) {
+        await repository.addReceipt(user!.id, expenseId, file);
+      }
+    } catch (error) {
+      console.error("Receipt error:", error);
+      toast.error(
+        error instanceof ReceiptError ? error.message : "The expense was saved, but its receipts could not be updated"
+      );
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ["receipts"] });
+    }
+  };
+
+  const startSplit = () => {
+    // Starts with the whole amount on the current category and an empty line to move some of it to.
+    const other = categoryOptions.find((option) => option.id !== category)?.id ?? category;
+    setSplitLines([
+      { category, amount: amount, note: "" },
+      { category: other, amount: "", note: "" },
+    ]);
+  };
+
+  const updateSplitLine = (index: number, changes: Partial<SplitLine>) =>
+    setSplitLines((lines) => lines && lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const unassigned = splitLines ? getUnassignedAmount(toSplits(splitLines), parseFloat(amount) || 0) : 0;
+
+  const handleFiles = (files: FileList | null) => {
+    const accepted: File[] = [];
+    for (const file of Array.from(files ?? [])) {
+      const problem = validateReceiptFile(file);
+      if (problem) toast.error(problem);
+      else accepted.push(file);
+    }
+    setPendingFiles((current) => [...current, ...accepted]);
+  };
+
   const addMutation = useMutation({
-    mutationFn: (expense: Omit<Expense, "id" | "createdAt">) =>
-      supabaseStorage.addExpense(user!.id, expense),
+    mutationFn: async (expense: Omit<Expense, "id" | "createdAt">) => {
+      const created = await repository.addExpense(user!.id, expense);
+      await saveReceipts(created.id);
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["expenses"] });
-      toast.success("Expense added successfully!");
+      toast.success(
+        repository.sync && !navigator.onLine
+          ? "Expense saved offline. It will sync when you're back online."
+          : "Expense added successfully!"
+      );
       navigate("/");
     },
+    onError: () => {
+      toast.error("Could not save expense");
+    },
+  });
+
+  const addRecurringMutation = useMutation({
+    mutationFn: async (template: RecurringExpense) => {
+      await repository.saveRecurringExpense(user!.id, template);
+      await materializeRecurringExpenses(repository, user!.id);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["recurring"] });
+      toast.success("Recurring expense saved!");
+      navigate("/");
+    },
+    onError: () => {
+      toast.error("Could not save recurring expense");
+    },
   });
 
   const updateMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: Partial<Expense> }) =>
-      supabaseStorage.updateExpense(id, data),
+    mutationFn: async ({ id, data }: { id: string; data: Omit<Expense, "id" | "createdAt"> }) => {
+      await repository.updateExpense(user!.id, id, data);
+      await saveReceipts(id);
+
+      if (editingExpense?.recurringId && editScope === "future") {
+        const { date: _date, recurringId: _recurringId, splits: _splits, ...templateFields } = data;
+        await updateFutureOccurrences(
+          repository,
+          user!.id,
+          editingExpense.recurringId,
+          editingExpense.date,
+          templateFields
+        );
+      }
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      queryClient.invalidateQueries({ queryKey: ["recurring"] });
       toast.success("Expense updated successfully!");
       navigate("/");
     },
+    onError: () => {
+      toast.error("Could not update expense");
+    },
   });
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -79,31 +262,88 @@ export default function AddExpense() {
       return;
     }
 
-    if (editingExpense) {
+    const splits = splitLines ? toSplits(splitLines) : undefined;
+    if (splits) {
+      const problem = validateSplits(splits, numAmount);
+      if (problem) {
+        toast.error(problem);
+        return;
+      }
+      // The template would overwrite every future occurrence's lines with its single category.
+      if (editingExpense?.recurringId && editScope === "future") {
+        toast.error("A split can only be saved on this occurrence");
+        return;
+      }
+    }
+    const expenseCategory = splits ? getPrimaryCategory(splits) : category;
+
+    if (!editingExpense && frequency !== "none") {
+      // Templates have no split lines, so every occurrence would come out unsplit.
+      if (splits) {
+        toast.error("A recurring expense can't be split. Split single occurrences once they're created.");
+        return;
+      }
+      const numInterval = parseInt(intervalDays, 10);
+      if (frequency === "interval" && (isNaN(numInterval) || numInterval <= 0)) {
+        toast.error("Please enter how many days between repeats");
+        return;
+      }
+      if (endDate && endDate < date) {
+        toast.error("End date must be after the start date");
+        return;
+      }
+
+      addRecurringMutation.mutate({
+        id: crypto.randomUUID(),
+        description: description.trim(),
+        amount: numAmount,
+        currency,
+        category,
+        paymentMethod,
+        accountId,
+        tags: tags.length > 0 ? tags : undefined,
+        frequency,
+        intervalDays: frequency === "interval" ? numInterval : undefined,
+        dayOfMonth: frequency === "monthly" ? parseISO(date).getDate() : undefined,
+        startDate: date,
+        endDate: endDate || undefined,
+        createdAt: new Date().toISOString(),
+      });
+    } else if (editingExpense) {
       updateMutation.mutate({
         id: editingExpense.id,
         data: {
           date,
-          category,
+          category: expenseCategory,
           description: description.trim(),
           amount: numAmount,
+          currency,
           paymentMethod,
-          tag: tag.trim() || undefined,
+          accountId,
+          merchantId,
+          // Always sent, so removing the last tag clears them.
+          tags,
+          // Likewise, so going back to one category removes the lines.
+          splits,
         },
       });
     } else {
       addMutation.mutate({
         date,
-        category,
+        category: expenseCategory,
         description: description.trim(),
         amount: numAmount,
+        currency,
         paymentMethod,
-        tag: tag.trim() || undefined,
+        accountId,
+        merchantId,
+        tags: tags.length > 0 ? tags : undefined,
+        splits,
       });
     }
   };
 
-  const isLoading = addMutation.isPending || updateMutation.isPending;
+  const isLoading = addMutation.isPending || updateMutation.isPending || addRecurringMutation.isPending;
 
   return (
     <div className="min-h-screen bg-background pb-24 pt-6 px-4">
@@ -137,32 +377,112 @@ export default function AddExpense() {
             />
           </div>
 
-          {/* Category */}
+          {/* Category, or the split lines (not on recurring templates) */}
           <div className="space-y-3">
-            <Label className="text-base font-semibold">Category</Label>
-            <div className="grid grid-cols-4 gap-3">
-              {categories.map((cat) => (
-                <button
-                  key={cat.value}
+            <div className="flex items-center justify-between">
+              <Label className="text-base font-semibold">{splitLines ? "Split" : "Category"}</Label>
+              {frequency === "none" && (
+                <Button
                   type="button"
-                  onClick={() => setCategory(cat.value)}
-                  className={cn(
-                    "flex flex-col items-center gap-2 p-4 rounded-2xl border-2 transition-all",
-                    category === cat.value
-                      ? "border-primary bg-primary/10"
-                      : "border-border bg-card hover:border-primary/50"
-                  )}
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => (splitLines ? setSplitLines(null) : startSplit())}
+                  className="text-muted-foreground"
                 >
-                  <cat.icon
-                    className={cn(
-                      "w-8 h-8",
-                      category === cat.value ? "text-primary" : "text-muted-foreground"
-                    )}
-                  />
-                  <span className="text-xs font-medium">{cat.label}</span>
-                </button>
-              ))}
+                  {splitLines ? "Use one category" : "Split across categories"}
+                </Button>
+              )}
             </div>
+            {splitLines ? (
+              <div className="space-y-3">
+                {splitLines.map((line, index) => (
+                  <div key={index} className="flex gap-2">
+                    <Select value={line.category} onValueChange={(value) => updateSplitLine(index, { category: value })}>
+                      <SelectTrigger className="rounded-xl h-12 flex-1 min-w-0" aria-label="Category">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {getActiveCategories(categories, line.category).map((cat) => (
+                          <SelectItem key={cat.id} value={cat.id}>
+                            {getCategoryLabel(cat.id, categories)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      placeholder="0.00"
+                      aria-label="Amount"
+                      value={line.amount}
+                      onChange={(e) => updateSplitLine(index, { amount: e.target.value })}
+                      className="rounded-xl h-12 text-base w-28"
+                    />
+                    <Input
+                      type="text"
+                      placeholder="Note"
+                      aria-label="Note"
+                      value={line.note}
+                      onChange={(e) => updateSplitLine(index, { note: e.target.value })}
+                      className="rounded-xl h-12 text-base flex-1 min-w-0"
+                      maxLength={60}
+                    />
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      title="Remove line"
+                      onClick={() => setSplitLines(splitLines.filter((_, i) => i !== index))}
+                      disabled={splitLines.length <= 2}
+                      className="h-12 w-10 shrink-0 text-muted-foreground hover:text-destructive"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between gap-3">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="rounded-xl"
+                    onClick={() => setSplitLines([...splitLines, { category, amount: "", note: "" }])}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add line
+                  </Button>
+                  <span className={cn("text-sm", unassigned === 0 ? "text-muted-foreground" : "text-destructive")}>
+                    {unassigned === 0
+                      ? "Adds up to the total"
+                      : unassigned > 0
+                      ? `${formatMoney(unassigned, currency)} left to assign`
+                      : `${formatMoney(-unassigned, currency)} over the total`}
+                  </span>
+                </div>
+              </div>
+            ) : (
+              <div className="grid grid-cols-4 gap-3">
+                {categoryOptions.map((cat) => {
+                  const Icon = getCategoryIcon(cat.icon);
+                  return (
+                    <button
+                      key={cat.id}
+                      type="button"
+                      onClick={() => setCategoryChoice(cat.id)}
+                      className={cn(
+                        "flex flex-col items-center gap-2 p-4 rounded-2xl border-2 transition-all",
+                        category === cat.id
+                          ? "border-primary bg-primary/10"
+                          : "border-border bg-card hover:border-primary/50"
+                      )}
+                    >
+                      <Icon className="w-8 h-8" style={{ color: cat.color }} />
+                      <span className="text-xs font-medium text-center break-words">{getCategoryLabel(cat.id, categories)}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
           </div>
 
           {/* Description */}
@@ -177,21 +497,102 @@ export default function AddExpense() {
               className="rounded-xl h-12 text-base"
               required
             />
+            {matchedRule && (
+              <p className="text-xs text-muted-foreground">
+                Rule "{matchedRule.name}": {describeRule(matchedRule, categories)}
+              </p>
+            )}
+            {(suggestedCategory || suggestedPayment || suggestedTag) && (
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="inline-flex items-center gap-1 text-muted-foreground">
+                  <Sparkles className="w-3 h-3" />
+                  Suggested
+                </span>
+                {suggestedCategory && (
+                  <button
+                    type="button"
+                    onClick={() => setCategoryChoice(suggestedCategory.value)}
+                    className="px-2 py-1 rounded-lg border border-border hover:border-primary"
+                  >
+                    {getCategoryLabel(suggestedCategory.value, categories)} · {formatConfidence(suggestedCategory.confidence)}
+                  </button>
+                )}
+                {suggestedPayment && (
+                  <button
+                    type="button"
+                    onClick={() => setPaymentMethod(suggestedPayment.value)}
+                    className="px-2 py-1 rounded-lg border border-border hover:border-primary"
+                  >
+                    {paymentMethods.find((method) => method.value === suggestedPayment.value)?.label ??
+                      suggestedPayment.value}{" "}
+                    · {formatConfidence(suggestedPayment.confidence)}
+                  </button>
+                )}
+                {suggestedTag && (
+                  <button
+                    type="button"
+                    onClick={() => setTagsChoice(uniqueTags([...tags, suggestedTag.value]))}
+                    className="px-2 py-1 rounded-lg border border-border hover:border-primary"
+                  >
+                    #{suggestedTag.value} · {formatConfidence(suggestedTag.confidence)}
+                  </button>
+                )}
+              </div>
+            )}
           </div>
 
+          {/* Merchant (Optional) */}
+          {merchants.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-base font-semibold">Merchant (Optional)</Label>
+              <Select value={merchantId ?? "none"} onValueChange={(value) => setMerchantChoice(value === "none" ? "" : value)}>
+                <SelectTrigger className="rounded-xl h-12">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No merchant</SelectItem>
+                  {merchants.map((merchant) => (
+                    <SelectItem key={merchant.id} value={merchant.id}>
+                      {merchant.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {matchedMerchant && (
+                <p className="text-xs text-muted-foreground">Matched from the description</p>
+              )}
+            </div>
+          )}
+
           {/* Amount */}
           <div className="space-y-2">
-            <Label htmlFor="amount" className="text-base font-semibold">Amount (₹)</Label>
-            <Input
-              id="amount"
-              type="number"
-              step="0.01"
-              placeholder="0.00"
-              value={amount}
-              onChange={(e) => setAmount(e.target.value)}
-              className="rounded-xl h-12 text-base"
-              required
-            />
+            <Label htmlFor="amount" className="text-base font-semibold">
+              Amount ({getCurrencySymbol(currency).trim()})
+            </Label>
+            <div className="flex gap-3">
+              <Input
+                id="amount"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="rounded-xl h-12 text-base flex-1"
+                required
+              />
+              <Select value={currency} onValueChange={setCurrencyChoice}>
+                <SelectTrigger className="rounded-xl h-12 text-base w-28" aria-label="Currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencies.map((option) => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           {/* Payment Method */}
@@ -216,19 +617,170 @@ export default function AddExpense() {
             </div>
           </div>
 
-          {/* Tag (Optional) */}
+          {/* Account */}
+          {accounts.some((account) => !account.archived) && (
+            <div className="space-y-3">
+              <Label className="text-base font-semibold">Charged to</Label>
+              <Select value={accountId} onValueChange={setAccountChoice}>
+                <SelectTrigger className="rounded-xl h-12 text-base">
+                  <SelectValue placeholder="Choose an account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {accounts
+                    .filter((account) => !account.archived || account.id === accountId)
+                    .map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {/* Tags (Optional) */}
           <div className="space-y-2">
-            <Label htmlFor="tag" className="text-base font-semibold">Tag (Optional)</Label>
-            <Input
-              id="tag"
-              type="text"
+            <Label htmlFor="tags" className="text-base font-semibold">Tags (Optional)</Label>
+            <TagInput
+              id="tags"
+              value={tags}
+              onChange={setTagsChoice}
+              suggestions={tagSuggestions}
               placeholder="e.g., Work, Personal"
-              value={tag}
-              onChange={(e) => setTag(e.target.value)}
-              className="rounded-xl h-12 text-base"
             />
           </div>
 
+          {/* Receipts (not on recurring templates) */}
+          {(editingExpense || frequency === "none") && (
+            <div className="space-y-2">
+              <Label htmlFor="receipts" className="text-base font-semibold">Receipts (Optional)</Label>
+              <div className="flex flex-wrap items-center gap-3">
+                {receipts.map((receipt) => (
+                  <ReceiptThumbnail
+                    key={receipt.id}
+                    receipt={receipt}
+                    onRemove={() => setRemovedReceipts((current) => [...current, receipt])}
+                  />
+                ))}
+                {pendingFiles.map((file, index) => (
+                  <FileThumbnail
+                    key={`${file.name}-${index}`}
+                    file={file}
+                    fileName={file.name}
+                    mimeType={file.type}
+                    size={file.size}
+                    onRemove={() => setPendingFiles((current) => current.filter((other) => other !== file))}
+                  />
+                ))}
+                <label
+                  htmlFor="receipts"
+                  className="flex flex-col items-center justify-center w-14 h-14 rounded-lg border border-dashed border-border text-muted-foreground hover:text-foreground hover:border-primary cursor-pointer"
+                  title="Attach a photo or PDF"
+                >
+                  <Paperclip className="w-5 h-5" />
+                </label>
+                <input
+                  id="receipts"
+                  type="file"
+                  accept={RECEIPT_ACCEPT}
+                  multiple
+                  className="hidden"
+                  onChange={(e) => {
+                    handleFiles(e.target.files);
+                    // Lets the same file be picked again after removing it.
+                    e.target.value = "";
+                  }}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">Photos or PDFs, up to 10 MB each</p>
+            </div>
+          )}
+
+          {/* Repeat (new expenses only) */}
+          {!editingExpense && (
+            <div className="space-y-3">
+              <Label className="text-base font-semibold">Repeat</Label>
+              <Select
+                value={frequency}
+                onValueChange={(value) => {
+                  setFrequency(value as typeof frequency);
+                  // Templates have a single category.
+                  if (value !== "none") setSplitLines(null);
+                }}
+              >
+                <SelectTrigger className="rounded-xl h-12 text-base">
+                  <SelectValue placeholder="Does not repeat" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Does not repeat</SelectItem>
+                  {frequencyOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {frequency === "interval" && (
+                <div className="space-y-2">
+                  <Label htmlFor="intervalDays">Every how many days?</Label>
+                  <Input
+                    id="intervalDays"
+                    type="number"
+                    min="1"
+                    value={intervalDays}
+                    onChange={(e) => setIntervalDays(e.target.value)}
+                    className="rounded-xl h-12 text-base"
+                  />
+                </div>
+              )}
+
+              {frequency !== "none" && (
+                <div className="space-y-2">
+                  <Label htmlFor="endDate">End date (Optional)</Label>
+                  <Input
+                    id="endDate"
+                    type="date"
+                    value={endDate}
+                    min={date}
+                    onChange={(e) => setEndDate(e.target.value)}
+                    className="rounded-xl h-12 text-base"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Starts on the date above; each occurrence is added automatically when it falls due.
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Edit scope for generated occurrences */}
+          {editingExpense?.recurringId && (
+            <div className="space-y-3">
+              <Label className="text-base font-semibold">Apply changes to</Label>
+              <div className="grid grid-cols-2 gap-3">
+                {([
+                  { value: "occurrence", label: "This occurrence only" },
+                  { value: "future", label: "All future occurrences" },
+                ] as const).map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setEditScope(option.value)}
+                    className={cn(
+                      "p-4 rounded-xl border-2 font-medium transition-all text-center",
+                      editScope === option.value
+                        ? "border-primary bg-primary/10 text-primary"
+                        : "border-border bg-card text-foreground hover:border-primary/50"
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Submit Button */}
           <Button
             type="submit"
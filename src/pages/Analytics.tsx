@@ -1,56 +1,126 @@
 import { useState, useEffect } from "react";
-import { supabaseStorage } from "@/lib/storage";
-import { Expense } from "@/lib/types";
+import { useNavigate } from "react-router-dom";
+import { repository } from "@/lib/repository";
+import { useExpenses } from "@/hooks/use-expenses";
+import { Category, Expense } from "@/lib/types";
 import {
-  getCurrentMonthExpenses,
   getCategoryTotals,
+  getCategoryBreakdown,
   getTopCategory,
-  getMonthlyTotals,
+  getSpendingTrend,
   getAverageMonthlySpend,
   getTotalAmount,
-  getLastMonthExpenses,
   getPercentageChange,
+  getCashFlow,
+  getSavingsRate,
+  getExpenseYears,
+  getYearOverYear,
+  YearOverYearMonth,
 } from "@/lib/calculations";
-import { getCategoryInfo } from "@/lib/categories";
-import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, CartesianGrid } from "recharts";
-import { TrendingUp, TrendingDown, Target } from "lucide-react";
+import {
+  defaultRangeSelection,
+  filterByRange,
+  formatPeriod,
+  getCurrentPeriodKey,
+  getPreviousRange,
+  MAX_PERIOD_START_DAY,
+  RangeSelection,
+  resolveRange,
+} from "@/lib/dateRanges";
+import { DateRangePicker } from "@/components/DateRangePicker";
+import { defaultCategories, getCategoryInfo, getCategoryLabel, getSubcategories } from "@/lib/categories";
+import { CategoryBudgetEditor } from "@/components/CategoryBudgetEditor";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useBudgetSummary } from "@/hooks/use-budgets";
+import { useHomeCurrency } from "@/hooks/use-currency";
+import { useIncome } from "@/hooks/use-income";
+import { useCategories } from "@/hooks/use-categories";
+import { countUnconverted, formatMoney, getCurrencySymbol } from "@/lib/currency";
+import { getTagSummaries } from "@/lib/tags";
+import { getMerchantLeaderboard } from "@/lib/merchants";
+import { useMerchants } from "@/hooks/use-merchants";
+import { useAnomalies } from "@/hooks/use-anomalies";
+import { anomalyLabels, describeAnomaly } from "@/lib/anomalies";
+import { AnomalyActions } from "@/components/AnomalyActions";
+import { UnconvertedNotice } from "@/components/UnconvertedNotice";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { usePeriodStartDay, useUpdateProfile } from "@/hooks/use-profile";
+import { BudgetBreakdown } from "@/lib/calculations";
+import { RolloverMode } from "@/lib/repository";
+import {
+  PieChart,
+  Pie,
+  Cell,
+  ResponsiveContainer,
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  CartesianGrid,
+  ComposedChart,
+  LineChart,
+  Line,
+  Legend,
+} from "recharts";
+import { TrendingUp, TrendingDown, Target, ArrowLeft, ChevronRight, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { format } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 
-const CATEGORY_COLORS = {
-  food: "hsl(var(--category-food))",
-  travel: "hsl(var(--category-travel))",
-  shopping: "hsl(var(--category-shopping))",
-  rent: "hsl(var(--category-rent))",
-  entertainment: "hsl(var(--category-entertainment))",
-  utilities: "hsl(var(--category-utilities))",
-  health: "hsl(var(--category-health))",
-  other: "hsl(var(--category-other))",
-};
+const rolloverOptions: { value: RolloverMode; label: string }[] = [
+  { value: "off", label: "No rollover" },
+  { value: "overall", label: "Roll over whole budget" },
+  { value: "category", label: "Roll over per category" },
+];
+
+const MERCHANT_LEADERBOARD_SIZE = 10;
+const ANOMALY_LIST_SIZE = 5;
+// Years overlaid on the year-over-year chart, this one first; older years fade.
+const YEAR_OVER_YEAR_YEARS = 3;
+const yearColors = ["hsl(var(--primary))", "hsl(var(--warning))", "hsl(var(--muted-foreground))"];
+
+const periodStartDays = Array.from({ length: MAX_PERIOD_START_DAY }, (_, index) => index + 1);
+
+const formatCarryOver = (amount: number, currency: string) =>
+  `${amount < 0 ? "−" : "+"} ${formatMoney(Math.abs(amount), currency)}`;
+
+const BreakdownLine = ({ breakdown, currency }: { breakdown: BudgetBreakdown; currency: string }) => (
+  <span>
+    {formatMoney(breakdown.base, currency)} base {formatCarryOver(breakdown.carryOver, currency)} carry-over ={" "}
+    <span className="font-semibold text-foreground">{formatMoney(breakdown.effective, currency)}</span>
+  </span>
+);
 
 export default function Analytics() {
+  const navigate = useNavigate();
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [budgetAmount, setBudgetAmount] = useState("");
   const [showBudgetInput, setShowBudgetInput] = useState(false);
+  // Parent category whose subcategories the pie is showing, or null for the top level.
+  const [drillCategory, setDrillCategory] = useState<Category | null>(null);
+  const [rangeSelection, setRangeSelection] = useState<RangeSelection>(() => defaultRangeSelection());
 
-  const { data: expenses = [] } = useQuery({
-    queryKey: ["expenses", user?.id],
-    queryFn: () => supabaseStorage.getExpenses(user!.id),
-    enabled: !!user?.id,
-  });
+  const { data: expenses = [] } = useExpenses();
+  const { data: income = [] } = useIncome();
+  const homeCurrency = useHomeCurrency();
+  const { data: categories = defaultCategories } = useCategories();
+  const { data: merchants = [] } = useMerchants();
+  const anomalies = useAnomalies();
 
-  const currentMonth = format(new Date(), "yyyy-MM");
+  const periodStartDay = usePeriodStartDay();
+  const currentMonth = getCurrentPeriodKey(periodStartDay);
 
   const { data: budget } = useQuery({
     queryKey: ["budget", user?.id, currentMonth],
-    queryFn: () => supabaseStorage.getBudgetForMonth(user!.id, currentMonth),
+    queryFn: () => repository.getBudgetForMonth(user!.id, currentMonth),
     enabled: !!user?.id,
   });
 
@@ -65,7 +135,7 @@ export default function Analytics() {
 
   const saveBudgetMutation = useMutation({
     mutationFn: (amount: number) =>
-      supabaseStorage.saveBudget(user!.id, { month: currentMonth, amount }),
+      repository.saveBudget(user!.id, { month: currentMonth, amount }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["budget"] });
       toast.success("Monthly budget saved!");
@@ -73,24 +143,70 @@ export default function Analytics() {
     },
   });
 
-  const currentMonthExpenses = getCurrentMonthExpenses(expenses);
-  const lastMonthExpenses = getLastMonthExpenses(expenses);
-  const categoryTotals = getCategoryTotals(currentMonthExpenses);
-  const topCategory = getTopCategory(currentMonthExpenses);
-  const monthlyTotals = getMonthlyTotals(expenses, 12);
-  const averageSpend = getAverageMonthlySpend(expenses);
+  const budgetSummary = useBudgetSummary(currentMonth);
+  const updateProfileMutation = useUpdateProfile();
+
+  const handleRolloverChange = (mode: RolloverMode) => {
+    updateProfileMutation.mutate(
+      { budgetRollover: mode },
+      {
+        onSuccess: () => toast.success("Rollover setting saved"),
+        onError: () => toast.error("Could not save rollover setting"),
+      }
+    );
+  };
+
+  const handlePeriodStartChange = (day: number) => {
+    updateProfileMutation.mutate(
+      { periodStartDay: day },
+      {
+        onSuccess: () => toast.success("Budget month start saved"),
+        onError: () => toast.error("Could not save budget month start"),
+      }
+    );
+  };
+
+  // Everything below the budgets follows the picked range; budgets stay monthly.
+  const range = resolveRange(rangeSelection, new Date(), periodStartDay);
+  const previousRange = getPreviousRange(range);
+  const rangeExpenses = filterByRange(expenses, range);
+  const previousExpenses = filterByRange(expenses, previousRange);
+  const categoryTotals = getCategoryTotals(rangeExpenses, categories);
+  const topCategory = getTopCategory(rangeExpenses, categories);
+  const spendingTrend = getSpendingTrend(expenses, range);
+  const averageSpend = getAverageMonthlySpend(expenses, periodStartDay);
+  const cashFlow = getCashFlow(expenses, income, range);
+  const cashFlowIncome = cashFlow.reduce((sum, period) => sum + period.income, 0);
+  const cashFlowExpenses = cashFlow.reduce((sum, period) => sum + period.expenses, 0);
+  const savingsRate = getSavingsRate(cashFlowIncome, cashFlowExpenses);
+  const years = getExpenseYears(expenses).slice(0, YEAR_OVER_YEAR_YEARS);
+  const yearOverYear = getYearOverYear(expenses, years);
   
-  const currentTotal = getTotalAmount(currentMonthExpenses);
-  const lastTotal = getTotalAmount(lastMonthExpenses);
-  const percentageChange = getPercentageChange(currentTotal, lastTotal);
-
-  const pieData = Object.entries(categoryTotals)
-    .filter(([_, value]) => value > 0)
-    .map(([category, value]) => ({
-      name: getCategoryInfo(category as any).label,
-      value,
-      color: CATEGORY_COLORS[category as keyof typeof CATEGORY_COLORS],
-    }));
+  const currentTotal = getTotalAmount(rangeExpenses);
+  const previousTotal = getTotalAmount(previousExpenses);
+  const percentageChange = getPercentageChange(currentTotal, previousTotal);
+
+  const pieData = getCategoryBreakdown(categoryTotals, categories, drillCategory ?? undefined)
+    .filter(({ amount }) => amount > 0)
+    .map(({ category, amount, direct }) => {
+      const info = getCategoryInfo(category, categories);
+      return {
+        category,
+        name: direct ? `${info.name} (general)` : info.name,
+        value: amount,
+        color: info.color,
+        // Only top-level slices with subcategory spending open a drill-down.
+        canDrill: !drillCategory && getSubcategories(category, categories).some((child) => categoryTotals[child.id] > 0),
+      };
+    });
+
+  const tagSummaries = getTagSummaries(rangeExpenses);
+  const merchantLeaderboard = getMerchantLeaderboard(rangeExpenses, merchants).slice(0, MERCHANT_LEADERBOARD_SIZE);
+
+  const handleDrill = (index: number) => {
+    const slice = pieData[index];
+    if (slice?.canDrill) setDrillCategory(slice.category);
+  };
 
   const handleSaveBudget = () => {
     const amount = parseFloat(budgetAmount);
@@ -117,10 +233,13 @@ export default function Analytics() {
             <Target className="w-5 h-5 text-primary" />
             <h2 className="text-xl font-bold text-foreground">Monthly Budget</h2>
           </div>
+          {periodStartDay !== 1 && (
+            <p className="text-sm text-muted-foreground -mt-2 mb-4">{formatPeriod(currentMonth, periodStartDay)}</p>
+          )}
           
           {showBudgetInput ? (
             <div className="space-y-3">
-              <Label htmlFor="budget">Set your monthly budget (₹)</Label>
+              <Label htmlFor="budget">Set your monthly budget ({getCurrencySymbol(homeCurrency).trim()})</Label>
               <div className="flex gap-2">
                 <Input
                   id="budget"
@@ -139,7 +258,7 @@ export default function Analytics() {
             <div className="space-y-3">
               <div className="flex items-center justify-between">
                 <span className="text-2xl font-bold text-foreground">
-                  ₹{budget?.amount.toLocaleString()}
+                  {formatMoney(budget?.amount ?? 0, homeCurrency)}
                 </span>
                 <Button
                   variant="outline"
@@ -150,26 +269,90 @@ export default function Analytics() {
                   Edit
                 </Button>
               </div>
+              {budgetSummary.rolloverMode === "overall" && budgetSummary.overall && (
+                <p className="text-sm text-muted-foreground">
+                  <BreakdownLine breakdown={budgetSummary.overall} currency={homeCurrency} />
+                </p>
+              )}
             </div>
           )}
+
+          <div className="mt-4 pt-4 border-t border-border space-y-3">
+            <Label>Budget months start on</Label>
+            <Select
+              value={periodStartDay.toString()}
+              onValueChange={(value) => handlePeriodStartChange(parseInt(value, 10))}
+            >
+              <SelectTrigger className="rounded-xl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {periodStartDays.map((day) => (
+                  <SelectItem key={day} value={day.toString()}>
+                    {day === 1 ? "The 1st (calendar months)" : `The ${format(new Date(2000, 0, day), "do")}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Label>Carry unspent or overspent money into next month</Label>
+            <Select
+              value={budgetSummary.rolloverMode}
+              onValueChange={(value) => handleRolloverChange(value as RolloverMode)}
+            >
+              <SelectTrigger className="rounded-xl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {rolloverOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {budgetSummary.rolloverMode === "category" && budgetSummary.categories.length > 0 && (
+              <div className="space-y-1 text-sm text-muted-foreground">
+                {budgetSummary.categories.map((budget) => (
+                  <p key={budget.category}>
+                    <span className="font-medium text-foreground">{getCategoryLabel(budget.category, categories)}:</span>{" "}
+                    <BreakdownLine breakdown={budget.breakdown} currency={homeCurrency} />
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
         </div>
 
+        <CategoryBudgetEditor month={currentMonth} />
+
+        <DateRangePicker
+          value={rangeSelection}
+          onChange={(selection) => {
+            setRangeSelection(selection);
+            setDrillCategory(null);
+          }}
+          range={range}
+          previous={previousRange}
+        />
+
         {/* Spending Overview */}
         <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
           <h2 className="text-xl font-bold text-foreground mb-4">Spending Overview</h2>
           
           <div className="grid grid-cols-3 gap-4">
             <div className="text-center">
-              <p className="text-sm text-muted-foreground mb-1">This Month</p>
+              <p className="text-sm text-muted-foreground mb-1">This Period</p>
               <p className="text-2xl font-bold text-foreground">
-                ₹{currentTotal.toLocaleString()}
+                {formatMoney(currentTotal, homeCurrency)}
               </p>
             </div>
             
             <div className="text-center">
-              <p className="text-sm text-muted-foreground mb-1">Last Month</p>
+              <p className="text-sm text-muted-foreground mb-1">Previous Period</p>
               <p className="text-2xl font-bold text-foreground">
-                ₹{lastTotal.toLocaleString()}
+                {formatMoney(previousTotal, homeCurrency)}
               </p>
             </div>
             
@@ -190,12 +373,32 @@ export default function Analytics() {
               </div>
             </div>
           </div>
+          <UnconvertedNotice
+            count={countUnconverted([...rangeExpenses, ...previousExpenses])}
+            currency={homeCurrency}
+            className="mt-4"
+          />
         </div>
 
         {/* Category Breakdown */}
         {pieData.length > 0 && (
           <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
-            <h2 className="text-xl font-bold text-foreground mb-4">Category Breakdown</h2>
+            <div className="flex items-center gap-2 mb-4">
+              {drillCategory && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="rounded-full w-8 h-8"
+                  title="All categories"
+                  onClick={() => setDrillCategory(null)}
+                >
+                  <ArrowLeft className="w-4 h-4" />
+                </Button>
+              )}
+              <h2 className="text-xl font-bold text-foreground">
+                {drillCategory ? getCategoryInfo(drillCategory, categories).name : "Category Breakdown"}
+              </h2>
+            </div>
             
             <div className="flex items-center justify-center mb-6">
               <div className="w-64 h-64">
@@ -210,41 +413,116 @@ export default function Analytics() {
                       outerRadius={80}
                       fill="#8884d8"
                       dataKey="value"
+                      onClick={(_, index) => handleDrill(index)}
                     >
                       {pieData.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={entry.color} />
+                        <Cell
+                          key={`cell-${index}`}
+                          fill={entry.color}
+                          className={cn(entry.canDrill && "cursor-pointer")}
+                        />
                       ))}
                     </Pie>
                   </PieChart>
                 </ResponsiveContainer>
               </div>
             </div>
+
+            <div className="space-y-1 mb-4">
+              {pieData.map((entry, index) => (
+                <button
+                  key={entry.category}
+                  type="button"
+                  disabled={!entry.canDrill}
+                  onClick={() => handleDrill(index)}
+                  className="w-full flex items-center gap-3 rounded-lg px-2 py-1.5 text-sm text-left enabled:hover:bg-muted"
+                >
+                  <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: entry.color }} />
+                  <span className="flex-1 text-foreground">{entry.name}</span>
+                  <span className="font-medium text-foreground">{formatMoney(entry.value, homeCurrency)}</span>
+                  <ChevronRight className={cn("w-4 h-4 text-muted-foreground", !entry.canDrill && "invisible")} />
+                </button>
+              ))}
+            </div>
             
-            {topCategory && (
+            {topCategory && !drillCategory && (
               <div className="p-4 bg-primary/10 rounded-xl border border-primary/20">
                 <p className="text-sm text-muted-foreground mb-1">Top Category</p>
                 <p className="font-bold text-xl text-foreground capitalize">
-                  {getCategoryInfo(topCategory.category).label}
+                  {getCategoryInfo(topCategory.category, categories).name}
                 </p>
                 <p className="text-primary font-semibold text-lg">
-                  ₹{topCategory.amount.toLocaleString()}
+                  {formatMoney(topCategory.amount, homeCurrency)}
                 </p>
               </div>
             )}
           </div>
         )}
 
-        {/* Monthly Trend */}
-        {monthlyTotals.length > 0 && (
+        {/* Spending by Tag */}
+        {tagSummaries.length > 0 && (
+          <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
+            <h2 className="text-xl font-bold text-foreground mb-1">Spending by Tag</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              In this period. An expense with several tags counts toward each of them.
+            </p>
+            <div className="space-y-3">
+              {tagSummaries.map((summary) => (
+                <div key={summary.name}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="font-medium text-foreground">{summary.name}</span>
+                    <span className="text-muted-foreground">
+                      {formatMoney(summary.total, homeCurrency)} · {summary.count}
+                    </span>
+                  </div>
+                  <Progress value={(summary.total / tagSummaries[0].total) * 100} className="h-2" />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Merchant leaderboard */}
+        {merchantLeaderboard.length > 0 && (
+          <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
+            <h2 className="text-xl font-bold text-foreground mb-1">Top Merchants</h2>
+            <p className="text-sm text-muted-foreground mb-4">In this period, by total spend.</p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Merchant</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Visits</TableHead>
+                  <TableHead className="text-right">Avg. ticket</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {merchantLeaderboard.map((entry) => (
+                  <TableRow key={entry.merchant.id}>
+                    <TableCell className="font-medium">{entry.merchant.name}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatMoney(entry.total, homeCurrency)}</TableCell>
+                    <TableCell className="text-right">{entry.visits}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      {formatMoney(entry.averageTicket, homeCurrency)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {/* Spending Trend */}
+        {spendingTrend.length > 0 && (
           <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
-            <h2 className="text-xl font-bold text-foreground mb-4">Monthly Trend</h2>
+            <h2 className="text-xl font-bold text-foreground mb-4">Spending Trend</h2>
             
             <div className="h-64">
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={monthlyTotals}>
+                <BarChart data={spendingTrend}>
                   <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
                   <XAxis 
-                    dataKey="month" 
+                    dataKey="label" 
                     stroke="hsl(var(--muted-foreground))"
                     fontSize={12}
                   />
@@ -253,14 +531,24 @@ export default function Analytics() {
                     fontSize={12}
                   />
                   <Tooltip 
+                    formatter={(value: number) => formatMoney(value, homeCurrency)}
                     contentStyle={{
                       backgroundColor: "hsl(var(--card))",
                       border: "1px solid hsl(var(--border))",
                       borderRadius: "0.75rem",
                     }}
                   />
+                  <Legend />
                   <Bar 
-                    dataKey="amount" 
+                    dataKey="previous" 
+                    name="Previous period"
+                    fill="hsl(var(--muted-foreground))" 
+                    fillOpacity={0.4}
+                    radius={[8, 8, 0, 0]}
+                  />
+                  <Bar 
+                    dataKey="total" 
+                    name="This period"
                     fill="hsl(var(--primary))" 
                     radius={[8, 8, 0, 0]}
                   />
@@ -270,6 +558,123 @@ export default function Analytics() {
           </div>
         )}
 
+        {/* Cash Flow */}
+        <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
+          <h2 className="text-xl font-bold text-foreground mb-4">Cash Flow</h2>
+
+          {income.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Add your salary and other income from the Income page to compare it with your spending.
+            </p>
+          ) : (
+            <>
+              <UnconvertedNotice
+                count={countUnconverted(filterByRange(income, range))}
+                currency={homeCurrency}
+                noun={["income entry", "income entries"]}
+                className="-mt-2 mb-4"
+              />
+              <div className="grid grid-cols-3 gap-4 mb-6">
+                <div className="text-center">
+                  <p className="text-sm text-muted-foreground mb-1">Income</p>
+                  <p className="text-lg font-bold text-success">{formatMoney(cashFlowIncome, homeCurrency)}</p>
+                </div>
+                <div className="text-center">
+                  <p className="text-sm text-muted-foreground mb-1">Net</p>
+                  <p
+                    className={cn(
+                      "text-lg font-bold",
+                      cashFlowIncome - cashFlowExpenses >= 0 ? "text-success" : "text-destructive"
+                    )}
+                  >
+                    {formatMoney(cashFlowIncome - cashFlowExpenses, homeCurrency)}
+                  </p>
+                </div>
+                <div className="text-center">
+                  <p className="text-sm text-muted-foreground mb-1">Savings Rate</p>
+                  <p className="text-lg font-bold text-foreground">
+                    {savingsRate === null ? "—" : `${savingsRate.toFixed(1)}%`}
+                  </p>
+                </div>
+              </div>
+
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={cashFlow}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                    <XAxis dataKey="label" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                    <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                    <Tooltip
+                      formatter={(value: number) => formatMoney(value, homeCurrency)}
+                      contentStyle={{
+                        backgroundColor: "hsl(var(--card))",
+                        border: "1px solid hsl(var(--border))",
+                        borderRadius: "0.75rem",
+                      }}
+                    />
+                    <Legend />
+                    <Bar dataKey="income" name="Income" fill="hsl(var(--success))" radius={[8, 8, 0, 0]} />
+                    <Bar dataKey="expenses" name="Expenses" fill="hsl(var(--destructive))" radius={[8, 8, 0, 0]} />
+                    <Line
+                      type="monotone"
+                      dataKey="balance"
+                      name="Cumulative balance"
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={2}
+                      dot={false}
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Year over Year */}
+        {years.length > 1 && (
+          <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
+            <div className="flex items-center justify-between mb-1">
+              <h2 className="text-xl font-bold text-foreground">Year over Year</h2>
+              <Button variant="ghost" size="sm" onClick={() => navigate("/years")} className="text-primary">
+                Annual Summary
+                <ChevronRight className="w-4 h-4 ml-1" />
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground mb-4">Each calendar month against the same month in earlier years.</p>
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={yearOverYear}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                  <XAxis dataKey="month" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                  <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                  <Tooltip
+                    formatter={(value: number) => formatMoney(value, homeCurrency)}
+                    contentStyle={{
+                      backgroundColor: "hsl(var(--card))",
+                      border: "1px solid hsl(var(--border))",
+                      borderRadius: "0.75rem",
+                    }}
+                  />
+                  <Legend />
+                  {years.map((year, index) => (
+                    <Line
+                      key={year}
+                      type="monotone"
+                      dataKey={(point: YearOverYearMonth) => point.totals[year]}
+                      name={String(year)}
+                      stroke={yearColors[index]}
+                      strokeWidth={index === 0 ? 3 : 2}
+                      strokeOpacity={index === 0 ? 1 : 0.7}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+
         {/* Insights */}
         <div className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-4">
           <h2 className="text-xl font-bold text-foreground mb-4">Insights</h2>
@@ -279,11 +684,11 @@ export default function Analytics() {
               <div className="flex items-start gap-3">
                 <div className="w-2 h-2 rounded-full bg-primary mt-2" />
                 <p className="text-foreground">
-                  Your top spending category this month is{" "}
+                  Your top spending category in this period is{" "}
                   <span className="font-semibold capitalize">
-                    {getCategoryInfo(topCategory.category).label}
+                    {getCategoryInfo(topCategory.category, categories).name}
                   </span>{" "}
-                  (₹{topCategory.amount.toLocaleString()})
+                  ({formatMoney(topCategory.amount, homeCurrency)})
                 </p>
               </div>
             )}
@@ -295,7 +700,7 @@ export default function Analytics() {
                 <span className="font-semibold">
                   {Math.abs(percentageChange).toFixed(1)}% {percentageChange >= 0 ? "more" : "less"}
                 </span>{" "}
-                than last month
+                than the previous period
               </p>
             </div>
             
@@ -304,11 +709,43 @@ export default function Analytics() {
                 <div className="w-2 h-2 rounded-full bg-primary mt-2" />
                 <p className="text-foreground">
                   Your average monthly spend is{" "}
-                  <span className="font-semibold">₹{averageSpend.toLocaleString()}</span>
+                  <span className="font-semibold">{formatMoney(averageSpend, homeCurrency)}</span>
                 </p>
               </div>
             )}
           </div>
+
+          {anomalies.length > 0 && (
+            <div className="space-y-3 pt-2">
+              <h3 className="font-semibold text-foreground">Unusual expenses</h3>
+              {anomalies.slice(0, ANOMALY_LIST_SIZE).map((anomaly) => {
+                const expense = expenses.find((row) => row.id === anomaly.expenseId)!;
+                return (
+                  <div key={`${anomaly.expenseId}-${anomaly.kind}`} className="flex items-start gap-3">
+                    <AlertTriangle className="w-4 h-4 text-warning mt-1 shrink-0" />
+                    <div className="flex-1 min-w-0 space-y-2">
+                      <div>
+                        <p className="text-foreground">
+                          <span className="font-medium">{expense.description}</span> ·{" "}
+                          {formatMoney(expense.amount, expense.currency)} ·{" "}
+                          {format(parseISO(expense.date), "MMM d")}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {anomalyLabels[anomaly.kind]}: {describeAnomaly(anomaly, homeCurrency)}
+                        </p>
+                      </div>
+                      <AnomalyActions anomaly={anomaly} />
+                    </div>
+                  </div>
+                );
+              })}
+              {anomalies.length > ANOMALY_LIST_SIZE && (
+                <p className="text-sm text-muted-foreground">
+                  And {anomalies.length - ANOMALY_LIST_SIZE} more, marked in your expense history.
+                </p>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,193 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ExpenseCard } from "@/components/ExpenseCard";
+import { UnconvertedNotice } from "@/components/UnconvertedNotice";
+import { useExpenses } from "@/hooks/use-expenses";
+import { useCategories } from "@/hooks/use-categories";
+import { useHomeCurrency } from "@/hooks/use-currency";
+import {
+  getAnnualSummary,
+  getCategoryYearOverYear,
+  getExpenseYears,
+  getPercentageChange,
+  getYearOverYear,
+  YearOverYearMonth,
+} from "@/lib/calculations";
+import { defaultCategories, getCategoryInfo } from "@/lib/categories";
+import { countUnconverted, formatMoney } from "@/lib/currency";
+import { filterByRange, formatRange } from "@/lib/dateRanges";
+import { cn } from "@/lib/utils";
+
+const formatChange = (change: number) => `${change >= 0 ? "+" : "−"}${Math.abs(change).toFixed(1)}%`;
+
+export default function AnnualSummary() {
+  const navigate = useNavigate();
+  const homeCurrency = useHomeCurrency();
+  const { data: expenses = [] } = useExpenses();
+  const { data: categories = defaultCategories } = useCategories();
+
+  const years = getExpenseYears(expenses);
+  // Null until picked: the newest year.
+  const [pickedYear, setPickedYear] = useState<number | null>(null);
+  const year = pickedYear ?? years[0];
+
+  const summary = getAnnualSummary(expenses, year, categories);
+  const categoryChanges = getCategoryYearOverYear(expenses, year, categories);
+  const months = getYearOverYear(expenses, [year]);
+  const hasPrevious = summary.previousTotal > 0;
+
+  return (
+    <div className="min-h-screen bg-background pb-24 pt-6 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="rounded-full">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-foreground">Annual Summary</h1>
+            <p className="text-muted-foreground">Your spending year by year</p>
+          </div>
+          <Select value={String(year)} onValueChange={(value) => setPickedYear(Number(value))}>
+            <SelectTrigger className="rounded-xl w-28" aria-label="Year">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {years.map((option) => (
+                <SelectItem key={option} value={String(option)}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-4">
+          <p className="text-sm text-muted-foreground">{formatRange(summary.range)}</p>
+          <UnconvertedNotice count={countUnconverted(filterByRange(expenses, summary.range))} currency={homeCurrency} />
+          <div className="grid grid-cols-3 gap-4">
+            <div className="text-center">
+              <p className="text-sm text-muted-foreground mb-1">Total</p>
+              <p className="text-lg font-bold text-foreground">{formatMoney(summary.total, homeCurrency)}</p>
+              {hasPrevious && (
+                <p
+                  className={cn(
+                    "text-xs",
+                    summary.total > summary.previousTotal ? "text-destructive" : "text-success"
+                  )}
+                >
+                  {formatChange(getPercentageChange(summary.total, summary.previousTotal))} on {year - 1}
+                </p>
+              )}
+            </div>
+            <div className="text-center">
+              <p className="text-sm text-muted-foreground mb-1">Per month</p>
+              <p className="text-lg font-bold text-foreground">{formatMoney(summary.monthlyAverage, homeCurrency)}</p>
+            </div>
+            <div className="text-center">
+              <p className="text-sm text-muted-foreground mb-1">Expenses</p>
+              <p className="text-lg font-bold text-foreground">{summary.expenseCount}</p>
+            </div>
+          </div>
+
+          <div className="h-48">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={months}>
+                <CartesianGrid strokeDasharray="3 3" stroke="hsl(var(--border))" />
+                <XAxis dataKey="month" stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} />
+                <Tooltip
+                  formatter={(value: number) => formatMoney(value, homeCurrency)}
+                  contentStyle={{
+                    backgroundColor: "hsl(var(--card))",
+                    border: "1px solid hsl(var(--border))",
+                    borderRadius: "0.75rem",
+                  }}
+                />
+                <Bar
+                  dataKey={(point: YearOverYearMonth) => point.totals[year]}
+                  name={String(year)}
+                  fill="hsl(var(--primary))"
+                  radius={[8, 8, 0, 0]}
+                />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        {summary.topCategories.length > 0 && (
+          <div className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-3">
+            <h2 className="text-xl font-bold text-foreground">Top Categories</h2>
+            {summary.topCategories.map((item) => {
+              const info = getCategoryInfo(item.category, categories);
+              return (
+                <div key={item.category} className="flex items-center gap-3">
+                  <div className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: info.color }} />
+                  <span className="flex-1 min-w-0 truncate text-foreground">{info.name}</span>
+                  <span className="text-xs text-muted-foreground">
+                    {((item.amount / summary.total) * 100).toFixed(0)}%
+                  </span>
+                  <span className="font-medium text-foreground whitespace-nowrap">
+                    {formatMoney(item.amount, homeCurrency)}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {categoryChanges.length > 0 && (
+          <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
+            <h2 className="text-xl font-bold text-foreground mb-1">Compared with {year - 1}</h2>
+            <p className="text-sm text-muted-foreground mb-4">
+              Each category over the same dates a year earlier.
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">{year}</TableHead>
+                  <TableHead className="text-right">{year - 1}</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categoryChanges.map((row) => (
+                  <TableRow key={row.category}>
+                    <TableCell className="font-medium">{getCategoryInfo(row.category, categories).name}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatMoney(row.current, homeCurrency)}</TableCell>
+                    <TableCell className="text-right whitespace-nowrap">{formatMoney(row.previous, homeCurrency)}</TableCell>
+                    <TableCell
+                      className={cn(
+                        "text-right whitespace-nowrap",
+                        row.change !== null && (row.change > 0 ? "text-destructive" : "text-success")
+                      )}
+                    >
+                      {row.change === null ? "New" : formatChange(row.change)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          <h2 className="text-xl font-bold text-foreground">Biggest Expenses</h2>
+          {summary.biggestExpenses.length === 0 ? (
+            <div className="bg-card rounded-2xl p-8 text-center shadow-md border border-border">
+              <p className="text-muted-foreground">No expenses in {year}</p>
+            </div>
+          ) : (
+            summary.biggestExpenses.map((expense) => <ExpenseCard key={expense.id} expense={expense} />)
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
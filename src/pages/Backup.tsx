@@ -0,0 +1,227 @@
+import { useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { ArrowLeft, Download, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { repository } from "@/lib/repository";
+import {
+  BackupData,
+  BackupError,
+  BackupFile,
+  backupEntities,
+  createBackup,
+  parseBackup,
+  planRestore,
+  readBackupData,
+  restoreBackup,
+  RestoreMode,
+} from "@/lib/backup";
+import { downloadBlob } from "@/lib/export";
+import { cn } from "@/lib/utils";
+
+const modes: { value: RestoreMode; label: string; description: string }[] = [
+  {
+    value: "merge",
+    label: "Merge",
+    description: "Adds records you don't have yet. Anything already here is left as it is.",
+  },
+  {
+    value: "replace",
+    label: "Replace",
+    description: "Makes your data match the backup: records in it are overwritten and the rest are deleted.",
+  },
+];
+
+export default function Backup() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [pending, setPending] = useState<{ name: string; backup: BackupFile; current: BackupData } | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+
+  const plan = useMemo(
+    () => (pending ? planRestore(pending.current, pending.backup.data, mode) : null),
+    [pending, mode]
+  );
+
+  const backupMutation = useMutation({
+    mutationFn: () => createBackup(repository, user!.id),
+    onSuccess: (backup) => {
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" });
+      downloadBlob(blob, `pocket-insight-backup-${format(new Date(), "yyyy-MM-dd")}.json`);
+      toast.success("Backup downloaded");
+    },
+    onError: () => {
+      toast.error("Could not create the backup");
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: () => restoreBackup(repository, user!.id, pending!.backup.data, mode),
+    onSuccess: () => {
+      // A restore can touch every kind of record.
+      queryClient.invalidateQueries();
+      setPending(null);
+      toast.success("Backup restored");
+    },
+    onError: () => {
+      toast.error("Restore stopped part-way; run it again in merge mode to finish");
+    },
+  });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const backup = await parseBackup(await file.text());
+      const current = await readBackupData(repository, user!.id);
+      setPending({ name: file.name, backup, current });
+    } catch (error) {
+      setPending(null);
+      toast.error(error instanceof BackupError ? error.message : "Could not read the backup");
+    }
+  };
+
+  const changes = plan
+    ? backupEntities.reduce(
+        (sum, { key }) => sum + plan[key].added + plan[key].overwritten + plan[key].removed,
+        plan.settings ? 1 : 0
+      )
+    : 0;
+
+  return (
+    <div className="min-h-screen bg-background pb-24 pt-6 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="rounded-full">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Backup</h1>
+            <p className="text-muted-foreground">Save all your data to a file, or restore it</p>
+          </div>
+        </div>
+
+        <div className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-3">
+          <h2 className="text-lg font-semibold text-foreground">Create a backup</h2>
+          <p className="text-sm text-muted-foreground">
+            One JSON file with your expenses, budgets, categories, rules, merchants, recurring expenses, income,
+            accounts, transfers, exchange rates and profile settings.
+          </p>
+          <Button
+            className="w-full rounded-xl"
+            onClick={() => backupMutation.mutate()}
+            disabled={backupMutation.isPending}
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Download Backup
+          </Button>
+        </div>
+
+        <div className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">Restore</h2>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFile}
+          />
+          <Button
+            variant="outline"
+            className="w-full rounded-xl"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={restoreMutation.isPending}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {pending ? "Choose Another File" : "Choose Backup File"}
+          </Button>
+
+          {pending && plan && (
+            <>
+              <p className="text-sm text-muted-foreground">
+                {pending.name} — made {format(new Date(pending.backup.createdAt), "MMM dd, yyyy HH:mm")}, schema
+                version {pending.backup.schemaVersion}, checksum verified.
+              </p>
+
+              <div className="grid grid-cols-2 gap-3">
+                {modes.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setMode(option.value)}
+                    className={cn(
+                      "rounded-2xl border-2 p-3 text-left transition-all",
+                      mode === option.value
+                        ? "border-primary bg-primary/10"
+                        : "border-border bg-card hover:border-primary/50"
+                    )}
+                  >
+                    <span className="font-medium text-sm">{option.label}</span>
+                    <p className="text-xs text-muted-foreground mt-1">{option.description}</p>
+                  </button>
+                ))}
+              </div>
+
+              {/* Dry run */}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Records</TableHead>
+                    <TableHead className="text-right">Add</TableHead>
+                    <TableHead className="text-right">{mode === "merge" ? "Skip" : "Overwrite"}</TableHead>
+                    {mode === "replace" && <TableHead className="text-right">Delete</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {backupEntities.map(({ key, label }) => (
+                    <TableRow key={key}>
+                      <TableCell>{label}</TableCell>
+                      <TableCell className="text-right">{plan[key].added}</TableCell>
+                      <TableCell className="text-right">
+                        {mode === "merge" ? plan[key].skipped : plan[key].overwritten}
+                      </TableCell>
+                      {mode === "replace" && (
+                        <TableCell
+                          className={cn("text-right", plan[key].removed > 0 && "text-destructive font-medium")}
+                        >
+                          {plan[key].removed}
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {plan.settings && (
+                <p className="text-sm text-muted-foreground">Profile settings will be replaced by the backup's.</p>
+              )}
+
+              <div className="flex gap-3">
+                <Button variant="outline" className="flex-1 rounded-xl" onClick={() => setPending(null)}>
+                  Cancel
+                </Button>
+                <Button
+                  className="flex-1 rounded-xl"
+                  variant={mode === "replace" ? "destructive" : "default"}
+                  onClick={() => restoreMutation.mutate()}
+                  disabled={changes === 0 || restoreMutation.isPending}
+                >
+                  {changes === 0 ? "Nothing to Restore" : mode === "replace" ? "Replace My Data" : "Merge Backup"}
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
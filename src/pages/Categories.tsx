@@ -0,0 +1,343 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { Archive, ArchiveRestore, ArrowDown, ArrowLeft, ArrowUp, Edit } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CategoryIcon } from "@/components/CategoryIcon";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCategories } from "@/hooks/use-categories";
+import { repository } from "@/lib/repository";
+import {
+  categoryColors,
+  categoryIcons,
+  defaultCategories,
+  getParentCategory,
+  getSubcategories,
+  isBuiltInCategory,
+} from "@/lib/categories";
+import { Category, CategoryDefinition } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+export default function Categories() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: categories = defaultCategories } = useCategories();
+
+  const [editing, setEditing] = useState<CategoryDefinition | null>(null);
+  const [name, setName] = useState("");
+  const [icon, setIcon] = useState("shopping-cart");
+  const [color, setColor] = useState(categoryColors[0]);
+  const [parentId, setParentId] = useState<Category | null>(null);
+
+  const activeCategories = categories.filter((category) => !category.archived);
+  const archivedCategories = categories.filter((category) => category.archived);
+
+  // Two levels only: a category with subcategories of its own cannot become one.
+  const canHaveParent = !editing || getSubcategories(editing.id, categories).length === 0;
+  const parentOptions = categories.filter(
+    (category) =>
+      !category.parentId && category.id !== editing?.id && (!category.archived || category.id === parentId)
+  );
+
+  const siblingsOf = (category: CategoryDefinition) => {
+    const parent = getParentCategory(category.id, categories);
+    return categories.filter((c) => getParentCategory(c.id, categories)?.id === parent?.id);
+  };
+
+  const resetForm = () => {
+    setEditing(null);
+    setName("");
+    setIcon("shopping-cart");
+    setColor(categoryColors[0]);
+    setParentId(null);
+  };
+
+  const startEditing = (category: CategoryDefinition) => {
+    setEditing(category);
+    setName(category.name);
+    setIcon(category.icon);
+    setColor(category.color);
+    setParentId(getParentCategory(category.id, categories)?.id ?? null);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (changed: CategoryDefinition[]) => repository.saveCategories(user!.id, changed),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["categories"] });
+    },
+    onError: () => {
+      toast.error("Could not save categories");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmed = name.trim();
+    if (!trimmed) {
+      toast.error("Please enter a name");
+      return;
+    }
+    const duplicate = categories.some(
+      (category) => category.id !== editing?.id && category.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (duplicate) {
+      toast.error(`There is already a category called ${trimmed}`);
+      return;
+    }
+
+    // A category that changes parent goes to the end of its new siblings.
+    const newSiblings = categories.filter(
+      (c) => c.id !== editing?.id && (getParentCategory(c.id, categories)?.id ?? null) === parentId
+    );
+    const nextSortOrder = Math.max(-1, ...newSiblings.map((c) => c.sortOrder)) + 1;
+    const parentChanged = !editing || (getParentCategory(editing.id, categories)?.id ?? null) !== parentId;
+
+    const category: CategoryDefinition = {
+      ...(editing ?? { id: crypto.randomUUID() }),
+      name: trimmed,
+      icon,
+      color,
+      sortOrder: editing && !parentChanged ? editing.sortOrder : nextSortOrder,
+      parentId: parentId ?? undefined,
+    };
+
+    saveMutation.mutate([category], {
+      onSuccess: () => {
+        toast.success(editing ? "Category updated" : "Category added");
+        resetForm();
+      },
+    });
+  };
+
+  // Renumbers the category's siblings so built-ins and custom categories share one order.
+  const move = (category: CategoryDefinition, direction: -1 | 1) => {
+    const ordered = siblingsOf(category);
+    const from = ordered.findIndex((c) => c.id === category.id);
+    const to = from + direction;
+    if (to < 0 || to >= ordered.length) return;
+
+    [ordered[from], ordered[to]] = [ordered[to], ordered[from]];
+    const changed = ordered
+      .map((c, index) => ({ ...c, sortOrder: index }))
+      .filter((c, index) => categories.find((existing) => existing.id === c.id)?.sortOrder !== index);
+    saveMutation.mutate(changed);
+  };
+
+  const setArchived = (category: CategoryDefinition, archived: boolean) => {
+    saveMutation.mutate([{ ...category, archived: archived || undefined }], {
+      onSuccess: () => {
+        toast.success(archived ? `${category.name} archived` : `${category.name} restored`);
+      },
+    });
+  };
+
+  const renderRow = (category: CategoryDefinition) => {
+    const siblings = siblingsOf(category);
+    const index = siblings.findIndex((c) => c.id === category.id);
+    const parent = getParentCategory(category.id, categories);
+
+    return (
+      <div
+        key={category.id}
+        className={cn("bg-card rounded-2xl p-3 shadow-md border border-border", parent && "ml-8")}
+      >
+        <div className="flex items-center gap-3">
+          <CategoryIcon category={category} size="sm" />
+          <div className="flex-1 min-w-0">
+            <p className="font-medium text-foreground truncate">{category.name}</p>
+            {(parent || isBuiltInCategory(category.id)) && (
+              <p className="text-xs text-muted-foreground">
+                {[parent && `In ${parent.name}`, isBuiltInCategory(category.id) && "Built-in"].filter(Boolean).join(" · ")}
+              </p>
+            )}
+          </div>
+          {!category.archived && (
+            <>
+              <Button
+                size="icon"
+                variant="ghost"
+                title="Move up"
+                disabled={index === 0 || saveMutation.isPending}
+                onClick={() => move(category, -1)}
+                className="w-8 h-8 text-muted-foreground hover:text-foreground"
+              >
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                title="Move down"
+                disabled={index === siblings.length - 1 || saveMutation.isPending}
+                onClick={() => move(category, 1)}
+                className="w-8 h-8 text-muted-foreground hover:text-foreground"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+            </>
+          )}
+          <Button
+            size="icon"
+            variant="ghost"
+            title="Edit"
+            onClick={() => startEditing(category)}
+            className="w-8 h-8 text-muted-foreground hover:text-foreground"
+          >
+            <Edit className="w-4 h-4" />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            title={category.archived ? "Restore" : "Archive"}
+            disabled={saveMutation.isPending || (!category.archived && activeCategories.length === 1)}
+            onClick={() => setArchived(category, !category.archived)}
+            className="w-8 h-8 text-muted-foreground hover:text-foreground"
+          >
+            {category.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-24 pt-6 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="rounded-full">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Categories</h1>
+            <p className="text-muted-foreground">Name, icon, colour and order of your categories</p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-4">
+          <div className="flex items-center gap-3">
+            <CategoryIcon category={{ id: "preview", name, icon, color, sortOrder: 0 }} />
+            <h2 className="text-lg font-semibold text-foreground">
+              {editing ? `Edit ${editing.name}` : "Add a category"}
+            </h2>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category-name">Name</Label>
+            <Input
+              id="category-name"
+              type="text"
+              placeholder="e.g., Groceries"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="rounded-xl h-12 text-base"
+              maxLength={40}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Parent</Label>
+            <Select
+              value={parentId ?? "none"}
+              onValueChange={(value) => setParentId(value === "none" ? null : value)}
+              disabled={!canHaveParent}
+            >
+              <SelectTrigger className="rounded-xl h-12">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">None (top-level)</SelectItem>
+                {parentOptions.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!canHaveParent && (
+              <p className="text-xs text-muted-foreground">
+                This category has subcategories, so it stays at the top level.
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Icon</Label>
+            <div className="grid grid-cols-7 gap-2">
+              {Object.entries(categoryIcons).map(([key, Icon]) => (
+                <button
+                  key={key}
+                  type="button"
+                  title={key}
+                  onClick={() => setIcon(key)}
+                  className={cn(
+                    "flex items-center justify-center h-10 rounded-xl border-2 transition-all",
+                    icon === key ? "border-primary bg-primary/10" : "border-border bg-card hover:border-primary/50"
+                  )}
+                >
+                  <Icon className="w-5 h-5" style={{ color: icon === key ? color : undefined }} />
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category-color">Colour</Label>
+            <div className="flex flex-wrap items-center gap-2">
+              {categoryColors.map((swatch) => (
+                <button
+                  key={swatch}
+                  type="button"
+                  title={swatch}
+                  onClick={() => setColor(swatch)}
+                  className={cn(
+                    "w-8 h-8 rounded-full border-2 transition-all",
+                    color === swatch ? "border-foreground scale-110" : "border-transparent"
+                  )}
+                  style={{ backgroundColor: swatch }}
+                />
+              ))}
+              <Input
+                id="category-color"
+                type="color"
+                value={color}
+                onChange={(e) => setColor(e.target.value)}
+                className="w-12 h-8 p-1 rounded-lg cursor-pointer"
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-3">
+            {editing && (
+              <Button type="button" variant="outline" className="flex-1 rounded-xl" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" className="flex-1 rounded-xl" disabled={saveMutation.isPending}>
+              {editing ? "Update Category" : "Add Category"}
+            </Button>
+          </div>
+        </form>
+
+        <div className="space-y-3">{activeCategories.map(renderRow)}</div>
+
+        {archivedCategories.length > 0 && (
+          <div className="space-y-3">
+            <h2 className="text-lg font-semibold text-foreground">Archived</h2>
+            <p className="text-sm text-muted-foreground">
+              Hidden when adding expenses. Past expenses keep their category and still count in charts.
+            </p>
+            {archivedCategories.map(renderRow)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
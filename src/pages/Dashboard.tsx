@@ -1,29 +1,54 @@
 import React, { useEffect, useState } from "react";
-import { supabaseStorage } from "@/lib/storage";
+import { repository } from "@/lib/repository";
+import { useExpenses, expensesQueryKey } from "@/hooks/use-expenses";
+import { useBudgetSummary } from "@/hooks/use-budgets";
+import { useExchangeRates, useHomeCurrency } from "@/hooks/use-currency";
+import { useRecurringExpenses } from "@/hooks/use-recurring";
+import { useCategories } from "@/hooks/use-categories";
+import { usePeriodStartDay } from "@/hooks/use-profile";
+import { useAnomalies } from "@/hooks/use-anomalies";
+import { convertAmounts, countUnconverted, formatMoney } from "@/lib/currency";
+import { getUpcomingOccurrences } from "@/lib/recurring";
 import { Expense } from "@/lib/types";
 import {
   getCurrentMonthExpenses,
-  getLastMonthExpenses,
   getTotalAmount,
   getPercentageChange,
   getCategoryTotals,
+  getCategoryBreakdown,
   getTopCategory,
+  getCategoryBudgetProgress,
+  getMonthProjection,
+  getBudgetOverrun,
 } from "@/lib/calculations";
+import {
+  defaultRangeSelection,
+  filterByRange,
+  getCurrentPeriodKey,
+  getPeriodRange,
+  getPreviousRange,
+  rangePresets,
+  RangeSelection,
+  resolveRange,
+} from "@/lib/dateRanges";
 import { ExpenseCard } from "@/components/ExpenseCard";
-import { TrendingUp, TrendingDown, Wallet } from "lucide-react";
+import { DateRangePicker } from "@/components/DateRangePicker";
+import { BudgetProgress } from "@/components/BudgetProgress";
+import { UnconvertedNotice } from "@/components/UnconvertedNotice";
+import { TrendingUp, TrendingDown, Wallet, AlertTriangle, Gauge } from "lucide-react";
 import { PieChart, Pie, Cell, ResponsiveContainer } from "recharts";
-import { getCategoryInfo } from "@/lib/categories";
-import { format } from "date-fns";
+import { defaultCategories, getCategoryInfo, getCategoryLabel } from "@/lib/categories";
+import { format, parseISO } from "date-fns";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { cn } from "@/lib/utils";
 import { useAuth } from "@/contexts/AuthContext";
 import { UserMenu } from "@/components/UserMenu";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 import {
   hasLocalStorageData,
   migrateLocalStorageToSupabase,
+  MigrationStatus,
 } from "@/lib/storageUtils";
 import {
   AlertDialog,
@@ -35,11 +60,20 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+const statusBadgeVariant: Record<MigrationStatus, "default" | "secondary" | "destructive"> = {
+  imported: "default",
+  skipped: "secondary",
+  rejected: "destructive",
+};
 
 /**
  * Dashboard component — fixed version of the snippet you posted.
  * Assumptions:
- * - `supabaseStorage` exposes async methods: listExpenses(), deleteExpense(id), getBudgetForMonth(yyy-mm)
+ * - expenses and budgets are read through `repository`, whichever backend was picked at startup
  * - calculations and categories helpers exist as in your snippet
  * - storageUtils exports hasLocalStorageData() and migrateLocalStorageToSupabase()
  */
@@ -51,36 +85,30 @@ export default function Dashboard(): JSX.Element {
 
   // local UI state
   const [showMigrationDialog, setShowMigrationDialog] = useState(false);
+  const [migrationProgress, setMigrationProgress] = useState<{ done: number; total: number } | null>(null);
+  const [rangeSelection, setRangeSelection] = useState<RangeSelection>(() => defaultRangeSelection());
 
-  // Fetch expenses with react-query
-  const {
-    data: expenses = [],
-    isLoading,
-    isError,
-  } = useQuery<Expense[]>({
-    queryKey: ["expenses", user?.id ?? "anon"],
-    queryFn: async () => {
-      if (!user?.id) return [];
-      return await supabaseStorage.getExpenses(user.id);
-    },
-    enabled: !!user,
-    staleTime: 1000 * 60 * 1,
-  });
+  // Expenses come from the local cache; useOfflineSync keeps it fresh
+  const { data: expenses = [], isLoading, isError } = useExpenses();
+  const homeCurrency = useHomeCurrency();
+  const { data: categories = defaultCategories } = useCategories();
+  const periodStartDay = usePeriodStartDay();
+  const { data: recurringTemplates = [] } = useRecurringExpenses();
+  const { data: rates = [] } = useExchangeRates();
+  const anomalies = useAnomalies();
+  const anomalyByExpense = new Map(anomalies.map((anomaly) => [anomaly.expenseId, anomaly]));
 
   // mutation: delete expense
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
-      await supabaseStorage.deleteExpense(id);
+      await repository.deleteExpense(user!.id, id);
     },
     onMutate: async (id: string) => {
-      await queryClient.cancelQueries({ queryKey: ["expenses", user?.id ?? "anon"] });
-      const previous = queryClient.getQueryData<Expense[]>([
-        "expenses",
-        user?.id ?? "anon",
-      ]);
+      await queryClient.cancelQueries({ queryKey: expensesQueryKey(user?.id) });
+      const previous = queryClient.getQueryData<Expense[]>(expensesQueryKey(user?.id));
       if (previous) {
         queryClient.setQueryData(
-          ["expenses", user?.id ?? "anon"],
+          expensesQueryKey(user?.id),
           previous.filter((e) => e.id !== id)
         );
       }
@@ -89,17 +117,14 @@ export default function Dashboard(): JSX.Element {
     onError: (err, _id, context: any) => {
       toast.error("Could not delete expense");
       if (context?.previous) {
-        queryClient.setQueryData(
-          ["expenses", user?.id ?? "anon"],
-          context.previous
-        );
+        queryClient.setQueryData(expensesQueryKey(user?.id), context.previous);
       }
     },
     onSuccess: () => {
       toast.success("Expense deleted");
     },
     onSettled: () => {
-      queryClient.invalidateQueries({ queryKey: ["expenses", user?.id ?? "anon"] });
+      queryClient.invalidateQueries({ queryKey: expensesQueryKey(user?.id) });
     },
   });
 
@@ -107,59 +132,51 @@ export default function Dashboard(): JSX.Element {
   const migrateMutation = useMutation({
     mutationFn: async () => {
       if (!user?.id) throw new Error("No user");
-      return migrateLocalStorageToSupabase(user.id);
-    },
-    onMutate: () => {
-      toast.promise(
-        Promise.resolve(), // placeholder for immediate feedback
-        {
-          loading: "Importing data...",
-          success: "Imported successfully",
-          error: "Import failed",
-        }
-      );
+      setMigrationProgress({ done: 0, total: 0 });
+      return migrateLocalStorageToSupabase(user.id, (done, total) => setMigrationProgress({ done, total }));
     },
     onSuccess: () => {
-      setShowMigrationDialog(false);
-      queryClient.invalidateQueries({ queryKey: ["expenses", user?.id ?? "anon"] });
-      toast.success("Local data imported");
+      repository.sync?.(user!.id).catch((error) => console.error("Sync error:", error));
     },
-    onError: () => {
-      toast.error("Failed to import local data");
+    onSettled: () => {
+      setMigrationProgress(null);
     },
   });
 
   // show migration dialog if there is local data and user is logged in
   useEffect(() => {
-    if (user && hasLocalStorageData()) {
+    if (user && repository.backend === "supabase" && hasLocalStorageData()) {
       setShowMigrationDialog(true);
     }
   }, [user]);
 
-  // Helper functions (wrap calculations you imported)
-  const currentMonthExpenses = getCurrentMonthExpenses(expenses);
-  const lastMonthExpenses = getLastMonthExpenses(expenses);
+  // The picked range and the one just before it; budgets below stay on the current month.
+  const range = resolveRange(rangeSelection, new Date(), periodStartDay);
+  const previousRange = getPreviousRange(range);
+  const rangeExpenses = filterByRange(expenses, range);
+  const currentMonthExpenses = getCurrentMonthExpenses(expenses, periodStartDay);
 
-  const currentTotal = getTotalAmount(currentMonthExpenses);
-  const lastTotal = getTotalAmount(lastMonthExpenses);
-  const percentageChange = getPercentageChange(currentTotal, lastTotal);
+  const rangeTotal = getTotalAmount(rangeExpenses);
+  const previousTotal = getTotalAmount(filterByRange(expenses, previousRange));
+  const percentageChange = getPercentageChange(rangeTotal, previousTotal);
+  const monthTotal = getTotalAmount(currentMonthExpenses);
 
-  const categoryTotals = getCategoryTotals(currentMonthExpenses);
-  const topCategory = getTopCategory(currentMonthExpenses);
+  const categoryTotals = getCategoryTotals(rangeExpenses, categories);
+  const topCategory = getTopCategory(rangeExpenses, categories);
 
-  // build pie data — use getCategoryInfo to get color if available
-  const pieData = Object.entries(categoryTotals)
-    .filter(([_, value]) => value > 0)
-    .map(([category, value]) => {
-      const catInfo = getCategoryInfo(category as any);
+  // build pie data — top-level categories with their subcategories rolled in
+  const pieData = getCategoryBreakdown(categoryTotals, categories)
+    .filter(({ amount }) => amount > 0)
+    .map(({ category, amount }) => {
+      const catInfo = getCategoryInfo(category, categories);
       return {
-        name: category,
-        value,
-        color: catInfo?.emoji ?? "#8884d8",
+        name: catInfo.name,
+        value: amount,
+        color: catInfo.color,
       };
     });
 
-  const recentExpenses = [...currentMonthExpenses]
+  const recentExpenses = [...rangeExpenses]
     .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
     .slice(0, 5);
 
@@ -171,19 +188,29 @@ export default function Dashboard(): JSX.Element {
     navigate("/add", { state: { expense } });
   };
 
-  const currentMonth = format(new Date(), "MMMM yyyy");
+  // The calendar month's name only fits when budget months are calendar months.
+  const title =
+    rangeSelection.preset === "month" && periodStartDay === 1
+      ? format(new Date(), "MMMM yyyy")
+      : rangePresets.find((preset) => preset.value === rangeSelection.preset)?.label;
   
-  const { data: budget } = useQuery({
-    queryKey: ["budget", user?.id, format(new Date(), "yyyy-MM")],
-    queryFn: async () => {
-      if (!user?.id) return null;
-      return await supabaseStorage.getBudgetForMonth(user.id, format(new Date(), "yyyy-MM"));
-    },
-    enabled: !!user,
-  });
+  // Budgets with the user's rollover mode already applied
+  const budgetSummary = useBudgetSummary(getCurrentPeriodKey(periodStartDay));
+  const budgetAmount = budgetSummary.overall?.effective ?? 0;
+
+  // Where the current month is heading, counting recurring items not generated yet.
+  const today = new Date();
+  const projectionPeriod = getPeriodRange(getCurrentPeriodKey(periodStartDay), periodStartDay);
+  const upcomingRecurring = convertAmounts(
+    getUpcomingOccurrences(recurringTemplates, format(today, "yyyy-MM-dd"), projectionPeriod.to),
+    rates,
+    homeCurrency
+  );
+  const projection = getMonthProjection(expenses, upcomingRecurring, { today, periodStartDay });
+  const overrun = budgetSummary.overall ? getBudgetOverrun(projection, budgetAmount) : null;
 
-  const budgetAmount = budget?.amount ?? 0;
-  const budgetPercentage = budgetAmount ? (currentTotal / budgetAmount) * 100 : 0;
+  const categoryBudgetProgress = getCategoryBudgetProgress(currentMonthExpenses, budgetSummary.categories, categories);
+  const overBudgetCategories = categoryBudgetProgress.filter((progress) => progress.percentage > 100);
 
   // small loading/error UI (optional)
   if (isLoading) {
@@ -204,23 +231,94 @@ export default function Dashboard(): JSX.Element {
 
   return (
     <>
-      <AlertDialog open={showMigrationDialog} onOpenChange={setShowMigrationDialog}>
+      <AlertDialog
+        open={showMigrationDialog}
+        onOpenChange={(open) => !migrateMutation.isPending && setShowMigrationDialog(open)}
+      >
         <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle>Import Existing Data?</AlertDialogTitle>
-            <AlertDialogDescription>
-              We found existing expenses on this device. Would you like to import
-              them to your account?
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel onClick={() => setShowMigrationDialog(false)}>
-              Start Fresh
-            </AlertDialogCancel>
-            <AlertDialogAction onClick={() => migrateMutation.mutate()}>
-              Import Data
-            </AlertDialogAction>
-          </AlertDialogFooter>
+          {migrateMutation.data ? (
+            <>
+              <AlertDialogHeader>
+                <AlertDialogTitle>
+                  {migrateMutation.data.rejected > 0 ? "Import Finished With Problems" : "Import Complete"}
+                </AlertDialogTitle>
+                <AlertDialogDescription>
+                  {migrateMutation.data.imported} imported, {migrateMutation.data.skipped} already in your account,{" "}
+                  {migrateMutation.data.rejected} rejected.
+                  {migrateMutation.data.rejected > 0 &&
+                    " Rejected rows are kept on this device, and you'll be offered the import again next time."}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <ScrollArea className="max-h-72 pr-3">
+                <ul className="space-y-2">
+                  {migrateMutation.data.rows.map((row, index) => (
+                    <li
+                      key={`${row.kind}-${row.key}-${index}`}
+                      className="flex items-start justify-between gap-3 text-sm"
+                    >
+                      <div className="min-w-0">
+                        <p className="truncate text-foreground">{row.label}</p>
+                        {row.reason && <p className="text-xs text-muted-foreground">{row.reason}</p>}
+                      </div>
+                      <Badge variant={statusBadgeVariant[row.status]} className="shrink-0 capitalize">
+                        {row.status}
+                      </Badge>
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+              <AlertDialogFooter>
+                {migrateMutation.data.rejected > 0 && (
+                  <AlertDialogCancel
+                    onClick={(e) => {
+                      // Rows already imported come back as skipped; only the rejected ones are tried again.
+                      e.preventDefault();
+                      migrateMutation.mutate();
+                    }}
+                  >
+                    Retry Rejected Rows
+                  </AlertDialogCancel>
+                )}
+                <AlertDialogAction onClick={() => setShowMigrationDialog(false)}>Done</AlertDialogAction>
+              </AlertDialogFooter>
+            </>
+          ) : (
+            <>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Import Existing Data?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {migrateMutation.isError
+                    ? "The import stopped before finishing. Everything imported so far is kept; try again to pick up where it left off."
+                    : "We found existing expenses on this device. Would you like to import them to your account?"}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              {migrationProgress && (
+                <div className="space-y-2">
+                  <Progress
+                    value={migrationProgress.total ? (migrationProgress.done / migrationProgress.total) * 100 : 0}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Imported {migrationProgress.done} of {migrationProgress.total}...
+                  </p>
+                </div>
+              )}
+              <AlertDialogFooter>
+                <AlertDialogCancel disabled={migrateMutation.isPending} onClick={() => setShowMigrationDialog(false)}>
+                  Start Fresh
+                </AlertDialogCancel>
+                <AlertDialogAction
+                  disabled={migrateMutation.isPending}
+                  onClick={(e) => {
+                    // Keep the dialog open for progress and the report.
+                    e.preventDefault();
+                    migrateMutation.mutate();
+                  }}
+                >
+                  {migrateMutation.isError ? "Try Again" : "Import Data"}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </>
+          )}
         </AlertDialogContent>
       </AlertDialog>
 
@@ -229,53 +327,51 @@ export default function Dashboard(): JSX.Element {
           {/* Header */}
           <div className="flex items-center justify-between mb-8">
             <div>
-              <h1 className="text-3xl font-bold text-foreground mb-2">{currentMonth}</h1>
+              <h1 className="text-3xl font-bold text-foreground mb-2">{title}</h1>
               <p className="text-muted-foreground">Track your spending</p>
             </div>
             <UserMenu />
           </div>
 
+          <DateRangePicker
+            value={rangeSelection}
+            onChange={setRangeSelection}
+            range={range}
+            previous={previousRange}
+          />
+
           {/* Total Spent Card */}
           <div className="bg-gradient-to-br from-primary to-primary/80 rounded-3xl p-6 text-primary-foreground shadow-xl">
             <div className="flex items-center gap-2 mb-2">
               <Wallet className="w-5 h-5" />
-              <span className="text-sm font-medium opacity-90">Total Spent This Month</span>
+              <span className="text-sm font-medium opacity-90">Total Spent</span>
             </div>
-            <div className="text-5xl font-bold mb-4">₹{currentTotal.toLocaleString()}</div>
+            <div className="text-5xl font-bold mb-4">{formatMoney(rangeTotal, homeCurrency)}</div>
 
             <div className="flex items-center gap-2">
               {percentageChange >= 0 ? <TrendingUp className="w-5 h-5" /> : <TrendingDown className="w-5 h-5" />}
               <span className="font-medium">
-                {Math.abs(percentageChange).toFixed(1)}% {percentageChange >= 0 ? "more" : "less"} than last month
+                {Math.abs(percentageChange).toFixed(1)}% {percentageChange >= 0 ? "more" : "less"} than the previous period
               </span>
             </div>
+            <UnconvertedNotice
+              count={countUnconverted(rangeExpenses)}
+              currency={homeCurrency}
+              className="mt-3 text-primary-foreground/90"
+            />
           </div>
 
           {/* Budget Progress */}
-          {budgetAmount ? (
+          {budgetSummary.overall ? (
             <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
               <div className="flex items-center justify-between mb-3">
                 <span className="font-semibold text-foreground">Monthly Budget</span>
                 <span className="text-sm text-muted-foreground">
-                  ₹{currentTotal.toLocaleString()} / ₹{budgetAmount.toLocaleString()}
+                  {formatMoney(monthTotal, homeCurrency)} / {formatMoney(budgetAmount, homeCurrency)}
                 </span>
               </div>
-              <div className="w-full bg-secondary rounded-full h-3 overflow-hidden">
-                <div
-                  className={cn(
-                    "h-full rounded-full transition-all",
-                    budgetPercentage > 100 ? "bg-destructive" : budgetPercentage > 80 ? "bg-warning" : "bg-success"
-                  )}
-                  style={{ width: `${Math.min(budgetPercentage, 100)}%` }}
-                />
-              </div>
-              <p className="text-xs text-muted-foreground mt-2">
-                {budgetPercentage > 100
-                  ? `You've exceeded your budget by ${(budgetPercentage - 100).toFixed(1)}%`
-                  : budgetPercentage > 80
-                  ? `Warning: You've used ${budgetPercentage.toFixed(1)}% of your budget`
-                  : `${(100 - budgetPercentage).toFixed(1)}% remaining`}
-              </p>
+              <BudgetProgress spent={monthTotal} limit={budgetAmount} />
+              <UnconvertedNotice count={countUnconverted(currentMonthExpenses)} currency={homeCurrency} className="mt-3" />
             </div>
           ) : (
             <Button variant="outline" className="w-full rounded-2xl" onClick={() => navigate("/analytics")}>
@@ -283,6 +379,73 @@ export default function Dashboard(): JSX.Element {
             </Button>
           )}
 
+          {/* Month-end Projection */}
+          {projection.projected > 0 && (
+            <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
+              <div className="flex items-center justify-between mb-2">
+                <span className="flex items-center gap-2 font-semibold text-foreground">
+                  <Gauge className="w-5 h-5 text-primary" />
+                  Projected Month-End
+                </span>
+                <span className="text-sm text-muted-foreground">
+                  {projection.daysLeft === 1 ? "1 day left" : `${projection.daysLeft} days left`}
+                </span>
+              </div>
+              <div className="text-3xl font-bold text-foreground">{formatMoney(projection.projected, homeCurrency)}</div>
+              <p className="text-sm text-muted-foreground">
+                Likely between {formatMoney(projection.low, homeCurrency)} and{" "}
+                {formatMoney(projection.high, homeCurrency)}
+              </p>
+              <p className="text-xs text-muted-foreground mt-2">
+                {formatMoney(projection.spent, homeCurrency)} spent so far
+                {projection.upcomingRecurring > 0 &&
+                  ` + ${formatMoney(projection.upcomingRecurring, homeCurrency)} recurring still due`}
+                {projection.daysLeft > 0 && ` + about ${formatMoney(projection.dailyRate, homeCurrency)} a day`}
+              </p>
+
+              {overrun && (
+                <div className="flex items-start gap-2 p-3 mt-4 rounded-xl bg-destructive/10 text-destructive text-sm">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <span>
+                    At this pace you'll exceed your budget by {formatMoney(overrun.amount, homeCurrency)} around the{" "}
+                    {format(parseISO(overrun.date), "do")}
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Category Budgets */}
+          {categoryBudgetProgress.length > 0 && (
+            <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
+              <h2 className="text-xl font-bold text-foreground mb-4">Category Budgets</h2>
+
+              {overBudgetCategories.length > 0 && (
+                <div className="flex items-start gap-2 p-3 mb-4 rounded-xl bg-destructive/10 text-destructive text-sm">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <span>
+                    Over budget:{" "}
+                    {overBudgetCategories.map((progress) => getCategoryLabel(progress.category, categories)).join(", ")}
+                  </span>
+                </div>
+              )}
+
+              <div className="space-y-4">
+                {categoryBudgetProgress.map((progress) => (
+                  <div key={progress.category}>
+                    <div className="flex items-center justify-between mb-2">
+                      <span className="font-medium text-foreground">{getCategoryLabel(progress.category, categories)}</span>
+                      <span className="text-sm text-muted-foreground">
+                        {formatMoney(progress.spent, homeCurrency)} / {formatMoney(progress.limit, homeCurrency)}
+                      </span>
+                    </div>
+                    <BudgetProgress spent={progress.spent} limit={progress.limit} size="sm" />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Category Breakdown */}
           {pieData.length > 0 && (
             <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
@@ -306,9 +469,9 @@ export default function Dashboard(): JSX.Element {
                     <div className="p-3 bg-primary/10 rounded-xl border border-primary/20">
                       <p className="text-sm text-muted-foreground">Top Category</p>
                       <p className="font-bold text-lg capitalize text-foreground">
-                        {getCategoryInfo(topCategory.category).label}
+                        {getCategoryInfo(topCategory.category, categories).name}
                       </p>
-                      <p className="text-primary font-semibold">₹{topCategory.amount.toLocaleString()}</p>
+                      <p className="text-primary font-semibold">{formatMoney(topCategory.amount, homeCurrency)}</p>
                     </div>
                   )}
                 </div>
@@ -329,13 +492,19 @@ export default function Dashboard(): JSX.Element {
 
             {recentExpenses.length === 0 ? (
               <div className="bg-card rounded-2xl p-8 text-center shadow-md border border-border">
-                <p className="text-muted-foreground mb-4">No expenses yet this month</p>
+                <p className="text-muted-foreground mb-4">No expenses in this period</p>
                 <Button onClick={() => navigate("/add")}>Add Your First Expense</Button>
               </div>
             ) : (
               <div className="space-y-3">
                 {recentExpenses.map((expense) => (
-                  <ExpenseCard key={expense.id} expense={expense} onDelete={handleDelete} onEdit={() => handleEdit(expense)} />
+                  <ExpenseCard
+                    key={expense.id}
+                    expense={expense}
+                    onDelete={handleDelete}
+                    onEdit={() => handleEdit(expense)}
+                    anomaly={anomalyByExpense.get(expense.id)}
+                  />
                 ))}
               </div>
             )}
@@ -0,0 +1,240 @@
+import { useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { ArrowLeft, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/contexts/AuthContext";
+import { useExchangeRates, useHomeCurrency } from "@/hooks/use-currency";
+import { useUpdateProfile } from "@/hooks/use-profile";
+import { repository } from "@/lib/repository";
+import { currencies, parseRatesCsv, RatesCsvResult } from "@/lib/currency";
+import { ExchangeRate } from "@/lib/types";
+
+const CurrencySelect = ({ value, onChange, label }: { value: string; onChange: (value: string) => void; label: string }) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger className="rounded-xl h-12 text-base" aria-label={label}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {currencies.map((option) => (
+        <SelectItem key={option.code} value={option.code}>
+          {option.code} · {option.label}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default function ExchangeRates() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const homeCurrency = useHomeCurrency();
+  const { data: rates = [] } = useExchangeRates();
+  const updateProfileMutation = useUpdateProfile();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [baseCurrency, setBaseCurrency] = useState("USD");
+  const [rate, setRate] = useState("");
+  const [importErrors, setImportErrors] = useState<RatesCsvResult["errors"]>([]);
+
+  const saveMutation = useMutation({
+    mutationFn: (newRates: ExchangeRate[]) => repository.saveExchangeRates(user!.id, newRates),
+    onSuccess: (_data, newRates) => {
+      queryClient.invalidateQueries({ queryKey: ["exchangeRates"] });
+      toast.success(newRates.length === 1 ? "Exchange rate saved" : `${newRates.length} exchange rates saved`);
+      setRate("");
+    },
+    onError: () => {
+      toast.error("Could not save exchange rates");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (target: ExchangeRate) => repository.deleteExchangeRate(user!.id, target),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["exchangeRates"] });
+      toast.success("Exchange rate deleted");
+    },
+    onError: () => {
+      toast.error("Could not delete exchange rate");
+    },
+  });
+
+  const handleHomeCurrencyChange = (currency: string) => {
+    updateProfileMutation.mutate(
+      { currencyPreference: currency },
+      {
+        onSuccess: () => toast.success(`Totals are now shown in ${currency}`),
+        onError: () => toast.error("Could not change home currency"),
+      }
+    );
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const numRate = parseFloat(rate);
+    if (isNaN(numRate) || numRate <= 0) {
+      toast.error("Please enter a valid rate");
+      return;
+    }
+    if (baseCurrency === homeCurrency) {
+      toast.error(`Pick a currency other than ${homeCurrency}`);
+      return;
+    }
+
+    saveMutation.mutate([{ date, baseCurrency, quoteCurrency: homeCurrency, rate: numRate }]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const result = parseRatesCsv(await file.text());
+    setImportErrors(result.errors);
+
+    if (result.rates.length === 0) {
+      toast.error("No valid rates found in the file");
+      return;
+    }
+    saveMutation.mutate(result.rates);
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-24 pt-6 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="rounded-full">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Currencies</h1>
+            <p className="text-muted-foreground">Home currency and the rates used to convert totals</p>
+          </div>
+        </div>
+
+        {/* Home currency */}
+        <div className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-3">
+          <Label className="text-base font-semibold">Home currency</Label>
+          <CurrencySelect value={homeCurrency} onChange={handleHomeCurrencyChange} label="Home currency" />
+          <p className="text-xs text-muted-foreground">
+            Budgets, totals and charts are shown in this currency. Expenses keep the currency they were paid in.
+          </p>
+        </div>
+
+        {/* Manual entry */}
+        <form onSubmit={handleAdd} className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">Add a rate</h2>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="rate-date">Date</Label>
+              <Input
+                id="rate-date"
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="rounded-xl h-12 text-base"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Currency</Label>
+              <CurrencySelect value={baseCurrency} onChange={setBaseCurrency} label="Currency" />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="rate-value">
+              1 {baseCurrency} = ? {homeCurrency}
+            </Label>
+            <Input
+              id="rate-value"
+              type="number"
+              step="any"
+              placeholder="0.00"
+              value={rate}
+              onChange={(e) => setRate(e.target.value)}
+              className="rounded-xl h-12 text-base"
+              required
+            />
+          </div>
+          <Button type="submit" className="w-full rounded-xl" disabled={saveMutation.isPending}>
+            Save Rate
+          </Button>
+        </form>
+
+        {/* CSV import */}
+        <div className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-3">
+          <h2 className="text-lg font-semibold text-foreground">Import from CSV</h2>
+          <p className="text-sm text-muted-foreground">
+            One rate per line as <code>date,from,to,rate</code>, e.g. <code>2024-05-01,USD,INR,83.45</code>. Rates
+            for a date you already have are replaced.
+          </p>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImport} />
+          <Button
+            variant="outline"
+            className="w-full rounded-xl"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={saveMutation.isPending}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            Choose CSV File
+          </Button>
+          {importErrors.length > 0 && (
+            <ul className="text-sm text-destructive space-y-1">
+              {importErrors.map((error) => (
+                <li key={error.line}>
+                  Line {error.line}: {error.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Saved rates */}
+        <div className="bg-card rounded-2xl p-6 shadow-md border border-border">
+          <h2 className="text-lg font-semibold text-foreground mb-4">Saved rates</h2>
+          {rates.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No rates yet. Expenses in other currencies count at face value until a rate is added.
+            </p>
+          ) : (
+            <div className="divide-y divide-border">
+              {rates.map((saved) => (
+                <div
+                  key={`${saved.date}:${saved.baseCurrency}:${saved.quoteCurrency}`}
+                  className="flex items-center justify-between py-2"
+                >
+                  <div>
+                    <p className="font-medium text-foreground">
+                      1 {saved.baseCurrency} = {saved.rate.toLocaleString(undefined, { maximumFractionDigits: 6 })}{" "}
+                      {saved.quoteCurrency}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{format(parseISO(saved.date), "MMM dd, yyyy")}</p>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Delete"
+                    onClick={() => deleteMutation.mutate(saved)}
+                    className="w-8 h-8 text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,16 +1,27 @@
 import { useState, useEffect } from "react";
-import { supabaseStorage } from "@/lib/storage";
+import { repository } from "@/lib/repository";
+import { useExpenses } from "@/hooks/use-expenses";
+import { useCategories } from "@/hooks/use-categories";
 import { Expense, Category, PaymentMethod } from "@/lib/types";
 import { ExpenseCard } from "@/components/ExpenseCard";
+import { ExportDialog } from "@/components/ExportDialog";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
-import { Search, Filter, ArrowUpDown } from "lucide-react";
-import { categories } from "@/lib/categories";
-import { format, parseISO, startOfMonth, endOfMonth } from "date-fns";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Search, Filter, ArrowUpDown, Tags } from "lucide-react";
+import { defaultCategories, getParentCategory } from "@/lib/categories";
+import { expenseInCategory } from "@/lib/splits";
+import { getHomeAmount } from "@/lib/currency";
+import { getTagSummaries, hasTag, normalizeTag } from "@/lib/tags";
+import { cn } from "@/lib/utils";
+import { filterByRange, formatPeriod, getPeriodKey, getPeriodRange } from "@/lib/dateRanges";
+import { usePeriodStartDay } from "@/hooks/use-profile";
+import { useAnomalies } from "@/hooks/use-anomalies";
 import { useNavigate } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { toast } from "sonner";
 
 export default function History() {
@@ -23,17 +34,19 @@ export default function History() {
   const [categoryFilter, setCategoryFilter] = useState<Category | "all">("all");
   const [paymentFilter, setPaymentFilter] = useState<PaymentMethod | "all">("all");
   const [monthFilter, setMonthFilter] = useState<string>("all");
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
   const [sortBy, setSortBy] = useState<"date" | "amount">("date");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
 
-  const { data: expenses = [] } = useQuery({
-    queryKey: ["expenses", user?.id],
-    queryFn: () => supabaseStorage.getExpenses(user!.id),
-    enabled: !!user?.id,
-  });
+  const { data: expenses = [] } = useExpenses();
+  const { data: categories = defaultCategories } = useCategories();
+  const periodStartDay = usePeriodStartDay();
+  const anomalies = useAnomalies();
+  const anomalyByExpense = new Map(anomalies.map((anomaly) => [anomaly.expenseId, anomaly]));
+  const tagSummaries = getTagSummaries(expenses).sort((a, b) => a.name.localeCompare(b.name));
 
   const deleteMutation = useMutation({
-    mutationFn: (id: string) => supabaseStorage.deleteExpense(id),
+    mutationFn: (id: string) => repository.deleteExpense(user!.id, id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["expenses"] });
       toast.success("Expense deleted");
@@ -42,7 +55,18 @@ export default function History() {
 
   useEffect(() => {
     applyFilters();
-  }, [expenses, searchQuery, categoryFilter, paymentFilter, monthFilter, sortBy, sortOrder]);
+  }, [
+    expenses,
+    searchQuery,
+    categoryFilter,
+    paymentFilter,
+    monthFilter,
+    tagFilter,
+    sortBy,
+    sortOrder,
+    categories,
+    periodStartDay,
+  ]);
 
   const applyFilters = () => {
     let filtered = [...expenses];
@@ -53,13 +77,18 @@ export default function History() {
       filtered = filtered.filter(
         (e) =>
           e.description.toLowerCase().includes(query) ||
-          e.tag?.toLowerCase().includes(query)
+          e.tags?.some((tag) => tag.toLowerCase().includes(query))
       );
     }
 
-    // Category filter
+    // Tag filter: expenses carrying any of the selected tags
+    if (tagFilter.length > 0) {
+      filtered = filtered.filter((e) => tagFilter.some((tag) => hasTag(e.tags, tag)));
+    }
+
+    // Category filter; a parent also matches its subcategories
     if (categoryFilter !== "all") {
-      filtered = filtered.filter((e) => e.category === categoryFilter);
+      filtered = filtered.filter((e) => expenseInCategory(e, categoryFilter, categories));
     }
 
     // Payment filter
@@ -67,16 +96,9 @@ export default function History() {
       filtered = filtered.filter((e) => e.paymentMethod === paymentFilter);
     }
 
-    // Month filter
+    // Month filter, by budget period
     if (monthFilter !== "all") {
-      const [year, month] = monthFilter.split("-");
-      const monthStart = startOfMonth(new Date(parseInt(year), parseInt(month) - 1));
-      const monthEnd = endOfMonth(monthStart);
-      
-      filtered = filtered.filter((e) => {
-        const expenseDate = parseISO(e.date);
-        return expenseDate >= monthStart && expenseDate <= monthEnd;
-      });
+      filtered = filterByRange(filtered, getPeriodRange(monthFilter, periodStartDay));
     }
 
     // Sort
@@ -86,7 +108,9 @@ export default function History() {
         const dateB = new Date(b.date).getTime();
         return sortOrder === "asc" ? dateA - dateB : dateB - dateA;
       } else {
-        return sortOrder === "asc" ? a.amount - b.amount : b.amount - a.amount;
+        return sortOrder === "asc"
+          ? getHomeAmount(a) - getHomeAmount(b)
+          : getHomeAmount(b) - getHomeAmount(a);
       }
     });
 
@@ -105,9 +129,9 @@ export default function History() {
     setSortOrder(sortOrder === "asc" ? "desc" : "asc");
   };
 
-  // Get unique months from expenses
+  // Get unique months (budget periods) from expenses
   const uniqueMonths = Array.from(
-    new Set(expenses.map((e) => format(parseISO(e.date), "yyyy-MM")))
+    new Set(expenses.map((e) => getPeriodKey(e.date, periodStartDay)))
   ).sort((a, b) => b.localeCompare(a));
 
   return (
@@ -147,8 +171,13 @@ export default function History() {
               <SelectContent>
                 <SelectItem value="all">All Categories</SelectItem>
                 {categories.map((cat) => (
-                  <SelectItem key={cat.value} value={cat.value}>
-                    {cat.label}
+                  <SelectItem
+                    key={cat.id}
+                    value={cat.id}
+                    className={cn(getParentCategory(cat.id, categories) && "pl-12")}
+                  >
+                    {cat.name}
+                    {cat.archived && " (archived)"}
                   </SelectItem>
                 ))}
               </SelectContent>
@@ -177,12 +206,56 @@ export default function History() {
                 <SelectItem value="all">All Months</SelectItem>
                 {uniqueMonths.map((month) => (
                   <SelectItem key={month} value={month}>
-                    {format(parseISO(`${month}-01`), "MMM yyyy")}
+                    {formatPeriod(month, periodStartDay)}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
 
+            {/* Tag Filter */}
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" className="rounded-xl justify-between font-normal" disabled={tagSummaries.length === 0}>
+                  <span className="flex items-center gap-2 truncate">
+                    <Tags className="w-4 h-4" />
+                    {tagFilter.length === 0
+                      ? "All Tags"
+                      : tagFilter.length === 1
+                      ? tagFilter[0]
+                      : `${tagFilter.length} tags`}
+                  </span>
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="start" className="w-64 p-2">
+                <div className="max-h-64 overflow-y-auto">
+                  {tagSummaries.map((summary) => (
+                    <label
+                      key={summary.name}
+                      className="flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm cursor-pointer hover:bg-muted"
+                    >
+                      <Checkbox
+                        checked={hasTag(tagFilter, summary.name)}
+                        onCheckedChange={(checked) =>
+                          setTagFilter(
+                            checked === true
+                              ? [...tagFilter, summary.name]
+                              : tagFilter.filter((tag) => normalizeTag(tag) !== normalizeTag(summary.name))
+                          )
+                        }
+                      />
+                      <span className="flex-1 truncate">{summary.name}</span>
+                      <span className="text-xs text-muted-foreground">{summary.count}</span>
+                    </label>
+                  ))}
+                </div>
+                {tagFilter.length > 0 && (
+                  <Button variant="ghost" size="sm" className="w-full mt-1" onClick={() => setTagFilter([])}>
+                    Clear Tags
+                  </Button>
+                )}
+              </PopoverContent>
+            </Popover>
+
             {/* Sort By */}
             <Select value={sortBy} onValueChange={(value) => setSortBy(value as any)}>
               <SelectTrigger className="rounded-xl">
@@ -211,20 +284,28 @@ export default function History() {
           <span className="text-sm text-muted-foreground">
             {filteredExpenses.length} {filteredExpenses.length === 1 ? "expense" : "expenses"} found
           </span>
-          {(searchQuery || categoryFilter !== "all" || paymentFilter !== "all" || monthFilter !== "all") && (
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => {
-                setSearchQuery("");
-                setCategoryFilter("all");
-                setPaymentFilter("all");
-                setMonthFilter("all");
-              }}
-            >
-              Clear Filters
-            </Button>
-          )}
+          <div className="flex items-center gap-2">
+            {(searchQuery ||
+              categoryFilter !== "all" ||
+              paymentFilter !== "all" ||
+              monthFilter !== "all" ||
+              tagFilter.length > 0) && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setSearchQuery("");
+                  setCategoryFilter("all");
+                  setPaymentFilter("all");
+                  setMonthFilter("all");
+                  setTagFilter([]);
+                }}
+              >
+                Clear Filters
+              </Button>
+            )}
+            <ExportDialog expenses={filteredExpenses} />
+          </div>
         </div>
 
         {/* Expenses List */}
@@ -240,6 +321,7 @@ export default function History() {
                 expense={expense}
                 onDelete={handleDelete}
                 onEdit={handleEdit}
+                anomaly={anomalyByExpense.get(expense.id)}
               />
             ))}
           </div>
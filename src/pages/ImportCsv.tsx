@@ -0,0 +1,378 @@
+import { useMemo, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { AlertCircle, ArrowLeft, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useAuth } from "@/contexts/AuthContext";
+import { useAccounts } from "@/hooks/use-accounts";
+import { useHomeCurrency } from "@/hooks/use-currency";
+import { useCategories } from "@/hooks/use-categories";
+import { useCategoryRules } from "@/hooks/use-category-rules";
+import { repository } from "@/lib/repository";
+import { defaultCategories, getActiveCategories, getCategoryLabel } from "@/lib/categories";
+import { paymentMethods } from "@/lib/paymentMethods";
+import { currencies, formatMoney } from "@/lib/currency";
+import { getDefaultAccount } from "@/lib/accounts";
+import {
+  AmountSign,
+  buildImportPreview,
+  ColumnMapping,
+  DecimalSeparator,
+  dateFormats,
+  guessAmountSign,
+  guessMapping,
+  parseCsv,
+} from "@/lib/csvImport";
+import { Category, PaymentMethod } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+const NONE = "none";
+
+const mappingFields: { key: keyof ColumnMapping; label: string; required: boolean }[] = [
+  { key: "date", label: "Date", required: true },
+  { key: "description", label: "Description", required: true },
+  { key: "amount", label: "Amount", required: true },
+  { key: "category", label: "Category", required: false },
+  { key: "paymentMethod", label: "Payment method", required: false },
+];
+
+const emptyMapping: ColumnMapping = {
+  date: null,
+  description: null,
+  amount: null,
+  category: null,
+  paymentMethod: null,
+};
+
+// Small labelled Select used for every option on this page.
+const OptionSelect = ({
+  label,
+  value,
+  onChange,
+  options,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+  options: { value: string; label: string }[];
+}) => (
+  <div className="space-y-2">
+    <Label>{label}</Label>
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="rounded-xl">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {options.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+export default function ImportCsv() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const homeCurrency = useHomeCurrency();
+  const { data: accounts = [] } = useAccounts();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState("");
+  const [rows, setRows] = useState<string[][]>([]);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ColumnMapping>(emptyMapping);
+  const [dateFormat, setDateFormat] = useState(dateFormats[0].value);
+  const [decimalSeparator, setDecimalSeparator] = useState<DecimalSeparator>(".");
+  const [amountSign, setAmountSign] = useState<AmountSign>("positive");
+  const [defaultCategory, setDefaultCategory] = useState<Category>("other");
+  const [defaultPaymentMethod, setDefaultPaymentMethod] = useState<PaymentMethod>("card");
+  const [currencyChoice, setCurrencyChoice] = useState<string | null>(null);
+  const { data: categories = defaultCategories } = useCategories();
+  const { data: rules = [] } = useCategoryRules();
+  const [accountChoice, setAccountChoice] = useState<string | null>(null);
+
+  const currency = currencyChoice ?? homeCurrency;
+  const accountId = accountChoice ?? getDefaultAccount(accounts, defaultPaymentMethod)?.id;
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  const columnOptions = Array.from({ length: columnCount }, (_, index) => ({
+    value: String(index),
+    label: hasHeader && rows[0]?.[index] ? rows[0][index] : `Column ${index + 1}`,
+  }));
+
+  const preview = useMemo(
+    () =>
+      buildImportPreview(rows, {
+        mapping,
+        dateFormat,
+        decimalSeparator,
+        amountSign,
+        hasHeader,
+        categories,
+        rules,
+        defaultCategory,
+        defaultPaymentMethod,
+        currency,
+        accountId,
+      }),
+    [
+      rows,
+      mapping,
+      dateFormat,
+      decimalSeparator,
+      amountSign,
+      hasHeader,
+      categories,
+      rules,
+      defaultCategory,
+      defaultPaymentMethod,
+      currency,
+      accountId,
+    ]
+  );
+
+  const ready = preview.filter((row) => row.expense);
+  const invalid = preview.filter((row) => row.errors.length > 0);
+  const skipped = preview.filter((row) => row.skipped);
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      for (const row of ready) {
+        await repository.addExpense(user!.id, row.expense!);
+      }
+      return ready.length;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      toast.success(`Imported ${count} expense${count === 1 ? "" : "s"}`);
+      navigate("/history");
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      toast.error("Import stopped part-way. Check History before importing again.");
+    },
+  });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const parsed = parseCsv(await file.text());
+    if (parsed.length === 0) {
+      toast.error("That file has no rows");
+      return;
+    }
+
+    setFileName(file.name);
+    const guessed = guessMapping(parsed[0]);
+    setRows(parsed);
+    setMapping(guessed);
+    setAmountSign(guessAmountSign(parsed, guessed.amount));
+  };
+
+  const setColumn = (key: keyof ColumnMapping, value: string) => {
+    const column = value === NONE ? null : Number(value);
+    setMapping((current) => ({ ...current, [key]: column }));
+    if (key === "amount") setAmountSign(guessAmountSign(rows, column));
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-24 pt-6 px-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="rounded-full">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Import CSV</h1>
+            <p className="text-muted-foreground">Bring in a bank or card statement</p>
+          </div>
+        </div>
+
+        {/* Step 1: file */}
+        <div className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">1. Choose a file</h2>
+          <input ref={fileInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+          <Button variant="outline" className="w-full rounded-xl" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="w-4 h-4 mr-2" />
+            {fileName ? `${fileName} · ${rows.length} rows` : "Choose CSV File"}
+          </Button>
+          {rows.length > 0 && (
+            <div className="flex items-center gap-3">
+              <Switch id="has-header" checked={hasHeader} onCheckedChange={setHasHeader} />
+              <Label htmlFor="has-header">First row is a header</Label>
+            </div>
+          )}
+        </div>
+
+        {rows.length > 0 && (
+          <>
+            {/* Step 2: mapping and formats */}
+            <div className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-4">
+              <h2 className="text-lg font-semibold text-foreground">2. Match the columns</h2>
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {mappingFields.map((field) => (
+                  <OptionSelect
+                    key={field.key}
+                    label={field.required ? field.label : `${field.label} (Optional)`}
+                    value={mapping[field.key] === null ? NONE : String(mapping[field.key])}
+                    onChange={(value) => setColumn(field.key, value)}
+                    options={[{ value: NONE, label: "Not in file" }, ...columnOptions]}
+                  />
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3 pt-4 border-t border-border">
+                <OptionSelect
+                  label="Date format"
+                  value={dateFormat}
+                  onChange={setDateFormat}
+                  options={dateFormats}
+                />
+                <OptionSelect
+                  label="Decimal separator"
+                  value={decimalSeparator}
+                  onChange={(value) => setDecimalSeparator(value as DecimalSeparator)}
+                  options={[
+                    { value: ".", label: "Point (1,234.50)" },
+                    { value: ",", label: "Comma (1.234,50)" },
+                  ]}
+                />
+                <OptionSelect
+                  label="Spending is shown as"
+                  value={amountSign}
+                  onChange={(value) => setAmountSign(value as AmountSign)}
+                  options={[
+                    { value: "positive", label: "Positive amounts" },
+                    { value: "negative", label: "Negative amounts or DR" },
+                  ]}
+                />
+                <OptionSelect
+                  label="Default category"
+                  value={defaultCategory}
+                  onChange={(value) => setDefaultCategory(value as Category)}
+                  options={getActiveCategories(categories, defaultCategory).map((cat) => ({
+                    value: cat.id,
+                    label: getCategoryLabel(cat.id, categories),
+                  }))}
+                />
+                <OptionSelect
+                  label="Default payment method"
+                  value={defaultPaymentMethod}
+                  onChange={(value) => setDefaultPaymentMethod(value as PaymentMethod)}
+                  options={paymentMethods}
+                />
+                <OptionSelect
+                  label="Currency"
+                  value={currency}
+                  onChange={setCurrencyChoice}
+                  options={currencies.map((option) => ({ value: option.code, label: option.code }))}
+                />
+                {accountId && (
+                  <OptionSelect
+                    label="Charge to account"
+                    value={accountId}
+                    onChange={setAccountChoice}
+                    options={accounts
+                      .filter((account) => !account.archived)
+                      .map((account) => ({ value: account.id, label: account.name }))}
+                  />
+                )}
+              </div>
+            </div>
+
+            {/* Step 3: preview */}
+            <div className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-lg font-semibold text-foreground">3. Check and import</h2>
+                <p className="text-sm text-muted-foreground">
+                  {ready.length} ready · {invalid.length} with errors · {skipped.length} money in (skipped)
+                </p>
+              </div>
+
+              <div className="max-h-96 overflow-auto rounded-xl border border-border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Category</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {preview.map((row) => (
+                      <TableRow
+                        key={row.line}
+                        className={cn(row.errors.length > 0 && "bg-destructive/5", row.skipped && "opacity-60")}
+                      >
+                        <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                        <TableCell className="whitespace-nowrap">{row.expense?.date ?? "—"}</TableCell>
+                        <TableCell className="max-w-48 truncate">{row.expense?.description ?? row.cells.join(" · ")}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {row.spent === null ? "—" : formatMoney(Math.abs(row.spent), currency)}
+                          {row.spent !== null && row.errors.length === 0 && (
+                            <span className="block text-xs text-muted-foreground">
+                              {row.spent < 0 ? "Money in" : "Money out"}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {row.expense ? getCategoryLabel(row.expense.category, categories) : "—"}
+                          {row.expense && row.rule && (
+                            <span className="block text-xs text-muted-foreground">Rule: {row.rule.name}</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          {row.errors.length > 0 ? (
+                            <span className="flex items-start gap-1 text-destructive">
+                              <AlertCircle className="w-3 h-3 mt-0.5 shrink-0" />
+                              {row.errors.join("; ")}
+                            </span>
+                          ) : row.skipped ? (
+                            <span className="text-muted-foreground">Money in, skipped</span>
+                          ) : row.warnings.length > 0 ? (
+                            <span className="text-warning">{row.warnings.join("; ")}</span>
+                          ) : (
+                            <span className="text-success">OK</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <Button
+                className="w-full h-12 rounded-xl"
+                disabled={ready.length === 0 || importMutation.isPending}
+                onClick={() => importMutation.mutate()}
+              >
+                {importMutation.isPending
+                  ? "Importing..."
+                  : `Import ${ready.length} expense${ready.length === 1 ? "" : "s"}`}
+              </Button>
+              {invalid.length > 0 && ready.length > 0 && (
+                <p className="text-xs text-muted-foreground text-center">
+                  Rows with errors are left out. Adjust the options above to fix them.
+                </p>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { ArrowLeft, Edit, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { UnconvertedNotice } from "@/components/UnconvertedNotice";
+import { useAuth } from "@/contexts/AuthContext";
+import { useHomeCurrency } from "@/hooks/use-currency";
+import { useIncome } from "@/hooks/use-income";
+import { usePeriodStartDay } from "@/hooks/use-profile";
+import { useAccounts } from "@/hooks/use-accounts";
+import { repository } from "@/lib/repository";
+import { countUnconverted, currencies, formatMoney, getHomeAmount } from "@/lib/currency";
+import { getIncomeSourceInfo, incomeSources } from "@/lib/incomeSources";
+import { filterByRange, getCurrentPeriodKey, getPeriodRange } from "@/lib/dateRanges";
+import { Income as IncomeEntry, IncomeSource } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+export default function Income() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const homeCurrency = useHomeCurrency();
+  const periodStartDay = usePeriodStartDay();
+  const { data: income = [] } = useIncome();
+  const { data: accounts = [] } = useAccounts();
+
+  const [editing, setEditing] = useState<IncomeEntry | null>(null);
+  const [date, setDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [source, setSource] = useState<IncomeSource>("salary");
+  const [description, setDescription] = useState("");
+  const [amount, setAmount] = useState("");
+  const [currencyChoice, setCurrencyChoice] = useState<string | null>(null);
+  const [accountId, setAccountId] = useState("none");
+  const currency = currencyChoice ?? homeCurrency;
+
+  const resetForm = () => {
+    setEditing(null);
+    setDate(format(new Date(), "yyyy-MM-dd"));
+    setSource("salary");
+    setDescription("");
+    setAmount("");
+    setCurrencyChoice(null);
+    setAccountId("none");
+  };
+
+  const startEditing = (entry: IncomeEntry) => {
+    setEditing(entry);
+    setDate(entry.date);
+    setSource(entry.source);
+    setDescription(entry.description);
+    setAmount(entry.amount.toString());
+    setCurrencyChoice(entry.currency);
+    setAccountId(entry.accountId ?? "none");
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (entry: IncomeEntry) => repository.saveIncome(user!.id, entry),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["income"] });
+      toast.success(editing ? "Income updated" : "Income added");
+      resetForm();
+    },
+    onError: () => {
+      toast.error("Could not save income");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => repository.deleteIncome(user!.id, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["income"] });
+      toast.success("Income deleted");
+    },
+    onError: () => {
+      toast.error("Could not delete income");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const numAmount = parseFloat(amount);
+    if (isNaN(numAmount) || numAmount <= 0) {
+      toast.error("Please enter a valid amount");
+      return;
+    }
+
+    saveMutation.mutate({
+      id: editing?.id ?? crypto.randomUUID(),
+      date,
+      source,
+      description: description.trim() || getIncomeSourceInfo(source).label,
+      amount: numAmount,
+      currency,
+      accountId: accountId === "none" ? undefined : accountId,
+      createdAt: editing?.createdAt ?? new Date().toISOString(),
+    });
+  };
+
+  const thisMonth = getPeriodRange(getCurrentPeriodKey(periodStartDay), periodStartDay);
+  const thisMonthIncome = filterByRange(income, thisMonth);
+  const thisMonthTotal = thisMonthIncome.reduce((sum, entry) => sum + getHomeAmount(entry), 0);
+
+  return (
+    <div className="min-h-screen bg-background pb-24 pt-6 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="rounded-full">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Income</h1>
+            <p className="text-muted-foreground">
+              {formatMoney(thisMonthTotal, homeCurrency)} received this month
+            </p>
+            <UnconvertedNotice
+              count={countUnconverted(thisMonthIncome)}
+              currency={homeCurrency}
+              noun={["entry", "entries"]}
+              className="mt-1"
+            />
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">{editing ? "Edit income" : "Add income"}</h2>
+
+          <div className="grid grid-cols-3 gap-3">
+            {incomeSources.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setSource(option.value)}
+                className={cn(
+                  "flex flex-col items-center gap-2 p-3 rounded-2xl border-2 transition-all",
+                  source === option.value
+                    ? "border-primary bg-primary/10"
+                    : "border-border bg-card hover:border-primary/50"
+                )}
+              >
+                <option.icon
+                  className={cn("w-6 h-6", source === option.value ? "text-primary" : "text-muted-foreground")}
+                />
+                <span className="text-xs font-medium">{option.label}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="income-date">Date</Label>
+            <Input
+              id="income-date"
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="rounded-xl h-12 text-base"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="income-description">Description (Optional)</Label>
+            <Input
+              id="income-description"
+              type="text"
+              placeholder="e.g., October salary"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="rounded-xl h-12 text-base"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="income-amount">Amount</Label>
+            <div className="flex gap-3">
+              <Input
+                id="income-amount"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="rounded-xl h-12 text-base flex-1"
+                required
+              />
+              <Select value={currency} onValueChange={setCurrencyChoice}>
+                <SelectTrigger className="rounded-xl h-12 text-base w-28" aria-label="Currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {currencies.map((option) => (
+                    <SelectItem key={option.code} value={option.code}>
+                      {option.code}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {accounts.some((account) => !account.archived) && (
+            <div className="space-y-2">
+              <Label>Paid into</Label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger className="rounded-xl h-12 text-base">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No account</SelectItem>
+                  {accounts
+                    .filter((account) => !account.archived || account.id === accountId)
+                    .map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            {editing && (
+              <Button type="button" variant="outline" className="flex-1 rounded-xl" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" className="flex-1 rounded-xl" disabled={saveMutation.isPending}>
+              {editing ? "Update Income" : "Add Income"}
+            </Button>
+          </div>
+        </form>
+
+        {income.length === 0 ? (
+          <div className="bg-card rounded-2xl p-8 text-center shadow-md border border-border">
+            <p className="text-muted-foreground">No income recorded yet</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {income.map((entry) => {
+              const sourceInfo = getIncomeSourceInfo(entry.source);
+              const Icon = sourceInfo.icon;
+
+              return (
+                <div key={entry.id} className="bg-card rounded-2xl p-4 shadow-md border border-border">
+                  <div className="flex items-start gap-3">
+                    <div className="w-12 h-12 rounded-xl flex items-center justify-center shrink-0 bg-success/20">
+                      <Icon className="w-6 h-6 text-success" />
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between gap-2 mb-1">
+                        <h3 className="font-semibold text-foreground truncate">{entry.description}</h3>
+                        <div className="text-right">
+                          <span className="font-bold text-lg text-success whitespace-nowrap">
+                            +{formatMoney(entry.amount, entry.currency)}
+                          </span>
+                          {entry.convertedAmount !== undefined && (
+                            <p className="text-xs text-muted-foreground whitespace-nowrap">
+                              ≈ {formatMoney(entry.convertedAmount, homeCurrency)}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <span>{sourceInfo.label}</span>
+                        <span>•</span>
+                        <span>{format(parseISO(entry.date), "MMM dd, yyyy")}</span>
+                      </div>
+                    </div>
+
+                    <div className="flex gap-1 ml-2">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Edit"
+                        onClick={() => startEditing(entry)}
+                        className="w-8 h-8 text-muted-foreground hover:text-foreground"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Delete"
+                        onClick={() => deleteMutation.mutate(entry.id)}
+                        className="w-8 h-8 text-muted-foreground hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ArrowLeft, Edit, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { TagInput } from "@/components/TagInput";
+import { useAuth } from "@/contexts/AuthContext";
+import { useExpenses } from "@/hooks/use-expenses";
+import { useMerchants } from "@/hooks/use-merchants";
+import { useHomeCurrency } from "@/hooks/use-currency";
+import { repository } from "@/lib/repository";
+import { formatMoney } from "@/lib/currency";
+import {
+  findMerchantClash,
+  getExpenseMerchant,
+  getMerchantLeaderboard,
+  normalizeMerchantText,
+} from "@/lib/merchants";
+import { Merchant } from "@/lib/types";
+
+// How many unmatched descriptions to offer as new merchants.
+const UNMATCHED_LIMIT = 5;
+
+export default function Merchants() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const homeCurrency = useHomeCurrency();
+  const { data: merchants = [] } = useMerchants();
+  const { data: expenses = [] } = useExpenses();
+
+  const [editing, setEditing] = useState<Merchant | null>(null);
+  const [name, setName] = useState("");
+  const [aliases, setAliases] = useState<string[]>([]);
+  const [deleting, setDeleting] = useState<Merchant | null>(null);
+
+  const stats = new Map(getMerchantLeaderboard(expenses, merchants).map((entry) => [entry.merchant.id, entry]));
+
+  // The most frequent descriptions no merchant matches yet, as starting points.
+  const unmatched = [
+    ...expenses
+      .filter((expense) => !getExpenseMerchant(expense, merchants))
+      .reduce((counts, expense) => {
+        const key = normalizeMerchantText(expense.description);
+        const entry = counts.get(key) ?? { description: expense.description.trim(), count: 0 };
+        entry.count += 1;
+        return counts.set(key, entry);
+      }, new Map<string, { description: string; count: number }>())
+      .values(),
+  ]
+    .filter((entry) => entry.count > 1)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, UNMATCHED_LIMIT);
+
+  const resetForm = () => {
+    setEditing(null);
+    setName("");
+    setAliases([]);
+  };
+
+  const startEditing = (merchant: Merchant) => {
+    setEditing(merchant);
+    setName(merchant.name);
+    setAliases(merchant.aliases);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const startFrom = (description: string) => {
+    resetForm();
+    setName(description);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (merchant: Merchant) => repository.saveMerchant(user!.id, merchant),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["merchants"] });
+      toast.success(editing ? "Merchant updated" : "Merchant added");
+      resetForm();
+    },
+    onError: () => {
+      toast.error("Could not save the merchant");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => repository.deleteMerchant(user!.id, id),
+    onSuccess: (_, id) => {
+      queryClient.invalidateQueries({ queryKey: ["merchants"] });
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      toast.success("Merchant deleted");
+      setDeleting(null);
+      if (editing?.id === id) resetForm();
+    },
+    onError: () => {
+      toast.error("Could not delete the merchant");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmed = name.trim();
+    if (!trimmed) {
+      toast.error("Please enter a name");
+      return;
+    }
+    // Each spelling may belong to one merchant only, or matching would be ambiguous.
+    for (const text of [trimmed, ...aliases]) {
+      const clash = findMerchantClash(text, merchants, editing?.id);
+      if (clash) {
+        toast.error(`"${text}" already belongs to ${clash.name}`);
+        return;
+      }
+    }
+
+    saveMutation.mutate({
+      id: editing?.id ?? crypto.randomUUID(),
+      name: trimmed,
+      aliases,
+      createdAt: editing?.createdAt ?? new Date().toISOString(),
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-24 pt-6 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="rounded-full">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Merchants</h1>
+            <p className="text-muted-foreground">Group the different spellings of the places you spend at</p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">
+            {editing ? `Edit ${editing.name}` : "Add a merchant"}
+          </h2>
+
+          <div className="space-y-2">
+            <Label htmlFor="merchant-name">Name</Label>
+            <Input
+              id="merchant-name"
+              type="text"
+              placeholder="e.g., Amazon"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="rounded-xl h-12 text-base"
+              maxLength={60}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="merchant-aliases">Also matches</Label>
+            <TagInput
+              id="merchant-aliases"
+              value={aliases}
+              onChange={setAliases}
+              suggestions={[]}
+              placeholder="e.g., amazon.in, AMZN Mktp"
+            />
+            <p className="text-xs text-muted-foreground">
+              An expense belongs to the merchant when its description contains the name or one of these as whole
+              words, ignoring case, punctuation and endings like .com or .in.
+            </p>
+          </div>
+
+          <div className="flex gap-3">
+            {editing && (
+              <Button type="button" variant="outline" className="flex-1 rounded-xl" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" className="flex-1 rounded-xl" disabled={saveMutation.isPending}>
+              {editing ? "Update Merchant" : "Add Merchant"}
+            </Button>
+          </div>
+        </form>
+
+        {unmatched.length > 0 && (
+          <div className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-3">
+            <div>
+              <h2 className="text-lg font-semibold text-foreground">Not matched yet</h2>
+              <p className="text-sm text-muted-foreground">Descriptions you use often that no merchant covers.</p>
+            </div>
+            {unmatched.map((entry) => (
+              <div key={entry.description} className="flex items-center gap-3">
+                <span className="flex-1 min-w-0 truncate text-sm text-foreground">{entry.description}</span>
+                <span className="text-xs text-muted-foreground">{entry.count} expenses</span>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Make a merchant from this"
+                  onClick={() => startFrom(entry.description)}
+                  className="w-8 h-8 text-muted-foreground hover:text-foreground"
+                >
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {merchants.length === 0 ? (
+          <div className="bg-card rounded-2xl p-8 text-center shadow-md border border-border">
+            <p className="text-muted-foreground">No merchants yet. Add one above.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {merchants.map((merchant) => {
+              const entry = stats.get(merchant.id);
+              return (
+                <div key={merchant.id} className="bg-card rounded-2xl p-4 shadow-md border border-border">
+                  <div className="flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-foreground truncate">{merchant.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {entry
+                          ? `${entry.visits} ${entry.visits === 1 ? "expense" : "expenses"} · ${formatMoney(entry.total, homeCurrency)}`
+                          : "No expenses yet"}
+                        {merchant.aliases.length > 0 && ` · also ${merchant.aliases.join(", ")}`}
+                      </p>
+                    </div>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title="Edit"
+                      onClick={() => startEditing(merchant)}
+                      className="w-8 h-8 text-muted-foreground hover:text-foreground"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      title="Delete"
+                      onClick={() => setDeleting(merchant)}
+                      className="w-8 h-8 text-muted-foreground hover:text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Its expenses are kept but no longer belong to a merchant.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+            >
+              Delete Merchant
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { toast } from "sonner";
+import { ArrowLeft, CalendarClock, Plus, Square, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/contexts/AuthContext";
+import { useRecurringExpenses } from "@/hooks/use-recurring";
+import { useCategories } from "@/hooks/use-categories";
+import { CategoryIcon } from "@/components/CategoryIcon";
+import { repository } from "@/lib/repository";
+import { describeSchedule, getNextOccurrence } from "@/lib/recurring";
+import { defaultCategories, getCategoryInfo } from "@/lib/categories";
+import { formatMoney } from "@/lib/currency";
+import { RecurringExpense } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+export default function Recurring() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: templates = [] } = useRecurringExpenses();
+  const { data: categories = defaultCategories } = useCategories();
+
+  const stopMutation = useMutation({
+    mutationFn: (template: RecurringExpense) =>
+      repository.saveRecurringExpense(user!.id, {
+        ...template,
+        endDate: format(new Date(), "yyyy-MM-dd"),
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["recurring"] });
+      toast.success("Recurring expense stopped");
+    },
+    onError: () => {
+      toast.error("Could not stop recurring expense");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => repository.deleteRecurringExpense(user!.id, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["recurring"] });
+      toast.success("Recurring expense deleted. Past entries were kept.");
+    },
+    onError: () => {
+      toast.error("Could not delete recurring expense");
+    },
+  });
+
+  const sortedTemplates = [...templates].sort((a, b) => a.description.localeCompare(b.description));
+
+  return (
+    <div className="min-h-screen bg-background pb-24 pt-6 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="rounded-full">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="flex-1">
+            <h1 className="text-3xl font-bold text-foreground">Recurring</h1>
+            <p className="text-muted-foreground">Rent, bills and subscriptions added for you</p>
+          </div>
+          <Button size="icon" onClick={() => navigate("/add")} className="rounded-full">
+            <Plus className="w-5 h-5" />
+          </Button>
+        </div>
+
+        {sortedTemplates.length === 0 ? (
+          <div className="bg-card rounded-2xl p-8 text-center shadow-md border border-border">
+            <p className="text-muted-foreground mb-4">No recurring expenses yet</p>
+            <Button onClick={() => navigate("/add")}>Add One</Button>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {sortedTemplates.map((template) => {
+              const categoryInfo = getCategoryInfo(template.category, categories);
+              const nextDate = getNextOccurrence(template);
+              const ended = !!template.endDate && template.endDate < format(new Date(), "yyyy-MM-dd");
+
+              return (
+                <div
+                  key={template.id}
+                  className={cn(
+                    "bg-card rounded-2xl p-4 shadow-md border border-border",
+                    ended && "opacity-60"
+                  )}
+                >
+                  <div className="flex items-start gap-3">
+                    <CategoryIcon category={categoryInfo} />
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-start justify-between gap-2 mb-1">
+                        <h3 className="font-semibold text-foreground truncate">{template.description}</h3>
+                        <span className="font-bold text-lg text-foreground whitespace-nowrap">
+                          {formatMoney(template.amount, template.currency)}
+                        </span>
+                      </div>
+                      <p className="text-sm text-muted-foreground">{describeSchedule(template)}</p>
+                      <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
+                        <CalendarClock className="w-3 h-3" />
+                        {nextDate
+                          ? `Next on ${format(parseISO(nextDate), "MMM dd, yyyy")}`
+                          : template.endDate
+                          ? `Ended ${format(parseISO(template.endDate), "MMM dd, yyyy")}`
+                          : "No upcoming occurrences"}
+                      </div>
+                    </div>
+
+                    <div className="flex gap-1 ml-2">
+                      {nextDate && (
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Stop repeating"
+                          onClick={() => stopMutation.mutate(template)}
+                          className="w-8 h-8 text-muted-foreground hover:text-foreground"
+                        >
+                          <Square className="w-4 h-4" />
+                        </Button>
+                      )}
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="Delete"
+                        onClick={() => deleteMutation.mutate(template.id)}
+                        className="w-8 h-8 text-muted-foreground hover:text-destructive"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,564 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ArrowDown, ArrowLeft, ArrowUp, Edit, Plus, Trash2, Wand2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { TagInput } from "@/components/TagInput";
+import { useAuth } from "@/contexts/AuthContext";
+import { useCategories } from "@/hooks/use-categories";
+import { useCategoryRules } from "@/hooks/use-category-rules";
+import { useExpenses } from "@/hooks/use-expenses";
+import { repository } from "@/lib/repository";
+import { defaultCategories, getActiveCategories, getCategoryLabel } from "@/lib/categories";
+import { paymentMethods } from "@/lib/paymentMethods";
+import {
+  describeRule,
+  findMatchingRule,
+  getRuleChanges,
+  getRuleField,
+  operatorLabels,
+  ruleFields,
+  sortRules,
+} from "@/lib/rules";
+import { getTagSummaries } from "@/lib/tags";
+import { Category, CategoryRule, PaymentMethod, RuleCondition, RuleField } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+const emptyCondition = (): RuleCondition => ({ field: "description", operator: "contains", value: "" });
+
+export default function Rules() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { data: categories = defaultCategories } = useCategories();
+  const { data: savedRules = [] } = useCategoryRules();
+  const { data: expenses = [] } = useExpenses();
+  const rules = sortRules(savedRules);
+  const tagSuggestions = getTagSummaries(expenses)
+    .sort((a, b) => b.count - a.count)
+    .map((summary) => summary.name);
+
+  const [editing, setEditing] = useState<CategoryRule | null>(null);
+  const [name, setName] = useState("");
+  const [conditions, setConditions] = useState<RuleCondition[]>([emptyCondition()]);
+  const [category, setCategory] = useState<Category | null>(null);
+  const [tags, setTags] = useState<string[]>([]);
+  const [deleting, setDeleting] = useState<CategoryRule | null>(null);
+  const [confirmApply, setConfirmApply] = useState(false);
+
+  const [testDescription, setTestDescription] = useState("");
+  const [testAmount, setTestAmount] = useState("");
+  const [testPaymentMethod, setTestPaymentMethod] = useState<PaymentMethod>("upi");
+  const testing = testDescription.trim() !== "" || testAmount !== "";
+  const testMatch = testing
+    ? findMatchingRule(rules, {
+        description: testDescription,
+        amount: parseFloat(testAmount) || 0,
+        paymentMethod: testPaymentMethod,
+      })
+    : undefined;
+
+  const pendingChanges = getRuleChanges(rules, expenses);
+
+  const resetForm = () => {
+    setEditing(null);
+    setName("");
+    setConditions([emptyCondition()]);
+    setCategory(null);
+    setTags([]);
+  };
+
+  const startEditing = (rule: CategoryRule) => {
+    setEditing(rule);
+    setName(rule.name);
+    setConditions(rule.conditions.length > 0 ? rule.conditions : [emptyCondition()]);
+    setCategory(rule.category ?? null);
+    setTags(rule.tags ?? []);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const updateCondition = (index: number, changes: Partial<RuleCondition>) => {
+    setConditions((current) =>
+      current.map((condition, i) => {
+        if (i !== index) return condition;
+        const next = { ...condition, ...changes };
+        // Switching field resets the operator (and value) to ones that field understands.
+        if (changes.field && changes.field !== condition.field) {
+          next.operator = getRuleField(changes.field).operators[0];
+          next.value = changes.field === "paymentMethod" ? paymentMethods[0].value : "";
+        }
+        return next;
+      })
+    );
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (changed: CategoryRule[]) => repository.saveCategoryRules(user!.id, changed),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["categoryRules"] });
+    },
+    onError: () => {
+      toast.error("Could not save rules");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => repository.deleteCategoryRule(user!.id, id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["categoryRules"] });
+      toast.success("Rule deleted");
+      setDeleting(null);
+      if (editing?.id === deleting?.id) resetForm();
+    },
+    onError: () => {
+      toast.error("Could not delete the rule");
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async () => {
+      for (const { expense, changes } of pendingChanges) {
+        await repository.updateExpense(user!.id, expense.id, changes);
+      }
+      return pendingChanges.length;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      toast.success(`Updated ${count} ${count === 1 ? "expense" : "expenses"}`);
+      setConfirmApply(false);
+    },
+    onError: () => {
+      queryClient.invalidateQueries({ queryKey: ["expenses"] });
+      toast.error("Could not update every expense");
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const trimmed = name.trim();
+    if (!trimmed) {
+      toast.error("Please enter a name");
+      return;
+    }
+    const filled = conditions.filter((condition) => condition.value.trim() !== "");
+    if (filled.length === 0) {
+      toast.error("Add at least one condition");
+      return;
+    }
+    if (filled.some((condition) => condition.field === "amount" && isNaN(Number(condition.value)))) {
+      toast.error("Amounts must be numbers");
+      return;
+    }
+    if (!category && tags.length === 0) {
+      toast.error("Pick a category or some tags for the rule to set");
+      return;
+    }
+
+    const rule: CategoryRule = {
+      ...(editing ?? {
+        id: crypto.randomUUID(),
+        sortOrder: Math.max(-1, ...rules.map((r) => r.sortOrder)) + 1,
+        enabled: true,
+        createdAt: new Date().toISOString(),
+      }),
+      name: trimmed,
+      conditions: filled.map((condition) => ({ ...condition, value: condition.value.trim() })),
+      category: category ?? undefined,
+      tags: tags.length > 0 ? tags : undefined,
+    };
+
+    saveMutation.mutate([rule], {
+      onSuccess: () => {
+        toast.success(editing ? "Rule updated" : "Rule added");
+        resetForm();
+      },
+    });
+  };
+
+  const move = (rule: CategoryRule, direction: -1 | 1) => {
+    const ordered = [...rules];
+    const from = ordered.findIndex((r) => r.id === rule.id);
+    const to = from + direction;
+    if (to < 0 || to >= ordered.length) return;
+
+    [ordered[from], ordered[to]] = [ordered[to], ordered[from]];
+    const changed = ordered
+      .map((r, index) => ({ ...r, sortOrder: index }))
+      .filter((r, index) => rules.find((existing) => existing.id === r.id)?.sortOrder !== index);
+    saveMutation.mutate(changed);
+  };
+
+  const renderValueInput = (condition: RuleCondition, index: number) => {
+    if (condition.field === "paymentMethod") {
+      return (
+        <Select value={condition.value} onValueChange={(value) => updateCondition(index, { value })}>
+          <SelectTrigger className="rounded-xl">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {paymentMethods.map((method) => (
+              <SelectItem key={method.value} value={method.value}>
+                {method.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        type={condition.field === "amount" ? "number" : "text"}
+        step={condition.field === "amount" ? "0.01" : undefined}
+        placeholder={condition.field === "amount" ? "e.g., 499" : "e.g., swiggy"}
+        value={condition.value}
+        onChange={(e) => updateCondition(index, { value: e.target.value })}
+        className="rounded-xl"
+      />
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-24 pt-6 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="rounded-full">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Rules</h1>
+            <p className="text-muted-foreground">Categorise and tag expenses automatically</p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">{editing ? `Edit ${editing.name}` : "Add a rule"}</h2>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-name">Name</Label>
+            <Input
+              id="rule-name"
+              type="text"
+              placeholder="e.g., Food delivery"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="rounded-xl h-12 text-base"
+              maxLength={60}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>When all of these match</Label>
+            {conditions.map((condition, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_1.5fr_auto] gap-2">
+                <Select
+                  value={condition.field}
+                  onValueChange={(value) => updateCondition(index, { field: value as RuleField })}
+                >
+                  <SelectTrigger className="rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ruleFields.map((field) => (
+                      <SelectItem key={field.value} value={field.value}>
+                        {field.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={condition.operator}
+                  onValueChange={(value) => updateCondition(index, { operator: value as RuleCondition["operator"] })}
+                >
+                  <SelectTrigger className="rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getRuleField(condition.field).operators.map((operator) => (
+                      <SelectItem key={operator} value={operator}>
+                        {operatorLabels[operator]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {renderValueInput(condition, index)}
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  title="Remove condition"
+                  disabled={conditions.length === 1}
+                  onClick={() => setConditions((current) => current.filter((_, i) => i !== index))}
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="rounded-xl"
+              onClick={() => setConditions((current) => [...current, emptyCondition()])}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Add condition
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Set category</Label>
+            <Select value={category ?? "none"} onValueChange={(value) => setCategory(value === "none" ? null : value)}>
+              <SelectTrigger className="rounded-xl h-12">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Leave unchanged</SelectItem>
+                {getActiveCategories(categories, category ?? undefined).map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {getCategoryLabel(option.id, categories)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="rule-tags">Add tags</Label>
+            <TagInput
+              id="rule-tags"
+              value={tags}
+              onChange={setTags}
+              suggestions={tagSuggestions}
+              placeholder="e.g., delivery"
+            />
+          </div>
+
+          <div className="flex gap-3">
+            {editing && (
+              <Button type="button" variant="outline" className="flex-1 rounded-xl" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+            <Button type="submit" className="flex-1 rounded-xl" disabled={saveMutation.isPending}>
+              {editing ? "Update Rule" : "Add Rule"}
+            </Button>
+          </div>
+        </form>
+
+        {/* Test box */}
+        <div className="bg-card rounded-2xl p-6 shadow-md border border-border space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-foreground">Try your rules</h2>
+            <p className="text-sm text-muted-foreground">See which rule an expense like this would get.</p>
+          </div>
+          <div className="grid grid-cols-[2fr_1fr_1fr] gap-2">
+            <Input
+              type="text"
+              placeholder="Description"
+              value={testDescription}
+              onChange={(e) => setTestDescription(e.target.value)}
+              className="rounded-xl"
+            />
+            <Input
+              type="number"
+              step="0.01"
+              placeholder="Amount"
+              value={testAmount}
+              onChange={(e) => setTestAmount(e.target.value)}
+              className="rounded-xl"
+            />
+            <Select value={testPaymentMethod} onValueChange={(value) => setTestPaymentMethod(value as PaymentMethod)}>
+              <SelectTrigger className="rounded-xl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {paymentMethods.map((method) => (
+                  <SelectItem key={method.value} value={method.value}>
+                    {method.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {testing && (
+            <p className={cn("text-sm", testMatch ? "text-foreground" : "text-muted-foreground")}>
+              {testMatch
+                ? `Matches "${testMatch.name}": ${describeRule(testMatch, categories)}`
+                : "No rule matches; the category would be picked by hand."}
+            </p>
+          )}
+        </div>
+
+        {/* Existing history */}
+        {rules.length > 0 && (
+          <div className="bg-card rounded-2xl p-6 shadow-md border border-border flex items-center gap-4">
+            <div className="flex-1">
+              <h2 className="text-lg font-semibold text-foreground">Apply to past expenses</h2>
+              <p className="text-sm text-muted-foreground">
+                {pendingChanges.length === 0
+                  ? "Every expense already matches your rules."
+                  : `${pendingChanges.length} ${pendingChanges.length === 1 ? "expense" : "expenses"} would change.`}
+              </p>
+            </div>
+            <Button
+              className="rounded-xl"
+              disabled={pendingChanges.length === 0 || applyMutation.isPending}
+              onClick={() => setConfirmApply(true)}
+            >
+              <Wand2 className="w-4 h-4 mr-2" />
+              Apply
+            </Button>
+          </div>
+        )}
+
+        {/* Rules, highest priority first */}
+        {rules.length === 0 ? (
+          <div className="bg-card rounded-2xl p-8 text-center shadow-md border border-border">
+            <p className="text-muted-foreground">No rules yet. Add one above.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">Rules are tried from the top; the first match wins.</p>
+            {rules.map((rule, index) => (
+              <div
+                key={rule.id}
+                className={cn(
+                  "bg-card rounded-2xl p-3 shadow-md border border-border",
+                  testMatch?.id === rule.id && "border-primary",
+                  !rule.enabled && "opacity-60"
+                )}
+              >
+                <div className="flex items-center gap-3">
+                  <Switch
+                    checked={rule.enabled}
+                    title={rule.enabled ? "Turn off" : "Turn on"}
+                    disabled={saveMutation.isPending}
+                    onCheckedChange={(enabled) => saveMutation.mutate([{ ...rule, enabled }])}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-foreground truncate">{rule.name}</p>
+                    <p className="text-xs text-muted-foreground">{describeRule(rule, categories)}</p>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Move up"
+                    disabled={index === 0 || saveMutation.isPending}
+                    onClick={() => move(rule, -1)}
+                    className="w-8 h-8 text-muted-foreground hover:text-foreground"
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Move down"
+                    disabled={index === rules.length - 1 || saveMutation.isPending}
+                    onClick={() => move(rule, 1)}
+                    className="w-8 h-8 text-muted-foreground hover:text-foreground"
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Edit"
+                    onClick={() => startEditing(rule)}
+                    className="w-8 h-8 text-muted-foreground hover:text-foreground"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Delete"
+                    onClick={() => setDeleting(rule)}
+                    className="w-8 h-8 text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              New expenses stop being matched by it. Expenses it has already categorised keep their category and tags.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deleting && deleteMutation.mutate(deleting.id)}
+            >
+              Delete Rule
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={confirmApply} onOpenChange={setConfirmApply}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Update {pendingChanges.length} {pendingChanges.length === 1 ? "expense" : "expenses"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Each expense gets the category and tags of the first rule it matches, replacing categories picked by hand.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <ul className="max-h-48 overflow-y-auto text-sm space-y-1">
+            {pendingChanges.slice(0, 50).map(({ expense, rule, changes }) => (
+              <li key={expense.id} className="flex justify-between gap-2">
+                <span className="truncate">{expense.description}</span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  {rule.name} → {getCategoryLabel(changes.category, categories)}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                // Stays open until the updates finish.
+                e.preventDefault();
+                applyMutation.mutate();
+              }}
+              disabled={applyMutation.isPending}
+            >
+              Update Expenses
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { ArrowLeft, Edit, Merge, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useExpenses } from "@/hooks/use-expenses";
+import { useHomeCurrency } from "@/hooks/use-currency";
+import { repository } from "@/lib/repository";
+import { formatMoney } from "@/lib/currency";
+import { cleanTagName, getTagSummaries, normalizeTag, TagSummary } from "@/lib/tags";
+
+type TagAction = { tag: string; mode: "rename" | "merge" };
+
+export default function Tags() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const homeCurrency = useHomeCurrency();
+  const { data: expenses = [] } = useExpenses();
+
+  const [action, setAction] = useState<TagAction | null>(null);
+  const [newName, setNewName] = useState("");
+  const [mergeTarget, setMergeTarget] = useState("");
+  const [deleting, setDeleting] = useState<TagSummary | null>(null);
+
+  const tags = getTagSummaries(expenses);
+  const findTag = (name: string) => tags.find((tag) => normalizeTag(tag.name) === normalizeTag(name));
+  // Renaming onto a tag that already exists merges the two.
+  const renameConflict = action?.mode === "rename" ? findTag(newName) : undefined;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["expenses"] });
+    queryClient.invalidateQueries({ queryKey: ["recurring"] });
+  };
+
+  const renameMutation = useMutation({
+    mutationFn: ({ from, to }: { from: string; to: string }) => repository.renameTag(user!.id, from, to),
+    onSuccess: (_, { from, to }) => {
+      invalidate();
+      const existing = findTag(to);
+      toast.success(
+        existing && normalizeTag(existing.name) !== normalizeTag(from)
+          ? `Merged ${from} into ${existing.name}`
+          : `Renamed ${from} to ${to}`
+      );
+      setAction(null);
+    },
+    onError: () => {
+      toast.error("Could not update the tag");
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (name: string) => repository.deleteTag(user!.id, name),
+    onSuccess: (_, name) => {
+      invalidate();
+      toast.success(`Deleted ${name}`);
+      setDeleting(null);
+    },
+    onError: () => {
+      toast.error("Could not delete the tag");
+    },
+  });
+
+  const startAction = (tag: string, mode: TagAction["mode"]) => {
+    setAction({ tag, mode });
+    setNewName(tag);
+    setMergeTarget("");
+  };
+
+  const handleRename = (from: string) => {
+    const to = cleanTagName(newName);
+    if (!to) {
+      toast.error("Please enter a name");
+      return;
+    }
+    if (to === from) {
+      setAction(null);
+      return;
+    }
+    renameMutation.mutate({ from, to });
+  };
+
+  return (
+    <div className="min-h-screen bg-background pb-24 pt-6 px-4">
+      <div className="max-w-2xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center gap-4 mb-8">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")} className="rounded-full">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Tags</h1>
+            <p className="text-muted-foreground">Rename, merge and delete the tags on your expenses</p>
+          </div>
+        </div>
+
+        {tags.length === 0 ? (
+          <div className="bg-card rounded-2xl p-8 text-center shadow-md border border-border">
+            <p className="text-muted-foreground">No tags yet. Add some when you record an expense.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {tags.map((tag) => (
+              <div key={tag.name} className="bg-card rounded-2xl p-4 shadow-md border border-border space-y-3">
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-foreground truncate">{tag.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {tag.count} {tag.count === 1 ? "expense" : "expenses"} · {formatMoney(tag.total, homeCurrency)}
+                    </p>
+                  </div>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Rename"
+                    onClick={() => startAction(tag.name, "rename")}
+                    className="w-8 h-8 text-muted-foreground hover:text-foreground"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Merge into another tag"
+                    disabled={tags.length < 2}
+                    onClick={() => startAction(tag.name, "merge")}
+                    className="w-8 h-8 text-muted-foreground hover:text-foreground"
+                  >
+                    <Merge className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Delete"
+                    onClick={() => setDeleting(tag)}
+                    className="w-8 h-8 text-muted-foreground hover:text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+
+                {action?.tag === tag.name && action.mode === "rename" && (
+                  <div className="flex gap-2">
+                    <Input
+                      value={newName}
+                      onChange={(e) => setNewName(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && handleRename(tag.name)}
+                      className="rounded-xl"
+                      autoFocus
+                    />
+                    <Button variant="outline" className="rounded-xl" onClick={() => setAction(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      className="rounded-xl"
+                      onClick={() => handleRename(tag.name)}
+                      disabled={renameMutation.isPending}
+                    >
+                      Save
+                    </Button>
+                  </div>
+                )}
+                {action?.tag === tag.name && renameConflict && renameConflict !== tag && (
+                  <p className="text-xs text-muted-foreground">
+                    {renameConflict.name} already exists; saving merges the two.
+                  </p>
+                )}
+
+                {action?.tag === tag.name && action.mode === "merge" && (
+                  <div className="flex gap-2">
+                    <Select value={mergeTarget} onValueChange={setMergeTarget}>
+                      <SelectTrigger className="rounded-xl">
+                        <SelectValue placeholder="Merge into..." />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {tags
+                          .filter((other) => other !== tag)
+                          .map((other) => (
+                            <SelectItem key={other.name} value={other.name}>
+                              {other.name}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                    <Button variant="outline" className="rounded-xl" onClick={() => setAction(null)}>
+                      Cancel
+                    </Button>
+                    <Button
+                      className="rounded-xl"
+                      onClick={() => renameMutation.mutate({ from: tag.name, to: mergeTarget })}
+                      disabled={!mergeTarget || renameMutation.isPending}
+                    >
+                      Merge
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {deleting?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The tag is removed from {deleting?.count} {deleting?.count === 1 ? "expense" : "expenses"} and from any
+              recurring expenses. The expenses themselves are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deleting && deleteMutation.mutate(deleting.name)}
+            >
+              Delete Tag
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+-- Create recurring_expenses table (templates for rent, utilities, subscriptions...)
+CREATE TABLE public.recurring_expenses (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  description text NOT NULL,
+  amount numeric NOT NULL,
+  category text NOT NULL,
+  payment_method text NOT NULL,
+  tag text,
+  frequency text NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly', 'yearly', 'interval')),
+  interval_days integer CHECK (interval_days IS NULL OR interval_days > 0),
+  day_of_month integer CHECK (day_of_month IS NULL OR day_of_month BETWEEN 1 AND 31),
+  start_date date NOT NULL,
+  end_date date,
+  last_generated_date date,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (id),
+  CHECK (frequency <> 'interval' OR interval_days IS NOT NULL),
+  CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+-- Enable RLS
+ALTER TABLE public.recurring_expenses ENABLE ROW LEVEL SECURITY;
+
+-- Recurring expenses policies
+CREATE POLICY "Users can view their own recurring expenses"
+  ON public.recurring_expenses FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own recurring expenses"
+  ON public.recurring_expenses FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own recurring expenses"
+  ON public.recurring_expenses FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recurring expenses"
+  ON public.recurring_expenses FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Link generated expenses back to their template
+ALTER TABLE public.expenses
+  ADD COLUMN recurring_id uuid REFERENCES public.recurring_expenses(id) ON DELETE SET NULL;
+
+-- One generated row per template per date, so materialization can be retried safely
+CREATE UNIQUE INDEX expenses_recurring_occurrence_idx
+  ON public.expenses (recurring_id, date)
+  WHERE recurring_id IS NOT NULL;
@@ -0,0 +1,31 @@
+-- Create category_budgets table (per-category limits alongside monthly_budgets)
+CREATE TABLE public.category_budgets (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  month text NOT NULL,
+  category text NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (id),
+  UNIQUE (user_id, month, category)
+);
+
+-- Enable RLS
+ALTER TABLE public.category_budgets ENABLE ROW LEVEL SECURITY;
+
+-- Category budgets policies
+CREATE POLICY "Users can view their own category budgets"
+  ON public.category_budgets FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own category budgets"
+  ON public.category_budgets FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own category budgets"
+  ON public.category_budgets FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own category budgets"
+  ON public.category_budgets FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,4 @@
+-- Per-user budget rollover mode: carry last month's surplus or deficit forward
+ALTER TABLE public.profiles
+  ADD COLUMN budget_rollover text NOT NULL DEFAULT 'off'
+  CHECK (budget_rollover IN ('off', 'overall', 'category'));
@@ -0,0 +1,40 @@
+-- Every expense and recurring template keeps the currency it was paid in
+ALTER TABLE public.expenses
+  ADD COLUMN currency text NOT NULL DEFAULT 'INR';
+
+ALTER TABLE public.recurring_expenses
+  ADD COLUMN currency text NOT NULL DEFAULT 'INR';
+
+-- Create exchange_rates table (1 base_currency = rate quote_currency on date)
+CREATE TABLE public.exchange_rates (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  base_currency text NOT NULL,
+  quote_currency text NOT NULL,
+  rate numeric NOT NULL CHECK (rate > 0),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (id),
+  UNIQUE (user_id, date, base_currency, quote_currency),
+  CHECK (base_currency <> quote_currency)
+);
+
+-- Enable RLS
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- Exchange rates policies
+CREATE POLICY "Users can view their own exchange rates"
+  ON public.exchange_rates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own exchange rates"
+  ON public.exchange_rates FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exchange rates"
+  ON public.exchange_rates FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exchange rates"
+  ON public.exchange_rates FOR DELETE
+  USING (auth.uid() = user_id);
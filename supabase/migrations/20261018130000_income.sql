@@ -0,0 +1,34 @@
+-- Create income table (money coming in, kept apart from expenses)
+CREATE TABLE public.income (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  source text NOT NULL CHECK (source IN ('salary', 'freelance', 'refund', 'interest', 'gift', 'other')),
+  description text NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  currency text NOT NULL DEFAULT 'INR',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (id)
+);
+
+CREATE INDEX income_user_date_idx ON public.income (user_id, date);
+
+-- Enable RLS
+ALTER TABLE public.income ENABLE ROW LEVEL SECURITY;
+
+-- Income policies
+CREATE POLICY "Users can view their own income"
+  ON public.income FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own income"
+  ON public.income FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own income"
+  ON public.income FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own income"
+  ON public.income FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,139 @@
+-- Create accounts table (cash wallets, bank accounts, cards...)
+CREATE TABLE public.accounts (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  type text NOT NULL CHECK (type IN ('cash', 'bank', 'card', 'wallet')),
+  currency text NOT NULL DEFAULT 'INR',
+  opening_balance numeric NOT NULL DEFAULT 0,
+  archived boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (id)
+);
+
+-- Create transfers table (money moved between accounts; not spending)
+CREATE TABLE public.transfers (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  date date NOT NULL,
+  from_account_id uuid NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  to_account_id uuid NOT NULL REFERENCES public.accounts(id) ON DELETE CASCADE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  to_amount numeric CHECK (to_amount IS NULL OR to_amount > 0),
+  note text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (id),
+  CHECK (from_account_id <> to_account_id)
+);
+
+-- Link spending, income and recurring templates to the account they touch
+ALTER TABLE public.expenses
+  ADD COLUMN account_id uuid REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.income
+  ADD COLUMN account_id uuid REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.recurring_expenses
+  ADD COLUMN account_id uuid REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX expenses_account_id_idx ON public.expenses (account_id);
+
+-- Enable RLS
+ALTER TABLE public.accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.transfers ENABLE ROW LEVEL SECURITY;
+
+-- Accounts policies
+CREATE POLICY "Users can view their own accounts"
+  ON public.accounts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own accounts"
+  ON public.accounts FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own accounts"
+  ON public.accounts FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own accounts"
+  ON public.accounts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Transfers policies
+CREATE POLICY "Users can view their own transfers"
+  ON public.transfers FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Both ends must be the user's own accounts, not just the row.
+CREATE POLICY "Users can create their own transfers"
+  ON public.transfers FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = from_account_id AND a.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = to_account_id AND a.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update their own transfers"
+  ON public.transfers FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = from_account_id AND a.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = to_account_id AND a.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own transfers"
+  ON public.transfers FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Rows may only point at the user's own accounts
+DROP POLICY "Users can create their own expenses" ON public.expenses;
+CREATE POLICY "Users can create their own expenses"
+  ON public.expenses FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (account_id IS NULL OR EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = account_id AND a.user_id = auth.uid()))
+  );
+
+DROP POLICY "Users can update their own expenses" ON public.expenses;
+CREATE POLICY "Users can update their own expenses"
+  ON public.expenses FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (account_id IS NULL OR EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = account_id AND a.user_id = auth.uid()))
+  );
+
+DROP POLICY "Users can create their own income" ON public.income;
+CREATE POLICY "Users can create their own income"
+  ON public.income FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (account_id IS NULL OR EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = account_id AND a.user_id = auth.uid()))
+  );
+
+DROP POLICY "Users can update their own income" ON public.income;
+CREATE POLICY "Users can update their own income"
+  ON public.income FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (account_id IS NULL OR EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = account_id AND a.user_id = auth.uid()))
+  );
+
+DROP POLICY "Users can create their own recurring expenses" ON public.recurring_expenses;
+CREATE POLICY "Users can create their own recurring expenses"
+  ON public.recurring_expenses FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (account_id IS NULL OR EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = account_id AND a.user_id = auth.uid()))
+  );
+
+DROP POLICY "Users can update their own recurring expenses" ON public.recurring_expenses;
+CREATE POLICY "Users can update their own recurring expenses"
+  ON public.recurring_expenses FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND (account_id IS NULL OR EXISTS (SELECT 1 FROM public.accounts a WHERE a.id = account_id AND a.user_id = auth.uid()))
+  );
@@ -0,0 +1,35 @@
+-- Create categories table: each user's own categories, plus their edits
+-- (name, icon, colour, order, archived) to the built-in ones. Built-ins keep
+-- their fixed ids ('food', 'travel'...), which is what existing expenses hold,
+-- so the key is (user_id, id) rather than id alone.
+CREATE TABLE public.categories (
+  id text NOT NULL,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  icon text NOT NULL,
+  color text NOT NULL CHECK (color ~ '^#[0-9a-fA-F]{6}$'),
+  sort_order integer NOT NULL DEFAULT 0,
+  archived boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, id)
+);
+
+-- Enable RLS
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+-- Categories policies
+CREATE POLICY "Users can view their own categories"
+  ON public.categories FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own categories"
+  ON public.categories FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own categories"
+  ON public.categories FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own categories"
+  ON public.categories FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,7 @@
+-- Subcategories: a category may sit under one top-level category. The app
+-- keeps the tree two levels deep. parent_id is not a foreign key because the
+-- built-in parents only get a row once the user edits them.
+ALTER TABLE public.categories
+  ADD COLUMN parent_id text CHECK (parent_id <> id);
+
+CREATE INDEX idx_categories_parent ON public.categories(user_id, parent_id);
@@ -0,0 +1,171 @@
+-- Tags: many per expense, one row per name per user. Names are matched
+-- case- and whitespace-insensitively ("Work", " work " and "WORK" are the
+-- same tag); the first spelling saved is the one displayed.
+CREATE OR REPLACE FUNCTION public.normalize_tag(name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(regexp_replace(btrim(name), '\s+', ' ', 'g'))
+$$;
+
+CREATE TABLE public.tags (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(btrim(name)) > 0),
+  normalized_name text GENERATED ALWAYS AS (public.normalize_tag(name)) STORED,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (id),
+  UNIQUE (user_id, normalized_name)
+);
+
+CREATE TABLE public.expense_tags (
+  expense_id uuid NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  tag_id uuid NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  PRIMARY KEY (expense_id, tag_id)
+);
+
+CREATE INDEX expense_tags_tag_id_idx ON public.expense_tags (tag_id);
+
+-- Recurring templates only copy their tags onto the expenses they create, so they keep names
+ALTER TABLE public.recurring_expenses
+  ADD COLUMN tags text[] NOT NULL DEFAULT '{}';
+
+-- Move the old single free-text tag over
+INSERT INTO public.tags (user_id, name)
+SELECT DISTINCT ON (user_id, public.normalize_tag(tag)) user_id, btrim(tag)
+FROM public.expenses
+WHERE tag IS NOT NULL AND btrim(tag) <> ''
+ORDER BY user_id, public.normalize_tag(tag), created_at
+ON CONFLICT (user_id, normalized_name) DO NOTHING;
+
+INSERT INTO public.expense_tags (expense_id, tag_id)
+SELECT e.id, t.id
+FROM public.expenses e
+JOIN public.tags t ON t.user_id = e.user_id AND t.normalized_name = public.normalize_tag(e.tag)
+WHERE e.tag IS NOT NULL AND btrim(e.tag) <> '';
+
+UPDATE public.recurring_expenses
+SET tags = ARRAY[btrim(tag)]
+WHERE tag IS NOT NULL AND btrim(tag) <> '';
+
+ALTER TABLE public.expenses DROP COLUMN tag;
+ALTER TABLE public.recurring_expenses DROP COLUMN tag;
+
+-- Enable RLS
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.expense_tags ENABLE ROW LEVEL SECURITY;
+
+-- Tags policies
+CREATE POLICY "Users can view their own tags"
+  ON public.tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tags"
+  ON public.tags FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags"
+  ON public.tags FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+  ON public.tags FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Expense tag policies: both ends of the link must belong to the user
+CREATE POLICY "Users can view their own expense tags"
+  ON public.expense_tags FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id AND e.user_id = auth.uid()));
+
+CREATE POLICY "Users can create their own expense tags"
+  ON public.expense_tags FOR INSERT
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id AND e.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.tags t WHERE t.id = tag_id AND t.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own expense tags"
+  ON public.expense_tags FOR DELETE
+  USING (EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id AND e.user_id = auth.uid()));
+
+-- Replaces an expense's tags with `tag_names`, creating tags that don't exist yet.
+-- Runs as the caller, so the policies above still apply.
+CREATE OR REPLACE FUNCTION public.set_expense_tags(p_expense_id uuid, tag_names text[])
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO tags (user_id, name)
+  SELECT DISTINCT ON (normalize_tag(n)) auth.uid(), btrim(n)
+  FROM unnest(tag_names) AS n
+  WHERE btrim(n) <> ''
+  ON CONFLICT (user_id, normalized_name) DO NOTHING;
+
+  DELETE FROM expense_tags WHERE expense_id = p_expense_id;
+
+  INSERT INTO expense_tags (expense_id, tag_id)
+  SELECT p_expense_id, t.id
+  FROM tags t
+  WHERE t.user_id = auth.uid()
+    AND t.normalized_name IN (SELECT normalize_tag(n) FROM unnest(tag_names) AS n);
+END;
+$$;
+
+-- Renames a tag, or merges it into `to_name` when that tag already exists.
+CREATE OR REPLACE FUNCTION public.rename_tag(from_name text, to_name text)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  from_id uuid;
+  to_id uuid;
+BEGIN
+  SELECT id INTO from_id FROM tags
+  WHERE user_id = auth.uid() AND normalized_name = normalize_tag(from_name);
+  IF from_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO to_id FROM tags
+  WHERE user_id = auth.uid() AND normalized_name = normalize_tag(to_name) AND id <> from_id;
+
+  IF to_id IS NULL THEN
+    UPDATE tags SET name = btrim(to_name) WHERE id = from_id;
+  ELSE
+    INSERT INTO expense_tags (expense_id, tag_id)
+    SELECT expense_id, to_id FROM expense_tags WHERE tag_id = from_id
+    ON CONFLICT DO NOTHING;
+    DELETE FROM tags WHERE id = from_id;
+  END IF;
+
+  UPDATE recurring_expenses
+  SET tags = ARRAY(
+    SELECT DISTINCT ON (normalize_tag(x)) x
+    FROM unnest(
+      ARRAY(SELECT CASE WHEN normalize_tag(t) = normalize_tag(from_name) THEN btrim(to_name) ELSE t END
+            FROM unnest(tags) AS t)
+    ) AS x
+  )
+  WHERE user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM unnest(tags) AS t WHERE normalize_tag(t) = normalize_tag(from_name));
+END;
+$$;
+
+-- Deletes a tag; expenses and recurring templates simply lose it.
+CREATE OR REPLACE FUNCTION public.delete_tag(tag_name text)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM tags WHERE user_id = auth.uid() AND normalized_name = normalize_tag(tag_name);
+
+  UPDATE recurring_expenses
+  SET tags = ARRAY(SELECT t FROM unnest(tags) AS t WHERE normalize_tag(t) <> normalize_tag(tag_name))
+  WHERE user_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM unnest(tags) AS t WHERE normalize_tag(t) = normalize_tag(tag_name));
+END;
+$$;
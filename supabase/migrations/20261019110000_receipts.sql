@@ -0,0 +1,52 @@
+-- Receipts: images and PDFs attached to expenses. The files live in the
+-- private "receipts" storage bucket under <user_id>/<expense_id>/<receipt_id>;
+-- this table describes them so lists don't have to walk the bucket.
+CREATE TABLE public.receipts (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expense_id uuid NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  mime_type text NOT NULL CHECK (mime_type LIKE 'image/%' OR mime_type = 'application/pdf'),
+  size integer NOT NULL CHECK (size > 0 AND size <= 10485760),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (id)
+);
+
+CREATE INDEX receipts_expense_id_idx ON public.receipts (expense_id);
+
+-- Enable RLS
+ALTER TABLE public.receipts ENABLE ROW LEVEL SECURITY;
+
+-- Receipts policies
+CREATE POLICY "Users can view their own receipts"
+  ON public.receipts FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own receipts"
+  ON public.receipts FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id AND e.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete their own receipts"
+  ON public.receipts FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Private bucket; the app deletes an expense's files before the expense itself
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('receipts', 'receipts', false, 10485760, ARRAY['image/*', 'application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+-- Storage policies: each user only reaches the folder named after their id
+CREATE POLICY "Users can view their own receipt files"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload their own receipt files"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete their own receipt files"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'receipts' AND (storage.foldername(name))[1] = auth.uid()::text);
@@ -0,0 +1,35 @@
+-- Auto-categorisation rules: when every condition matches an expense, the
+-- rule sets its category and adds its tags. Conditions are a JSON array of
+-- { field, operator, value }; rules are tried in sort_order.
+CREATE TABLE public.category_rules (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  conditions jsonb NOT NULL DEFAULT '[]' CHECK (jsonb_typeof(conditions) = 'array'),
+  category text,
+  tags text[] NOT NULL DEFAULT '{}',
+  sort_order integer NOT NULL DEFAULT 0,
+  enabled boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (id)
+);
+
+-- Enable RLS
+ALTER TABLE public.category_rules ENABLE ROW LEVEL SECURITY;
+
+-- Category rules policies
+CREATE POLICY "Users can view their own category rules"
+  ON public.category_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own category rules"
+  ON public.category_rules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own category rules"
+  ON public.category_rules FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own category rules"
+  ON public.category_rules FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,39 @@
+-- Merchants: one row per place the user spends at, with the spellings bank
+-- statements and notes use for it ("amazon.in", "AMZN Mktp"). Expenses point
+-- at a merchant once one is picked or matched.
+CREATE TABLE public.merchants (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (length(trim(name)) > 0),
+  aliases text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (id)
+);
+
+CREATE UNIQUE INDEX merchants_user_id_name_idx ON public.merchants (user_id, lower(trim(name)));
+
+-- Deleting a merchant leaves its expenses unassigned
+ALTER TABLE public.expenses
+  ADD COLUMN merchant_id uuid REFERENCES public.merchants(id) ON DELETE SET NULL;
+
+CREATE INDEX expenses_merchant_id_idx ON public.expenses (merchant_id);
+
+-- Enable RLS
+ALTER TABLE public.merchants ENABLE ROW LEVEL SECURITY;
+
+-- Merchants policies
+CREATE POLICY "Users can view their own merchants"
+  ON public.merchants FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own merchants"
+  ON public.merchants FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own merchants"
+  ON public.merchants FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own merchants"
+  ON public.merchants FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,59 @@
+-- Split expenses: line items, each with its own category and amount, that
+-- add up to the expense's amount. The expense's own category is kept as the
+-- largest line's so anything that ignores splits still sees a sensible one.
+CREATE TABLE public.expense_splits (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  expense_id uuid NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  category text NOT NULL,
+  amount numeric NOT NULL CHECK (amount > 0),
+  note text,
+  position integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (id)
+);
+
+CREATE INDEX expense_splits_expense_id_idx ON public.expense_splits (expense_id);
+
+-- Enable RLS
+ALTER TABLE public.expense_splits ENABLE ROW LEVEL SECURITY;
+
+-- Expense split policies: the expense must belong to the user
+CREATE POLICY "Users can view their own expense splits"
+  ON public.expense_splits FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id AND e.user_id = auth.uid()));
+
+CREATE POLICY "Users can create their own expense splits"
+  ON public.expense_splits FOR INSERT
+  WITH CHECK (EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id AND e.user_id = auth.uid()));
+
+CREATE POLICY "Users can delete their own expense splits"
+  ON public.expense_splits FOR DELETE
+  USING (EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id AND e.user_id = auth.uid()));
+
+-- Replaces an expense's lines with `splits` (a JSON array of
+-- { category, amount, note }); an empty array un-splits it. The lines must
+-- add up to the expense's amount. Runs as the caller, so the policies apply.
+CREATE OR REPLACE FUNCTION public.set_expense_splits(p_expense_id uuid, splits jsonb)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  total numeric;
+BEGIN
+  IF jsonb_array_length(splits) > 0 THEN
+    SELECT amount INTO total FROM expenses WHERE id = p_expense_id AND user_id = auth.uid();
+    IF total IS NULL THEN
+      RAISE EXCEPTION 'Expense not found';
+    END IF;
+    IF (SELECT round(sum((s->>'amount')::numeric), 2) FROM jsonb_array_elements(splits) AS s) <> round(total, 2) THEN
+      RAISE EXCEPTION 'Split lines must add up to the expense amount';
+    END IF;
+  END IF;
+
+  DELETE FROM expense_splits WHERE expense_id = p_expense_id;
+
+  INSERT INTO expense_splits (expense_id, category, amount, note, position)
+  SELECT p_expense_id, s.value->>'category', (s.value->>'amount')::numeric, nullif(s.value->>'note', ''), s.ordinality - 1
+  FROM jsonb_array_elements(splits) WITH ORDINALITY AS s(value, ordinality);
+END;
+$$;
@@ -0,0 +1,6 @@
+-- Per-user budget period start day: months run from this day to the day
+-- before it in the next month (e.g. 25th to 24th for a salary cycle).
+-- Capped at 28 so every month has the day.
+ALTER TABLE public.profiles
+  ADD COLUMN period_start_day integer NOT NULL DEFAULT 1
+  CHECK (period_start_day BETWEEN 1 AND 28);
@@ -0,0 +1,36 @@
+-- Anomaly feedback: what the user said about an expense flagged as unusual
+-- (dismissed, or expected). The detector runs in the app; these rows are how
+-- it learns which merchants and categories to be less strict about.
+CREATE TABLE public.anomaly_feedback (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  expense_id uuid NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('unusualAmount', 'duplicate', 'newMerchant')),
+  key text NOT NULL,
+  verdict text NOT NULL CHECK (verdict IN ('dismissed', 'expected')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (id),
+  UNIQUE (expense_id, kind)
+);
+
+CREATE INDEX anomaly_feedback_user_id_idx ON public.anomaly_feedback (user_id);
+
+-- Enable RLS
+ALTER TABLE public.anomaly_feedback ENABLE ROW LEVEL SECURITY;
+
+-- Anomaly feedback policies
+CREATE POLICY "Users can view their own anomaly feedback"
+  ON public.anomaly_feedback FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own anomaly feedback"
+  ON public.anomaly_feedback FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own anomaly feedback"
+  ON public.anomaly_feedback FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own anomaly feedback"
+  ON public.anomaly_feedback FOR DELETE
+  USING (auth.uid() = user_id);